@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "ImportJobStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "import_jobs" (
+    "id" TEXT NOT NULL,
+    "file_name" TEXT NOT NULL,
+    "file_path" TEXT NOT NULL,
+    "file_size" INTEGER NOT NULL,
+    "mapping" JSONB NOT NULL,
+    "status" "ImportJobStatus" NOT NULL DEFAULT 'PENDING',
+    "bytes_processed" INTEGER NOT NULL DEFAULT 0,
+    "rows_processed" INTEGER NOT NULL DEFAULT 0,
+    "imported" INTEGER NOT NULL DEFAULT 0,
+    "duplicates" INTEGER NOT NULL DEFAULT 0,
+    "errors" INTEGER NOT NULL DEFAULT 0,
+    "error_details" TEXT[],
+    "failure_reason" TEXT,
+    "started_at" TIMESTAMP(3),
+    "finished_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "journal_id" TEXT NOT NULL,
+
+    CONSTRAINT "import_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "import_jobs_journal_id_idx" ON "import_jobs"("journal_id");
+
+-- CreateIndex
+CREATE INDEX "import_jobs_status_idx" ON "import_jobs"("status");
+
+-- CreateIndex
+CREATE INDEX "import_jobs_created_at_idx" ON "import_jobs"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "import_jobs" ADD CONSTRAINT "import_jobs_journal_id_fkey" FOREIGN KEY ("journal_id") REFERENCES "journals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- AlterTable
+ALTER TABLE "email_contacts" ADD COLUMN "import_batch_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "import_batches" (
+    "id" TEXT NOT NULL,
+    "file_name" TEXT NOT NULL,
+    "created_by" TEXT NOT NULL,
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "imported" INTEGER NOT NULL DEFAULT 0,
+    "duplicates" INTEGER NOT NULL DEFAULT 0,
+    "errors" INTEGER NOT NULL DEFAULT 0,
+    "rolled_back_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "journal_id" TEXT NOT NULL,
+
+    CONSTRAINT "import_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- Give each existing import job a batch of its own (reusing the job ID)
+INSERT INTO "import_batches" ("id", "file_name", "created_by", "total", "imported", "duplicates", "errors", "created_at", "updated_at", "journal_id")
+SELECT "id", "file_name", 'anonymous', "rows_processed", "imported", "duplicates", "errors", "created_at", "updated_at", "journal_id"
+FROM "import_jobs";
+
+-- AlterTable
+ALTER TABLE "import_jobs" ADD COLUMN "batch_id" TEXT;
+
+UPDATE "import_jobs" SET "batch_id" = "id";
+
+ALTER TABLE "import_jobs" ALTER COLUMN "batch_id" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "import_batches_journal_id_idx" ON "import_batches"("journal_id");
+
+-- CreateIndex
+CREATE INDEX "import_batches_created_at_idx" ON "import_batches"("created_at");
+
+-- CreateIndex
+CREATE INDEX "email_contacts_import_batch_id_idx" ON "email_contacts"("import_batch_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "import_jobs_batch_id_key" ON "import_jobs"("batch_id");
+
+-- AddForeignKey
+ALTER TABLE "email_contacts" ADD CONSTRAINT "email_contacts_import_batch_id_fkey" FOREIGN KEY ("import_batch_id") REFERENCES "import_batches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "import_jobs" ADD CONSTRAINT "import_jobs_batch_id_fkey" FOREIGN KEY ("batch_id") REFERENCES "import_batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "import_batches" ADD CONSTRAINT "import_batches_journal_id_fkey" FOREIGN KEY ("journal_id") REFERENCES "journals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "import_batches" ADD COLUMN "headers" TEXT[];
+
+-- CreateTable
+CREATE TABLE "import_row_errors" (
+    "id" TEXT NOT NULL,
+    "line" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "values" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "batch_id" TEXT NOT NULL,
+
+    CONSTRAINT "import_row_errors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "import_row_errors_batch_id_line_idx" ON "import_row_errors"("batch_id", "line");
+
+-- AddForeignKey
+ALTER TABLE "import_row_errors" ADD CONSTRAINT "import_row_errors_batch_id_fkey" FOREIGN KEY ("batch_id") REFERENCES "import_batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
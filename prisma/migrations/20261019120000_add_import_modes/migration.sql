@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "ImportMode" AS ENUM ('SKIP', 'FILL', 'OVERWRITE');
+
+-- AlterTable
+ALTER TABLE "import_batches" ADD COLUMN "mode" "ImportMode" NOT NULL DEFAULT 'SKIP',
+ADD COLUMN "updated" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "import_jobs" ADD COLUMN "updated" INTEGER NOT NULL DEFAULT 0;
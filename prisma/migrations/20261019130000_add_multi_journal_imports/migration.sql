@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "import_batches" ADD COLUMN "brand_id" TEXT,
+ADD COLUMN "create_journals" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "journal_counts" JSONB NOT NULL DEFAULT '[]',
+ALTER COLUMN "journal_id" DROP NOT NULL;
+
+-- Backfill the brand of existing single-journal batches
+UPDATE "import_batches" AS b
+SET "brand_id" = j."brand_id"
+FROM "journals" AS j
+WHERE j."id" = b."journal_id";
+
+ALTER TABLE "import_batches" ALTER COLUMN "brand_id" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "import_jobs" ALTER COLUMN "journal_id" DROP NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "import_batches_brand_id_idx" ON "import_batches"("brand_id");
+
+-- AddForeignKey
+ALTER TABLE "import_batches" ADD CONSTRAINT "import_batches_brand_id_fkey" FOREIGN KEY ("brand_id") REFERENCES "brands"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "import_jobs" ADD COLUMN "sheet_name" TEXT,
+ADD COLUMN "header_row" INTEGER NOT NULL DEFAULT 1;
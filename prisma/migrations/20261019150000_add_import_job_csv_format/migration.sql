@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "import_jobs" ADD COLUMN "encoding" TEXT,
+ADD COLUMN "delimiter" TEXT;
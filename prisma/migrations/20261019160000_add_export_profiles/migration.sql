@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "export_profiles" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "columns" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "export_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "export_profiles_name_key" ON "export_profiles"("name");
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "ExportLogStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "export_logs" (
+    "id" TEXT NOT NULL,
+    "created_by" TEXT NOT NULL,
+    "filters" JSONB NOT NULL,
+    "columns" JSONB NOT NULL,
+    "profile_name" TEXT,
+    "mode" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "split" TEXT,
+    "status" "ExportLogStatus" NOT NULL DEFAULT 'RUNNING',
+    "row_count" INTEGER,
+    "checksum" TEXT,
+    "failure_reason" TEXT,
+    "finished_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "export_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "export_logs_created_at_idx" ON "export_logs"("created_at");
+
+-- CreateIndex
+CREATE INDEX "export_logs_created_by_idx" ON "export_logs"("created_by");
@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "ExportDestination" AS ENUM ('DIRECTORY', 'EMAIL');
+
+-- AlterTable
+ALTER TABLE "export_logs" ADD COLUMN "schedule_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "export_schedules" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "filters" JSONB NOT NULL,
+    "mode" TEXT NOT NULL DEFAULT 'contacts',
+    "format" TEXT NOT NULL DEFAULT 'csv',
+    "split" TEXT,
+    "cron" TEXT NOT NULL,
+    "destination" "ExportDestination" NOT NULL,
+    "directory" TEXT,
+    "recipients" TEXT[],
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "next_run_at" TIMESTAMP(3),
+    "last_run_at" TIMESTAMP(3),
+    "last_status" "ExportLogStatus",
+    "last_error" TEXT,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "profile_id" TEXT NOT NULL,
+
+    CONSTRAINT "export_schedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "export_logs_schedule_id_idx" ON "export_logs"("schedule_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "export_schedules_name_key" ON "export_schedules"("name");
+
+-- CreateIndex
+CREATE INDEX "export_schedules_profile_id_idx" ON "export_schedules"("profile_id");
+
+-- CreateIndex
+CREATE INDEX "export_schedules_enabled_next_run_at_idx" ON "export_schedules"("enabled", "next_run_at");
+
+-- AddForeignKey
+ALTER TABLE "export_logs" ADD CONSTRAINT "export_logs_schedule_id_fkey" FOREIGN KEY ("schedule_id") REFERENCES "export_schedules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "export_schedules" ADD CONSTRAINT "export_schedules_profile_id_fkey" FOREIGN KEY ("profile_id") REFERENCES "export_profiles"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "export_logs" ADD COLUMN     "sampling" JSONB;
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "SuppressionType" AS ENUM ('EMAIL', 'DOMAIN');
+
+-- AlterTable
+ALTER TABLE "email_contacts" ADD COLUMN     "suppressed" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "import_batches" ADD COLUMN     "suppressed" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "import_jobs" ADD COLUMN     "suppressed" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "suppressions" (
+    "id" TEXT NOT NULL,
+    "type" "SuppressionType" NOT NULL,
+    "value" TEXT NOT NULL,
+    "reason" TEXT,
+    "source" TEXT,
+    "created_by" TEXT NOT NULL,
+    "suppressed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "suppressions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "suppressions_value_key" ON "suppressions"("value");
+
+-- CreateIndex
+CREATE INDEX "suppressions_type_idx" ON "suppressions"("type");
+
+-- CreateIndex
+CREATE INDEX "suppressions_suppressed_at_idx" ON "suppressions"("suppressed_at");
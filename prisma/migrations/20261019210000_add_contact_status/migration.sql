@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "ContactStatus" AS ENUM ('ACTIVE', 'BOUNCED', 'UNSUBSCRIBED', 'COMPLAINED');
+
+-- AlterTable
+ALTER TABLE "email_contacts" ADD COLUMN     "status" "ContactStatus" NOT NULL DEFAULT 'ACTIVE',
+ADD COLUMN     "status_changed_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "contact_status_changes" (
+    "id" TEXT NOT NULL,
+    "status" "ContactStatus" NOT NULL,
+    "reason" TEXT,
+    "changed_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "contact_id" TEXT NOT NULL,
+
+    CONSTRAINT "contact_status_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "contact_status_changes_contact_id_created_at_idx" ON "contact_status_changes"("contact_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "email_contacts_status_idx" ON "email_contacts"("status");
+
+-- AddForeignKey
+ALTER TABLE "contact_status_changes" ADD CONSTRAINT "contact_status_changes_contact_id_fkey" FOREIGN KEY ("contact_id") REFERENCES "email_contacts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "email_contacts" ADD COLUMN     "clicks" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "last_engaged_at" TIMESTAMP(3),
+ADD COLUMN     "opens" INTEGER NOT NULL DEFAULT 0;
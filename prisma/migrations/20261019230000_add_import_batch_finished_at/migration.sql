@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "import_batches" ADD COLUMN "finished_at" TIMESTAMP(3);
+
+-- Backfill batches that are no longer being imported
+UPDATE "import_batches" AS b
+SET "finished_at" = b."updated_at"
+WHERE NOT EXISTS (
+    SELECT 1 FROM "import_jobs" AS j
+    WHERE j."batch_id" = b."id" AND j."status" IN ('PENDING', 'RUNNING')
+);
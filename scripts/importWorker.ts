@@ -0,0 +1,51 @@
+import prisma from '@/lib/prisma';
+import { failStaleImportJobs, runNextImportJob } from '@/lib/importJobs';
+
+/**
+ * Import worker
+ *
+ * Runs the background import jobs created by POST /api/import/jobs, one at a
+ * time, and marks jobs left running by a stopped worker as failed. Start it
+ * next to the app with `pnpm import:worker`; it needs the same DATABASE_URL
+ * and IMPORT_UPLOAD_DIR as the app. Several workers can run side by side.
+ */
+
+/**
+ * How long to wait before looking for jobs again when none is pending
+ */
+const POLL_INTERVAL = 5000;
+
+let stopping = false;
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    if (stopping) process.exit(1);
+    console.log('Import worker stopping after the current job');
+    stopping = true;
+  });
+}
+
+/**
+ * Run jobs until the process is asked to stop
+ */
+async function main(): Promise<void> {
+  console.log('Import worker started');
+  while (!stopping) {
+    try {
+      const failed = await failStaleImportJobs();
+      if (failed > 0) {
+        console.warn(`Marked ${failed} stalled import job(s) as failed`);
+      }
+      if (await runNextImportJob()) continue;
+    } catch (error) {
+      console.error('Import worker error:', error);
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+  }
+  await prisma.$disconnect();
+}
+
+main().catch((error) => {
+  console.error('Import worker crashed:', error);
+  process.exit(1);
+});
@@ -64,6 +64,243 @@ CREATE INDEX IF NOT EXISTS "email_contacts_year_idx" ON "email_contacts"("year")
 -- Create composite unique constraint for email per journal
 CREATE UNIQUE INDEX IF NOT EXISTS "email_contacts_email_journal_id_key" ON "email_contacts"("email", "journal_id");
 
+-- Create ImportMode enum
+DO $$ BEGIN
+  CREATE TYPE "ImportMode" AS ENUM ('SKIP', 'FILL', 'OVERWRITE');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Create import_batches table (one row per import run, used for rollback)
+CREATE TABLE IF NOT EXISTS "import_batches" (
+  "id" TEXT PRIMARY KEY,
+  "file_name" TEXT NOT NULL,
+  "headers" TEXT[],
+  "created_by" TEXT NOT NULL,
+  "mode" "ImportMode" NOT NULL DEFAULT 'SKIP',
+  "create_journals" BOOLEAN NOT NULL DEFAULT false,
+  "journal_counts" JSONB NOT NULL DEFAULT '[]',
+  "total" INTEGER NOT NULL DEFAULT 0,
+  "imported" INTEGER NOT NULL DEFAULT 0,
+  "updated" INTEGER NOT NULL DEFAULT 0,
+  "duplicates" INTEGER NOT NULL DEFAULT 0,
+  "errors" INTEGER NOT NULL DEFAULT 0,
+  "rolled_back_at" TIMESTAMP(3),
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL,
+  "brand_id" TEXT NOT NULL,
+  "journal_id" TEXT,
+  CONSTRAINT "import_batches_brand_id_fkey" FOREIGN KEY ("brand_id") REFERENCES "brands"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "import_batches_journal_id_fkey" FOREIGN KEY ("journal_id") REFERENCES "journals"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "import_batches_brand_id_idx" ON "import_batches"("brand_id");
+CREATE INDEX IF NOT EXISTS "import_batches_journal_id_idx" ON "import_batches"("journal_id");
+CREATE INDEX IF NOT EXISTS "import_batches_created_at_idx" ON "import_batches"("created_at");
+
+-- Create import_row_errors table (rejected rows, downloadable as errors.csv)
+CREATE TABLE IF NOT EXISTS "import_row_errors" (
+  "id" TEXT PRIMARY KEY,
+  "line" INTEGER NOT NULL,
+  "reason" TEXT NOT NULL,
+  "values" JSONB NOT NULL,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "batch_id" TEXT NOT NULL,
+  CONSTRAINT "import_row_errors_batch_id_fkey" FOREIGN KEY ("batch_id") REFERENCES "import_batches"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "import_row_errors_batch_id_line_idx" ON "import_row_errors"("batch_id", "line");
+
+-- Link contacts to the import batch that created them
+ALTER TABLE "email_contacts" ADD COLUMN IF NOT EXISTS "import_batch_id" TEXT;
+DO $$ BEGIN
+  ALTER TABLE "email_contacts" ADD CONSTRAINT "email_contacts_import_batch_id_fkey" FOREIGN KEY ("import_batch_id") REFERENCES "import_batches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+CREATE INDEX IF NOT EXISTS "email_contacts_import_batch_id_idx" ON "email_contacts"("import_batch_id");
+
+-- Create ImportJobStatus enum
+DO $$ BEGIN
+  CREATE TYPE "ImportJobStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Create import_jobs table (background imports of large files)
+CREATE TABLE IF NOT EXISTS "import_jobs" (
+  "id" TEXT PRIMARY KEY,
+  "file_name" TEXT NOT NULL,
+  "file_path" TEXT NOT NULL,
+  "file_size" INTEGER NOT NULL,
+  "mapping" JSONB NOT NULL,
+  "sheet_name" TEXT,
+  "header_row" INTEGER NOT NULL DEFAULT 1,
+  "encoding" TEXT,
+  "delimiter" TEXT,
+  "status" "ImportJobStatus" NOT NULL DEFAULT 'PENDING',
+  "bytes_processed" INTEGER NOT NULL DEFAULT 0,
+  "rows_processed" INTEGER NOT NULL DEFAULT 0,
+  "imported" INTEGER NOT NULL DEFAULT 0,
+  "updated" INTEGER NOT NULL DEFAULT 0,
+  "duplicates" INTEGER NOT NULL DEFAULT 0,
+  "errors" INTEGER NOT NULL DEFAULT 0,
+  "error_details" TEXT[],
+  "failure_reason" TEXT,
+  "started_at" TIMESTAMP(3),
+  "finished_at" TIMESTAMP(3),
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL,
+  "journal_id" TEXT,
+  "batch_id" TEXT NOT NULL UNIQUE,
+  CONSTRAINT "import_jobs_journal_id_fkey" FOREIGN KEY ("journal_id") REFERENCES "journals"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "import_jobs_batch_id_fkey" FOREIGN KEY ("batch_id") REFERENCES "import_batches"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "import_jobs_journal_id_idx" ON "import_jobs"("journal_id");
+CREATE INDEX IF NOT EXISTS "import_jobs_status_idx" ON "import_jobs"("status");
+CREATE INDEX IF NOT EXISTS "import_jobs_created_at_idx" ON "import_jobs"("created_at");
+
+-- Create export_profiles table (named export column sets)
+CREATE TABLE IF NOT EXISTS "export_profiles" (
+  "id" TEXT PRIMARY KEY,
+  "name" TEXT NOT NULL UNIQUE,
+  "columns" JSONB NOT NULL,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL
+);
+
+-- Create ExportLogStatus enum
+DO $$ BEGIN
+  CREATE TYPE "ExportLogStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Create export_logs table (audit log of exports)
+CREATE TABLE IF NOT EXISTS "export_logs" (
+  "id" TEXT PRIMARY KEY,
+  "created_by" TEXT NOT NULL,
+  "filters" JSONB NOT NULL,
+  "columns" JSONB NOT NULL,
+  "profile_name" TEXT,
+  "mode" TEXT NOT NULL,
+  "format" TEXT NOT NULL,
+  "split" TEXT,
+  "status" "ExportLogStatus" NOT NULL DEFAULT 'RUNNING',
+  "row_count" INTEGER,
+  "checksum" TEXT,
+  "failure_reason" TEXT,
+  "finished_at" TIMESTAMP(3),
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "export_logs_created_at_idx" ON "export_logs"("created_at");
+CREATE INDEX IF NOT EXISTS "export_logs_created_by_idx" ON "export_logs"("created_by");
+
+-- Create ExportDestination enum
+DO $$ BEGIN
+  CREATE TYPE "ExportDestination" AS ENUM ('DIRECTORY', 'EMAIL');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Create export_schedules table (recurring exports)
+CREATE TABLE IF NOT EXISTS "export_schedules" (
+  "id" TEXT PRIMARY KEY,
+  "name" TEXT NOT NULL UNIQUE,
+  "filters" JSONB NOT NULL,
+  "mode" TEXT NOT NULL DEFAULT 'contacts',
+  "format" TEXT NOT NULL DEFAULT 'csv',
+  "split" TEXT,
+  "cron" TEXT NOT NULL,
+  "destination" "ExportDestination" NOT NULL,
+  "directory" TEXT,
+  "recipients" TEXT[],
+  "enabled" BOOLEAN NOT NULL DEFAULT true,
+  "next_run_at" TIMESTAMP(3),
+  "last_run_at" TIMESTAMP(3),
+  "last_status" "ExportLogStatus",
+  "last_error" TEXT,
+  "created_by" TEXT NOT NULL,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL,
+  "profile_id" TEXT NOT NULL,
+  CONSTRAINT "export_schedules_profile_id_fkey" FOREIGN KEY ("profile_id") REFERENCES "export_profiles"("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "export_schedules_profile_id_idx" ON "export_schedules"("profile_id");
+CREATE INDEX IF NOT EXISTS "export_schedules_enabled_next_run_at_idx" ON "export_schedules"("enabled", "next_run_at");
+
+-- Link scheduled runs to their export log entries
+ALTER TABLE "export_logs" ADD COLUMN IF NOT EXISTS "schedule_id" TEXT;
+DO $$ BEGIN
+  ALTER TABLE "export_logs" ADD CONSTRAINT "export_logs_schedule_id_fkey" FOREIGN KEY ("schedule_id") REFERENCES "export_schedules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+CREATE INDEX IF NOT EXISTS "export_logs_schedule_id_idx" ON "export_logs"("schedule_id");
+
+-- Row limits and random sample seed of sampled exports
+ALTER TABLE "export_logs" ADD COLUMN IF NOT EXISTS "sampling" JSONB;
+
+-- Create SuppressionType enum
+DO $$ BEGIN
+  CREATE TYPE "SuppressionType" AS ENUM ('EMAIL', 'DOMAIN');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Create suppressions table (addresses and domains never to contact again)
+CREATE TABLE IF NOT EXISTS "suppressions" (
+  "id" TEXT PRIMARY KEY,
+  "type" "SuppressionType" NOT NULL,
+  "value" TEXT NOT NULL UNIQUE,
+  "reason" TEXT,
+  "source" TEXT,
+  "created_by" TEXT NOT NULL,
+  "suppressed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "suppressions_type_idx" ON "suppressions"("type");
+CREATE INDEX IF NOT EXISTS "suppressions_suppressed_at_idx" ON "suppressions"("suppressed_at");
+
+-- Suppressed contacts are excluded from exports; suppressed import rows are counted
+ALTER TABLE "email_contacts" ADD COLUMN IF NOT EXISTS "suppressed" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "import_jobs" ADD COLUMN IF NOT EXISTS "suppressed" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "import_batches" ADD COLUMN IF NOT EXISTS "suppressed" INTEGER NOT NULL DEFAULT 0;
+
+-- Create ContactStatus enum
+DO $$ BEGIN
+  CREATE TYPE "ContactStatus" AS ENUM ('ACTIVE', 'BOUNCED', 'UNSUBSCRIBED', 'COMPLAINED');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Deliverability status of each contact
+ALTER TABLE "email_contacts" ADD COLUMN IF NOT EXISTS "status" "ContactStatus" NOT NULL DEFAULT 'ACTIVE';
+ALTER TABLE "email_contacts" ADD COLUMN IF NOT EXISTS "status_changed_at" TIMESTAMP(3);
+CREATE INDEX IF NOT EXISTS "email_contacts_status_idx" ON "email_contacts"("status");
+
+-- Create contact_status_changes table (status history with reasons)
+CREATE TABLE IF NOT EXISTS "contact_status_changes" (
+  "id" TEXT PRIMARY KEY,
+  "status" "ContactStatus" NOT NULL,
+  "reason" TEXT,
+  "changed_by" TEXT NOT NULL,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "contact_id" TEXT NOT NULL,
+  CONSTRAINT "contact_status_changes_contact_id_fkey" FOREIGN KEY ("contact_id") REFERENCES "email_contacts"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "contact_status_changes_contact_id_created_at_idx" ON "contact_status_changes"("contact_id", "created_at");
+
+-- Engagement counters imported from ESP campaign results
+ALTER TABLE "email_contacts" ADD COLUMN IF NOT EXISTS "opens" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "email_contacts" ADD COLUMN IF NOT EXISTS "clicks" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "email_contacts" ADD COLUMN IF NOT EXISTS "last_engaged_at" TIMESTAMP(3);
+
 -- Note: Brands should be created through the application UI, not in SQL
 -- This allows for dynamic brand management
 
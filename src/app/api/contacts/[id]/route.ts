@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
+import { findSuppression } from '@/lib/suppressions';
+import { validateContact } from '@/lib/contactValidation';
 
 /**
  * GET /api/contacts/[id]
@@ -52,7 +54,14 @@ export async function GET(
 /**
  * PUT /api/contacts/[id]
  * 
- * Updates an existing contact.
+ * Updates an existing contact. The suppressed flag follows the new email
+ * address (see /api/suppressions).
+ * 
+ * Body: name, email, journalId (required), phone, articleTitle, year (left
+ * unchanged when omitted)
+ * 
+ * Invalid fields return 400 and an address already in the journal returns
+ * 409, both with `fields`: an error message per field.
  */
 export async function PUT(
   request: NextRequest,
@@ -61,24 +70,16 @@ export async function PUT(
   try {
     const { id } = await params;
     const body = await request.json();
-    const { name, email, phone, articleTitle, journalId } = body;
-
-    // Validate required fields
-    if (!name || !email || !journalId) {
-      return NextResponse.json(
-        { error: 'Name, email, and journalId are required' },
-        { status: 400 },
-      );
-    }
 
-    // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) {
+    // Validate the fields (errors per field, for the contact form)
+    const validation = validateContact(body);
+    if ('errors' in validation) {
       return NextResponse.json(
-        { error: 'Invalid email format' },
+        { error: Object.values(validation.errors).join('. '), fields: validation.errors },
         { status: 400 },
       );
     }
+    const { contact: data } = validation;
 
     // Check if contact exists
     const existingContact = await prisma.emailContact.findUnique({
@@ -94,12 +95,12 @@ export async function PUT(
 
     // Check if journal exists
     const journal = await prisma.journal.findUnique({
-      where: { id: journalId },
+      where: { id: data.journalId },
     });
 
     if (!journal) {
       return NextResponse.json(
-        { error: 'Journal not found' },
+        { error: 'Journal not found', fields: { journalId: 'Journal not found' } },
         { status: 404 },
       );
     }
@@ -107,11 +108,8 @@ export async function PUT(
     const contact = await prisma.emailContact.update({
       where: { id },
       data: {
-        name,
-        email: email.toLowerCase(),
-        phone: phone || null,
-        articleTitle: articleTitle || null,
-        journalId,
+        ...data,
+        suppressed: (await findSuppression(data.email)) !== null,
       },
       include: {
         journal: {
@@ -137,7 +135,10 @@ export async function PUT(
     // Handle unique constraint violation
     if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
       return NextResponse.json(
-        { error: 'This email already exists in the database' },
+        {
+          error: 'This email already exists in the selected journal',
+          fields: { email: 'This email already exists in the selected journal' },
+        },
         { status: 409 },
       );
     }
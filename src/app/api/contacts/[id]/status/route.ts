@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { isContactStatus } from '@/lib/contactStatus';
+import { changeContactStatus } from '@/lib/contactStatusChanges';
+import { getRequestUser } from '@/lib/requestUser';
+
+/**
+ * GET /api/contacts/[id]/status
+ * 
+ * Returns the current status of a contact and its status history, newest
+ * change first.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+
+    const contact = await prisma.emailContact.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        status: true,
+        statusChangedAt: true,
+        statusChanges: {
+          orderBy: { createdAt: 'desc' },
+        },
+      },
+    });
+
+    if (!contact) {
+      return NextResponse.json(
+        { error: 'Contact not found' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(contact);
+  } catch (error) {
+    console.error('Get contact status error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch contact status' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PUT /api/contacts/[id]/status
+ * 
+ * Changes the status of a contact and records the change in its history.
+ * Setting the status the contact already has changes nothing.
+ * 
+ * Body:
+ * - status: ACTIVE, BOUNCED, UNSUBSCRIBED or COMPLAINED
+ * - reason: Why the status changed (optional, e.g. the bounce message)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { status, reason } = body;
+
+    if (!isContactStatus(status)) {
+      return NextResponse.json(
+        { error: 'Status must be ACTIVE, BOUNCED, UNSUBSCRIBED or COMPLAINED' },
+        { status: 400 },
+      );
+    }
+
+    const existingContact = await prisma.emailContact.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!existingContact) {
+      return NextResponse.json(
+        { error: 'Contact not found' },
+        { status: 404 },
+      );
+    }
+
+    const changed = await changeContactStatus({ id }, status, {
+      reason: typeof reason === 'string' ? reason : null,
+      changedBy: getRequestUser(request),
+    });
+
+    const contact = await prisma.emailContact.findUnique({
+      where: { id },
+      select: { id: true, status: true, statusChangedAt: true },
+    });
+
+    return NextResponse.json({ ...contact, changed: changed > 0 });
+  } catch (error) {
+    console.error('Update contact status error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update contact status' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { buildContactWhere, parseContactFilters } from '@/lib/contactFilters';
+import { getBulkSelectionError, MAX_BULK_IDS, parseBulkActions, runBulkActions } from '@/lib/contactBulk';
+import { getRequestUser } from '@/lib/requestUser';
+
+/**
+ * POST /api/contacts/bulk
+ * 
+ * Applies actions to many contacts at once: the given contacts, or every
+ * contact matching a filter. The actions run in order in one transaction,
+ * so either all of them apply or none.
+ * 
+ * Body:
+ * - ids: Contact IDs, or
+ * - filters: Contact filter query parameters, as used by GET /api/contacts
+ *   (an empty object selects every contact)
+ * - actions: List of actions:
+ *   - { "type": "delete" }
+ *   - { "type": "move", "journalId", "onConflict" }: Move to another
+ *     journal. A contact whose address is already in that journal is left
+ *     where it is ("skip", the default) or deleted ("delete").
+ *   - { "type": "status", "status", "reason" }: Change the status (with a
+ *     history entry per changed contact)
+ * 
+ * Returns the number of selected contacts and the result of each action,
+ * in order: { type: "delete", deleted }, { type: "move", moved, unchanged,
+ * conflicts, deleted, conflictEmails } or { type: "status", changed }.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 },
+      );
+    }
+    const { ids, filters } = body;
+
+    const actions = parseBulkActions(body.actions);
+    if ('error' in actions) {
+      return NextResponse.json(
+        { error: actions.error },
+        { status: 400 },
+      );
+    }
+
+    let where: Prisma.EmailContactWhereInput;
+    if (Array.isArray(ids)) {
+      if (ids.length === 0 || !ids.every((id) => typeof id === 'string')) {
+        return NextResponse.json(
+          { error: 'ids must be a non-empty list of contact IDs' },
+          { status: 400 },
+        );
+      }
+      if (ids.length > MAX_BULK_IDS) {
+        return NextResponse.json(
+          { error: `At most ${MAX_BULK_IDS} contact IDs can be listed - use filters for larger selections` },
+          { status: 400 },
+        );
+      }
+      where = { id: { in: ids } };
+    } else if (filters && typeof filters === 'object') {
+      const contactFilters = parseContactFilters(new URLSearchParams(filters));
+      if ((contactFilters.ids?.length ?? 0) > MAX_BULK_IDS) {
+        return NextResponse.json(
+          { error: `At most ${MAX_BULK_IDS} contact IDs can be listed - use filters for larger selections` },
+          { status: 400 },
+        );
+      }
+      where = buildContactWhere(contactFilters);
+    } else {
+      return NextResponse.json(
+        { error: 'Either ids or filters is required' },
+        { status: 400 },
+      );
+    }
+
+    for (const action of actions) {
+      if (action.type !== 'move') continue;
+      const journal = await prisma.journal.findUnique({ where: { id: action.journalId } });
+      if (!journal) {
+        return NextResponse.json(
+          { error: 'Journal not found' },
+          { status: 404 },
+        );
+      }
+    }
+
+    const selectionError = await getBulkSelectionError(where);
+    if (selectionError) {
+      return NextResponse.json(
+        { error: selectionError },
+        { status: 400 },
+      );
+    }
+
+    const result = await runBulkActions(where, actions, getRequestUser(request));
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Bulk contact action error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update contacts' },
+      { status: 500 },
+    );
+  }
+}
@@ -1,38 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
+import { findSuppression } from '@/lib/suppressions';
+import { buildContactWhere, parseContactFilters } from '@/lib/contactFilters';
+import { validateContact } from '@/lib/contactValidation';
 
 /**
  * GET /api/contacts
  * 
  * Returns a paginated list of email contacts with optional filtering.
+ * 
+ * Query parameters:
+ * - page, limit: Pagination
+ * - ids, search, startDate, endDate, journalId, brandId, yearFrom, yearTo,
+ *   includeDomains, excludeDomains, hasPhone, status, journalStatus, brandStatus:
+ *   Filters (see src/lib/contactFilters.ts)
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1', 10);
     const limit = parseInt(searchParams.get('limit') || '20', 10);
-    const search = searchParams.get('search') || '';
-    const journalId = searchParams.get('journalId') || null;
-    const brandId = searchParams.get('brandId') || searchParams.get('brand') || null;
 
     const skip = (page - 1) * limit;
 
     // Build where clause
-    const where: any = {};
-
-    if (search) {
-      where.OR = [
-        { name: { contains: search, mode: 'insensitive' } },
-        { email: { contains: search, mode: 'insensitive' } },
-        { articleTitle: { contains: search, mode: 'insensitive' } },
-      ];
-    }
-    if (journalId) {
-      where.journalId = journalId;
-    }
-    if (brandId) {
-      where.journal = { brandId };
-    }
+    const where = buildContactWhere(parseContactFilters(searchParams));
 
     // Get contacts with journal and brand info
     const [contacts, total] = await Promise.all([
@@ -81,50 +73,47 @@ export async function GET(request: NextRequest) {
 /**
  * POST /api/contacts
  * 
- * Creates a new email contact.
+ * Creates a new email contact. A contact whose email address or domain is
+ * on the suppression list is saved but flagged as suppressed, so it is
+ * never exported.
+ * 
+ * Body: name, email, journalId (required), phone, articleTitle, year
+ * 
+ * Invalid fields return 400 and an address already in the journal returns
+ * 409, both with `fields`: an error message per field.
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { name, email, phone, articleTitle, journalId } = body;
 
-    // Validate required fields
-    if (!name || !email || !journalId) {
+    // Validate the fields (errors per field, for the contact form)
+    const validation = validateContact(body);
+    if ('errors' in validation) {
       return NextResponse.json(
-        { error: 'Name, email, and journalId are required' },
-        { status: 400 },
-      );
-    }
-
-    // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) {
-      return NextResponse.json(
-        { error: 'Invalid email format' },
+        { error: Object.values(validation.errors).join('. '), fields: validation.errors },
         { status: 400 },
       );
     }
+    const { contact: data } = validation;
 
     // Check if journal exists
     const journal = await prisma.journal.findUnique({
-      where: { id: journalId },
+      where: { id: data.journalId },
     });
 
     if (!journal) {
       return NextResponse.json(
-        { error: 'Journal not found' },
+        { error: 'Journal not found', fields: { journalId: 'Journal not found' } },
         { status: 404 },
       );
     }
 
-    // Create contact (will fail if duplicate email globally)
+    // Create contact (will fail if the email is already in the journal)
     const contact = await prisma.emailContact.create({
       data: {
-        name,
-        email: email.toLowerCase(),
-        phone: phone || null,
-        articleTitle: articleTitle || null,
-        journalId,
+        ...data,
+        year: data.year ?? null,
+        suppressed: (await findSuppression(data.email)) !== null,
       },
       include: {
         journal: {
@@ -150,7 +139,10 @@ export async function POST(request: NextRequest) {
     // Handle unique constraint violation
     if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
       return NextResponse.json(
-        { error: 'This email already exists in the database' },
+        {
+          error: 'This email already exists in the selected journal',
+          fields: { email: 'This email already exists in the selected journal' },
+        },
         { status: 409 },
       );
     }
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildExportWhere, parseContactFilters } from '@/lib/contactFilters';
+import { countExportRows } from '@/lib/exporter';
+import { getExportSamplingError, isExportMode, parseExportSampling } from '@/lib/exportColumns';
+
+/**
+ * GET /api/export/count
+ * 
+ * Returns how many rows an export with the given filters would contain.
+ * Takes the same filter, mode, split and sampling parameters as GET
+ * /api/export (in "people" mode the count is the number of distinct email
+ * addresses; limits cap the count).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const mode = searchParams.get('mode') || 'contacts';
+    const split = searchParams.get('split');
+    const where = buildExportWhere(parseContactFilters(searchParams));
+    const { sampling, errors } = parseExportSampling(searchParams);
+
+    if (!isExportMode(mode)) {
+      return NextResponse.json(
+        { error: 'Mode must be contacts or people' },
+        { status: 400 },
+      );
+    }
+
+    const samplingError = errors.length > 0 ? errors.join('. ') : getExportSamplingError(sampling, { mode, split });
+    if (samplingError) {
+      return NextResponse.json(
+        { error: samplingError },
+        { status: 400 },
+      );
+    }
+
+    const count = await countExportRows(where, mode, sampling);
+
+    return NextResponse.json({ count });
+  } catch (error) {
+    console.error('Count export contacts error:', error);
+    return NextResponse.json(
+      { error: 'Failed to count matching contacts' },
+      { status: 500 },
+    );
+  }
+}
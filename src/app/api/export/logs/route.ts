@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+
+/**
+ * GET /api/export/logs
+ * 
+ * Returns a paginated export log, newest first: who ran each export, when,
+ * its filters, columns, mode, format, row count and file checksum, and the
+ * schedule of scheduled runs.
+ * 
+ * Query parameters:
+ * - page, limit: Pagination
+ * - createdBy: Filter by user
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    const limit = parseInt(searchParams.get('limit') || '20', 10);
+    const createdBy = searchParams.get('createdBy') || null;
+
+    const skip = (page - 1) * limit;
+    const where = createdBy ? { createdBy } : {};
+
+    const [logs, total] = await Promise.all([
+      prisma.exportLog.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          schedule: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+      }),
+      prisma.exportLog.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      logs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Get export logs error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch export log' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getColumnErrors, normalizeColumns, type ExportColumnConfig } from '@/lib/exportColumns';
+
+/**
+ * PUT /api/export/profiles/[id]
+ * 
+ * Updates the name and/or columns of an export profile.
+ * 
+ * Body:
+ * - name: New profile name (optional)
+ * - columns: New ordered array of { column, label? } (optional)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : undefined;
+
+    const profile = await prisma.exportProfile.findUnique({ where: { id } });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Export profile not found' },
+        { status: 404 },
+      );
+    }
+
+    if (name !== undefined) {
+      if (!name) {
+        return NextResponse.json(
+          { error: 'Profile name is required' },
+          { status: 400 },
+        );
+      }
+
+      const conflicting = await prisma.exportProfile.findFirst({
+        where: { id: { not: id }, name: { equals: name, mode: 'insensitive' } },
+      });
+
+      if (conflicting) {
+        return NextResponse.json(
+          { error: 'An export profile with this name already exists' },
+          { status: 409 },
+        );
+      }
+    }
+
+    if (body.columns !== undefined) {
+      const columnErrors = getColumnErrors(body.columns);
+      if (columnErrors.length > 0) {
+        return NextResponse.json(
+          { error: columnErrors.join('. ') },
+          { status: 400 },
+        );
+      }
+    }
+
+    const updated = await prisma.exportProfile.update({
+      where: { id },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(body.columns !== undefined && {
+          columns: normalizeColumns(body.columns as ExportColumnConfig[]),
+        }),
+      },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Update export profile error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update export profile' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/export/profiles/[id]
+ * 
+ * Deletes an export profile. Profiles used by scheduled exports cannot be
+ * deleted.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+
+    const profile = await prisma.exportProfile.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: { schedules: true },
+        },
+      },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Export profile not found' },
+        { status: 404 },
+      );
+    }
+
+    if (profile._count.schedules > 0) {
+      return NextResponse.json(
+        {
+          error: `Cannot delete profile used by ${profile._count.schedules} scheduled exports. Change or delete the schedules first.`,
+        },
+        { status: 409 },
+      );
+    }
+
+    await prisma.exportProfile.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete export profile error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete export profile' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getColumnErrors, normalizeColumns, type ExportColumnConfig } from '@/lib/exportColumns';
+
+/**
+ * GET /api/export/profiles
+ * 
+ * Lists the saved export profiles, sorted by name.
+ */
+export async function GET() {
+  try {
+    const profiles = await prisma.exportProfile.findMany({
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ profiles });
+  } catch (error) {
+    console.error('Get export profiles error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch export profiles' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/export/profiles
+ * 
+ * Saves a named set of export columns.
+ * 
+ * Body:
+ * - name: Profile name (unique, case-insensitive)
+ * - columns: Ordered array of { column, label? } (see /api/export)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Profile name is required' },
+        { status: 400 },
+      );
+    }
+
+    const columnErrors = getColumnErrors(body.columns);
+    if (columnErrors.length > 0) {
+      return NextResponse.json(
+        { error: columnErrors.join('. ') },
+        { status: 400 },
+      );
+    }
+
+    const existing = await prisma.exportProfile.findFirst({
+      where: { name: { equals: name, mode: 'insensitive' } },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'An export profile with this name already exists' },
+        { status: 409 },
+      );
+    }
+
+    const profile = await prisma.exportProfile.create({
+      data: {
+        name,
+        columns: normalizeColumns(body.columns as ExportColumnConfig[]),
+      },
+    });
+
+    return NextResponse.json(profile, { status: 201 });
+  } catch (error) {
+    console.error('Create export profile error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save export profile' },
+      { status: 500 },
+    );
+  }
+}
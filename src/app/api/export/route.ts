@@ -1,111 +1,220 @@
 import { NextRequest, NextResponse } from 'next/server';
-import Papa from 'papaparse';
 import prisma from '@/lib/prisma';
+import { buildExportWhere, parseContactFilters, toContactFilterParams } from '@/lib/contactFilters';
+import {
+  createExportStream,
+  createJournalZipStream,
+  getExportSizeError,
+  isSampled,
+  type ExportOutcome,
+} from '@/lib/exporter';
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_PRESETS,
+  getColumnErrors,
+  getExportContentType,
+  getExportFilename,
+  getExportSamplingError,
+  getJournalArchiveFilename,
+  isExportFormat,
+  isExportMode,
+  isExportPreset,
+  normalizeColumns,
+  parseExportSampling,
+  type ExportColumnConfig,
+} from '@/lib/exportColumns';
+import { finishExportLog, startExportLog } from '@/lib/exportLog';
+import { getRequestUser } from '@/lib/requestUser';
 
 /**
  * GET /api/export
  * 
- * Exports email contacts to a CSV file with optional filtering.
+ * Exports email contacts to a CSV, Excel or JSON Lines file with optional
+ * filtering. CSV and JSON Lines files are streamed in chunks (newest
+ * contacts first), so the download starts right away and large exports use
+ * constant memory. Excel files are built once all rows are read and are
+ * limited to the rows a sheet can hold. With split=journal the export is a
+ * ZIP archive with one file per journal, generated journal by journal.
+ * Every export is recorded in the export log (see /api/export/logs) with
+ * its row count and the SHA-256 checksum of the file. Suppressed contacts
+ * (see /api/suppressions) are never exported.
  * 
- * Query parameters:
+ * Query parameters (the same filters as GET /api/contacts):
+ * - ids: Comma-separated contact IDs (e.g. rows selected on the Contacts page)
+ * - search: Text in name, email or article title
  * - startDate: Filter contacts created after this date
  * - endDate: Filter contacts created before this date
  * - journalId: Filter by specific journal
  * - brandId: Filter by specific brand
+ * - yearFrom, yearTo: Collection year range (inclusive)
+ * - includeDomains, excludeDomains: Comma-separated email domains
+ *   ("example.org" also matches its subdomains, ".edu" matches a suffix)
+ * - hasPhone: "true" or "false"
+ * - status: Comma-separated contact statuses (ACTIVE, BOUNCED, UNSUBSCRIBED,
+ *   COMPLAINED)
+ * - journalStatus, brandStatus: ACTIVE or INACTIVE
+ * - columns: JSON array of { column, label? } in file order (optional)
+ *   Columns: id, name, firstName, lastName, email, phone, articleTitle,
+ *   year, journal, issn, brand, brandCode, tags, createdAt. `label`
+ *   replaces the default header.
+ *   Defaults to name, email, phone, article_title, year.
+ * - profileId: Saved export profile whose columns are used (optional,
+ *   see /api/export/profiles)
+ * - preset: "mailchimp", "sendgrid" or "brevo" for the columns and headers
+ *   of that provider's audience import (optional). Presets export unique
+ *   people as CSV: mode defaults to "people", and another mode or format
+ *   or a split is rejected.
+ * - mode: "contacts" (default, one row per contact) or "people" (one row
+ *   per email address; journals, ISSNs, brands, article titles and IDs
+ *   become "; "-separated lists, name and phone come from the most
+ *   recently added contact that has one, year is the latest year)
+ * - format: "csv" (default), "xlsx" (dates as Excel dates, header row
+ *   frozen) or "ndjson" (one JSON object per line, keyed by the headers)
+ * - split: "journal" for a ZIP archive with one file per journal (named
+ *   "<brand code> - <journal name>.<ext>") and a manifest.csv listing each
+ *   file's journal and row count (one row per contact only)
+ * - limit: Most rows in the export (not with split=journal)
+ * - perJournalLimit: Most contacts per journal (one row per contact only;
+ *   the limit of each file with split=journal)
+ * - seed: Take a random sample instead of the first rows; the same seed
+ *   and filters always give the same rows
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const startDate = searchParams.get('startDate');
-    const endDate = searchParams.get('endDate');
-    const journalId = searchParams.get('journalId');
-    const brandId = searchParams.get('brandId');
+    const columnsJson = searchParams.get('columns');
+    const profileId = searchParams.get('profileId');
+    const preset = searchParams.get('preset');
+    const mode = searchParams.get('mode') || (preset ? 'people' : 'contacts');
+    const format = searchParams.get('format') || 'csv';
+    const split = searchParams.get('split');
+    const filters = parseContactFilters(searchParams);
+    const where = buildExportWhere(filters);
+    const { sampling, errors: samplingErrors } = parseExportSampling(searchParams);
 
-    // Build where clause
-    const where: {
-      createdAt?: { gte?: Date; lte?: Date };
-      journalId?: string;
-      journal?: { brandId: string };
-    } = {};
+    if (!isExportMode(mode)) {
+      return NextResponse.json(
+        { error: 'Mode must be contacts or people' },
+        { status: 400 },
+      );
+    }
 
-    if (startDate || endDate) {
-      where.createdAt = {};
-      if (startDate) {
-        // Start of the day (00:00:00.000)
-        where.createdAt.gte = new Date(startDate);
-      }
-      if (endDate) {
-        // End of the day (23:59:59.999) to include all records created on that day
-        const endOfDay = new Date(endDate);
-        endOfDay.setHours(23, 59, 59, 999);
-        where.createdAt.lte = endOfDay;
-      }
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: 'Format must be csv, xlsx or ndjson' },
+        { status: 400 },
+      );
     }
 
-    if (journalId) {
-      where.journalId = journalId;
+    if (preset && !isExportPreset(preset)) {
+      return NextResponse.json(
+        { error: 'Preset must be mailchimp, sendgrid or brevo' },
+        { status: 400 },
+      );
     }
 
-    if (brandId) {
-      where.journal = { brandId };
+    if (preset && (mode !== 'people' || format !== 'csv' || split)) {
+      return NextResponse.json(
+        { error: 'Presets export unique people as CSV - use mode=people and format=csv without split' },
+        { status: 400 },
+      );
     }
 
-    // Fetch contacts with journal data
-    const contacts = await prisma.emailContact.findMany({
-      where,
-      orderBy: { createdAt: 'desc' },
-      select: {
-        name: true,
-        email: true,
-        phone: true,
-        articleTitle: true,
-        year: true,
-      },
-    });
+    if (split && split !== 'journal') {
+      return NextResponse.json(
+        { error: 'Split must be journal' },
+        { status: 400 },
+      );
+    }
 
-    console.log(`Export: Found ${contacts.length} contacts for export`);
+    if (split && mode === 'people') {
+      return NextResponse.json(
+        { error: 'Per-journal exports have one row per contact - choose the contacts mode' },
+        { status: 400 },
+      );
+    }
 
-    // Check if no contacts found
-    if (contacts.length === 0) {
-      console.log('Export: No contacts found with filters:', { startDate, endDate, journalId, brandId });
-      // Return empty CSV with headers
-      const csv = Papa.unparse([], {
-        header: true,
-        columns: ['name', 'email', 'phone', 'article_title', 'year'],
-      });
-      
-      const filename = `email-contacts-${new Date().toISOString().split('T')[0]}.csv`;
-      return new NextResponse(csv, {
-        status: 200,
-        headers: {
-          'Content-Type': 'text/csv',
-          'Content-Disposition': `attachment; filename="${filename}"`,
-        },
-      });
+    const samplingError = samplingErrors.length > 0
+      ? samplingErrors.join('. ')
+      : getExportSamplingError(sampling, { mode, split });
+    if (samplingError) {
+      return NextResponse.json(
+        { error: samplingError },
+        { status: 400 },
+      );
     }
 
-    // Transform data for CSV
-    const csvData = contacts.map((contact) => ({
-      name: contact.name,
-      email: contact.email,
-      phone: contact.phone || '',
-      article_title: contact.articleTitle || '',
-      year: contact.year || '',
-    }));
+    let columns: ExportColumnConfig[] = DEFAULT_EXPORT_COLUMNS;
+    let profileName: string | null = null;
+    const presetConfig = EXPORT_PRESETS.find((p) => p.preset === preset);
+    if (presetConfig) {
+      columns = presetConfig.columns;
+      profileName = `${presetConfig.label} preset`;
+    } else if (profileId) {
+      const profile = await prisma.exportProfile.findUnique({ where: { id: profileId } });
+      if (!profile) {
+        return NextResponse.json(
+          { error: 'Export profile not found' },
+          { status: 404 },
+        );
+      }
+      columns = profile.columns as ExportColumnConfig[];
+      profileName = profile.name;
+    } else if (columnsJson) {
+      let requested: unknown;
+      try {
+        requested = JSON.parse(columnsJson);
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid export columns' },
+          { status: 400 },
+        );
+      }
+      const columnErrors = getColumnErrors(requested);
+      if (columnErrors.length > 0) {
+        return NextResponse.json(
+          { error: columnErrors.join('. ') },
+          { status: 400 },
+        );
+      }
+      columns = normalizeColumns(requested as ExportColumnConfig[]);
+    }
+
+    const sizeError = await getExportSizeError(where, { mode, format, split, sampling });
+    if (sizeError) {
+      return NextResponse.json(
+        { error: sizeError },
+        { status: 400 },
+      );
+    }
 
-    // Generate CSV
-    const csv = Papa.unparse(csvData, {
-      header: true,
+    const log = await startExportLog(getRequestUser(request), {
+      filters: Object.fromEntries(toContactFilterParams(filters)),
+      columns,
+      profileName,
+      mode,
+      format,
+      split,
+      sampling: isSampled(sampling) ? sampling : null,
     });
+    const options = {
+      columns,
+      mode,
+      format,
+      sampling,
+      onFinish: (outcome: ExportOutcome) => finishExportLog(log.id, outcome),
+    };
 
-    // Create response with CSV file
-    const filename = `email-contacts-${new Date().toISOString().split('T')[0]}.csv`;
+    const stream = split ? createJournalZipStream(where, options) : createExportStream(where, options);
+    const filename = split ? getJournalArchiveFilename() : getExportFilename(format, mode);
+    const contentType = getExportContentType(format, split);
 
-    return new NextResponse(csv, {
+    return new NextResponse(stream, {
       status: 200,
       headers: {
-        'Content-Type': 'text/csv',
+        'Content-Type': contentType,
         'Content-Disposition': `attachment; filename="${filename}"`,
+        'X-Export-Log-Id': log.id,
       },
     });
   } catch (error) {
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getScheduleNextRun, parseScheduleInput } from '@/lib/exportSchedules';
+
+/**
+ * PUT /api/export/schedules/[id]
+ * 
+ * Updates a scheduled export. Takes the same fields as
+ * POST /api/export/schedules; fields that are left out keep their value.
+ * The next run time is recalculated from the (new) schedule.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 },
+      );
+    }
+
+    const schedule = await prisma.exportSchedule.findUnique({ where: { id } });
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: 'Scheduled export not found' },
+        { status: 404 },
+      );
+    }
+
+    const { input, errors } = parseScheduleInput(body, schedule);
+
+    if (!input) {
+      return NextResponse.json(
+        { error: errors.join('. ') },
+        { status: 400 },
+      );
+    }
+
+    if (input.profileId !== schedule.profileId) {
+      const profile = await prisma.exportProfile.findUnique({ where: { id: input.profileId } });
+      if (!profile) {
+        return NextResponse.json(
+          { error: 'Export profile not found' },
+          { status: 404 },
+        );
+      }
+    }
+
+    const conflicting = await prisma.exportSchedule.findFirst({
+      where: { id: { not: id }, name: { equals: input.name, mode: 'insensitive' } },
+    });
+
+    if (conflicting) {
+      return NextResponse.json(
+        { error: 'A scheduled export with this name already exists' },
+        { status: 409 },
+      );
+    }
+
+    const updated = await prisma.exportSchedule.update({
+      where: { id },
+      data: {
+        ...input,
+        nextRunAt: getScheduleNextRun(input.cron, input.enabled),
+      },
+      include: {
+        profile: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Update export schedule error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update scheduled export' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/export/schedules/[id]
+ * 
+ * Deletes a scheduled export. Its past runs stay in the export log.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+
+    const schedule = await prisma.exportSchedule.findUnique({ where: { id } });
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: 'Scheduled export not found' },
+        { status: 404 },
+      );
+    }
+
+    await prisma.exportSchedule.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete export schedule error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete scheduled export' },
+      { status: 500 },
+    );
+  }
+}
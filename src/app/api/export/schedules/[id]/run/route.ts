@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { runExportSchedule } from '@/lib/exportSchedules';
+import { getRequestUser } from '@/lib/requestUser';
+
+/**
+ * POST /api/export/schedules/[id]/run
+ * 
+ * Runs a scheduled export now (whether or not it is enabled) and returns
+ * how the run ended. The next scheduled run is not changed.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+
+    const schedule = await prisma.exportSchedule.findUnique({
+      where: { id },
+      include: { profile: true },
+    });
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: 'Scheduled export not found' },
+        { status: 404 },
+      );
+    }
+
+    const result = await runExportSchedule(schedule, getRequestUser(request));
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Run export schedule error:', error);
+    return NextResponse.json(
+      { error: 'Failed to run scheduled export' },
+      { status: 500 },
+    );
+  }
+}
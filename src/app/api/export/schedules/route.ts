@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getScheduleNextRun, parseScheduleInput } from '@/lib/exportSchedules';
+import { getRequestUser } from '@/lib/requestUser';
+
+/**
+ * GET /api/export/schedules
+ * 
+ * Lists the scheduled exports, sorted by name, with their profile.
+ */
+export async function GET() {
+  try {
+    const schedules = await prisma.exportSchedule.findMany({
+      orderBy: { name: 'asc' },
+      include: {
+        profile: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    });
+
+    return NextResponse.json({ schedules });
+  } catch (error) {
+    console.error('Get export schedules error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch scheduled exports' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/export/schedules
+ * 
+ * Creates a scheduled export.
+ * 
+ * Body:
+ * - name: Schedule name (unique, case-insensitive)
+ * - profileId: Export profile with the columns to export
+ * - filters: Contact filter query parameters (see /api/export)
+ * - mode, format, split: As for /api/export (optional)
+ * - cron: 5-field cron expression, evaluated in UTC (e.g. "0 6 * * 1"
+ *   for Mondays at 06:00)
+ * - destination: DIRECTORY or EMAIL
+ * - directory: Absolute directory path (DIRECTORY)
+ * - recipients: Email addresses (EMAIL)
+ * - enabled: Whether the schedule runs (defaults to true)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 },
+      );
+    }
+    const { input, errors } = parseScheduleInput(body);
+
+    if (!input) {
+      return NextResponse.json(
+        { error: errors.join('. ') },
+        { status: 400 },
+      );
+    }
+
+    const profile = await prisma.exportProfile.findUnique({ where: { id: input.profileId } });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Export profile not found' },
+        { status: 404 },
+      );
+    }
+
+    const existing = await prisma.exportSchedule.findFirst({
+      where: { name: { equals: input.name, mode: 'insensitive' } },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A scheduled export with this name already exists' },
+        { status: 409 },
+      );
+    }
+
+    const schedule = await prisma.exportSchedule.create({
+      data: {
+        ...input,
+        nextRunAt: getScheduleNextRun(input.cron, input.enabled),
+        createdBy: getRequestUser(request),
+      },
+      include: {
+        profile: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    });
+
+    return NextResponse.json(schedule, { status: 201 });
+  } catch (error) {
+    console.error('Create export schedule error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create scheduled export' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { runDueExportSchedules } from '@/lib/exportSchedules';
+
+/**
+ * Check the scheduler's bearer token against EXPORT_SCHEDULER_SECRET
+ * @param request - Incoming request
+ * @param secret - Configured secret
+ * @returns Whether the request carries the secret
+ */
+function isAuthorized(request: NextRequest, secret: string): boolean {
+  const token = Buffer.from(request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '');
+  const expected = Buffer.from(secret);
+  return token.length === expected.length && timingSafeEqual(token, expected);
+}
+
+/**
+ * POST /api/export/schedules/run
+ * 
+ * Runs every enabled scheduled export that is due. Meant to be called every
+ * few minutes by an external scheduler (e.g. system cron), with the header
+ * `Authorization: Bearer <EXPORT_SCHEDULER_SECRET>`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.EXPORT_SCHEDULER_SECRET;
+
+    if (!secret) {
+      return NextResponse.json(
+        { error: 'Scheduled exports are not configured (set EXPORT_SCHEDULER_SECRET)' },
+        { status: 503 },
+      );
+    }
+
+    if (!isAuthorized(request, secret)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 },
+      );
+    }
+
+    const runs = await runDueExportSchedules();
+
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error('Run due export schedules error:', error);
+    return NextResponse.json(
+      { error: 'Failed to run scheduled exports' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Papa from 'papaparse';
+import prisma from '@/lib/prisma';
+import { attachmentDisposition } from '@/lib/utils';
+
+/**
+ * Rejected rows read per database query
+ */
+const CHUNK_SIZE = 1000;
+
+/**
+ * GET /api/import/batches/[id]/errors
+ * 
+ * Downloads every row rejected by an import as a CSV file.
+ * The columns are the original file headers (so fixed rows can be
+ * re-uploaded as-is) followed by "Import Line" and "Import Error".
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+
+    const batch = await prisma.importBatch.findUnique({
+      where: { id },
+      select: { id: true, fileName: true, headers: true },
+    });
+
+    if (!batch) {
+      return NextResponse.json(
+        { error: 'Import batch not found' },
+        { status: 404 },
+      );
+    }
+
+    const fields = [...batch.headers, 'Import Line', 'Import Error'];
+    const encoder = new TextEncoder();
+    let cursor: string | undefined;
+    let isFirstChunk = true;
+
+    // Stream the rows in chunks ordered by line number
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const rowErrors = await prisma.importRowError.findMany({
+          where: { batchId: id },
+          orderBy: [{ line: 'asc' }, { id: 'asc' }],
+          take: CHUNK_SIZE,
+          ...(cursor && { skip: 1, cursor: { id: cursor } }),
+        });
+
+        if (rowErrors.length === 0 && !isFirstChunk) {
+          controller.close();
+          return;
+        }
+
+        const csv = Papa.unparse(
+          {
+            fields,
+            data: rowErrors.map((rowError) => {
+              const values = rowError.values as Record<string, string>;
+              return [
+                ...batch.headers.map((header) => values[header] ?? ''),
+                rowError.line,
+                rowError.reason,
+              ];
+            }),
+          },
+          { header: isFirstChunk },
+        );
+
+        if (csv) {
+          controller.enqueue(encoder.encode(`${csv}\r\n`));
+        }
+        isFirstChunk = false;
+        cursor = rowErrors[rowErrors.length - 1]?.id;
+
+        if (rowErrors.length < CHUNK_SIZE) {
+          controller.close();
+        }
+      },
+    });
+
+    const baseName = batch.fileName.replace(/\.[^.]+$/, '');
+    const filename = `${baseName}-errors.csv`;
+
+    return new NextResponse(stream, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': attachmentDisposition(filename),
+      },
+    });
+  } catch (error) {
+    console.error('Export import errors error:', error);
+    return NextResponse.json(
+      { error: 'Failed to export import errors' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+
+/**
+ * POST /api/import/batches/[id]/rollback
+ * 
+ * Rolls back an import by deleting exactly the contacts it inserted.
+ * Contacts that already existed (duplicates) are untouched, and changes
+ * made to existing contacts in FILL or OVERWRITE mode are not reverted.
+ * Journals created by a multi-journal import are kept.
+ * The batch itself is kept in the history and marked as rolled back.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+
+    const batch = await prisma.importBatch.findUnique({
+      where: { id },
+      include: {
+        importJob: {
+          select: { status: true },
+        },
+      },
+    });
+
+    if (!batch) {
+      return NextResponse.json(
+        { error: 'Import batch not found' },
+        { status: 404 },
+      );
+    }
+
+    if (batch.rolledBackAt) {
+      return NextResponse.json(
+        { error: 'This import has already been rolled back' },
+        { status: 409 },
+      );
+    }
+
+    // Contacts may still be inserted until the import has finished
+    if (!batch.finishedAt) {
+      return NextResponse.json(
+        {
+          error: batch.importJob
+            ? 'This import is still running. Cancel it and wait for it to stop before rolling back.'
+            : 'This import is still running',
+        },
+        { status: 409 },
+      );
+    }
+
+    const [deleted, updatedBatch] = await prisma.$transaction([
+      prisma.emailContact.deleteMany({
+        where: { importBatchId: id },
+      }),
+      prisma.importBatch.update({
+        where: { id },
+        data: { rolledBackAt: new Date() },
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      deleted: deleted.count,
+      batch: updatedBatch,
+    });
+  } catch (error) {
+    console.error('Rollback import batch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to roll back import' },
+      { status: 500 },
+    );
+  }
+}
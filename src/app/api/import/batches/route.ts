@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+
+/**
+ * GET /api/import/batches
+ * 
+ * Returns a paginated import history, newest first.
+ * 
+ * Query parameters:
+ * - page, limit: Pagination
+ * - journalId: Filter by journal
+ * - brandId: Filter by brand
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    const limit = parseInt(searchParams.get('limit') || '20', 10);
+    const journalId = searchParams.get('journalId') || null;
+    const brandId = searchParams.get('brandId') || null;
+
+    const skip = (page - 1) * limit;
+
+    // Build where clause
+    const where: {
+      journalId?: string;
+      brandId?: string;
+    } = {};
+
+    if (journalId) {
+      where.journalId = journalId;
+    }
+    if (brandId) {
+      where.brandId = brandId;
+    }
+
+    const [batches, total] = await Promise.all([
+      prisma.importBatch.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          brand: {
+            select: {
+              id: true,
+              name: true,
+              code: true,
+            },
+          },
+          journal: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+          importJob: {
+            select: {
+              id: true,
+              status: true,
+            },
+          },
+        },
+      }),
+      prisma.importBatch.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      batches,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Get import batches error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch import history' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { decodeText, detectCsvFormat, FORMAT_SAMPLE_BYTES } from '@/lib/csvFormat';
+import { parseCsv } from '@/lib/importer';
+import { getRequestUser } from '@/lib/requestUser';
+import { applyCampaignResults, parseCampaignEvent, readCampaignResultsFile } from '@/lib/campaignResults';
+
+/**
+ * POST /api/import/campaign
+ * 
+ * Imports the results of an ESP campaign: bounces, unsubscribes and spam
+ * complaints change the status of the matching contacts (so later exports
+ * leave them out), and opens and clicks are added to their engagement
+ * counters. Contacts are matched by email address.
+ * 
+ * Required form data:
+ * - file: CSV file with an "email" column and either an "event" column
+ *   (bounce, unsubscribe, spamreport, open, click...), "opens"/"clicks"
+ *   count columns, or both. Optional column: reason (e.g. bounce message).
+ * 
+ * Optional form data:
+ * - brandId: Only match contacts in the journals of this brand
+ * - campaign: Campaign name, recorded with each status change
+ * - event: Event of every row, for files without an event column
+ *   (e.g. a list of bounced addresses)
+ * 
+ * Returns the number of rows, ignored and invalid rows, the first row
+ * errors, matched and unmatched addresses (listing the first unmatched
+ * ones), and the status changes and engagement added.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const brandId = (formData.get('brandId') as string | null) || null;
+    const campaign = (formData.get('campaign') as string | null)?.trim() || null;
+    const eventValue = (formData.get('event') as string | null) || null;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 },
+      );
+    }
+
+    if (!file.name.endsWith('.csv')) {
+      return NextResponse.json(
+        { error: 'Only CSV files are allowed' },
+        { status: 400 },
+      );
+    }
+
+    // Validate file size (max 10MB)
+    const maxSize = 10 * 1024 * 1024;
+    if (file.size > maxSize) {
+      return NextResponse.json(
+        { error: 'File size must be less than 10MB' },
+        { status: 400 },
+      );
+    }
+
+    const event = parseCampaignEvent(eventValue);
+    if (eventValue && !event) {
+      return NextResponse.json(
+        { error: `Unknown event: ${eventValue}` },
+        { status: 400 },
+      );
+    }
+
+    if (brandId) {
+      const brand = await prisma.brand.findUnique({ where: { id: brandId } });
+      if (!brand) {
+        return NextResponse.json(
+          { error: 'Brand not found' },
+          { status: 404 },
+        );
+      }
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const format = detectCsvFormat(bytes.subarray(0, FORMAT_SAMPLE_BYTES));
+    const parsed = parseCsv(decodeText(bytes, format.encoding), format.delimiter);
+
+    if (parsed.errors.length > 0) {
+      return NextResponse.json(
+        { error: 'CSV parsing errors', details: parsed.errors.slice(0, 5) },
+        { status: 400 },
+      );
+    }
+
+    const results = readCampaignResultsFile(parsed, event);
+    if ('error' in results) {
+      return NextResponse.json(
+        { error: results.error },
+        { status: 400 },
+      );
+    }
+
+    const summary = await applyCampaignResults(results.addresses, {
+      brandId,
+      campaign: campaign ?? file.name,
+      changedBy: getRequestUser(request),
+    });
+
+    return NextResponse.json({
+      total: parsed.rows.length,
+      ignored: results.ignored,
+      invalid: results.invalid,
+      errors: results.errors,
+      ...summary,
+    });
+  } catch (error) {
+    console.error('Campaign results import error:', error);
+    return NextResponse.json(
+      { error: 'Failed to import campaign results' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { failStaleImportJobs, removeUpload } from '@/lib/importJobs';
+
+/**
+ * Fields of an import job returned to the client
+ */
+const jobSelect = {
+  id: true,
+  batchId: true,
+  fileName: true,
+  fileSize: true,
+  status: true,
+  bytesProcessed: true,
+  rowsProcessed: true,
+  imported: true,
+  updated: true,
+  duplicates: true,
+  suppressed: true,
+  errors: true,
+  errorDetails: true,
+  failureReason: true,
+  startedAt: true,
+  finishedAt: true,
+  createdAt: true,
+  journal: {
+    select: {
+      id: true,
+      name: true,
+      brand: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  },
+  batch: {
+    select: {
+      journalCounts: true,
+    },
+  },
+} as const;
+
+/**
+ * GET /api/import/jobs/[id]
+ * 
+ * Returns the status and progress of a background import job.
+ * `progress` is the percentage of the file read so far (0-100). A running
+ * job that has stopped making progress is marked failed first.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+
+    await failStaleImportJobs();
+
+    const job = await prisma.importJob.findUnique({
+      where: { id },
+      select: jobSelect,
+    });
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Import job not found' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      ...job,
+      progress: job.fileSize > 0
+        ? Math.min(100, Math.round((job.bytesProcessed / job.fileSize) * 100))
+        : 100,
+    });
+  } catch (error) {
+    console.error('Get import job error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch import job' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PATCH /api/import/jobs/[id]
+ * 
+ * Cancels a pending or running import job.
+ * Body: { status: 'CANCELLED' }
+ * Rows already written by a running job are kept; the job stops after its current batch.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    if (body.status !== 'CANCELLED') {
+      return NextResponse.json(
+        { error: 'Only cancelling a job is supported' },
+        { status: 400 },
+      );
+    }
+
+    const existingJob = await prisma.importJob.findUnique({
+      where: { id },
+    });
+
+    if (!existingJob) {
+      return NextResponse.json(
+        { error: 'Import job not found' },
+        { status: 404 },
+      );
+    }
+
+    // A pending job is never started, so its upload is removed here
+    const cancelledPending = await prisma.importJob.updateMany({
+      where: { id, status: 'PENDING' },
+      data: { status: 'CANCELLED', finishedAt: new Date() },
+    });
+    if (cancelledPending.count > 0) {
+      await prisma.importBatch.update({
+        where: { id: existingJob.batchId },
+        data: { finishedAt: new Date() },
+      });
+      await removeUpload(existingJob.filePath);
+    }
+
+    const cancelled = cancelledPending.count > 0
+      ? cancelledPending
+      : await prisma.importJob.updateMany({
+        where: { id, status: 'RUNNING' },
+        data: { status: 'CANCELLED' },
+      });
+
+    if (cancelled.count === 0) {
+      return NextResponse.json(
+        { error: `Import job has already ${existingJob.status.toLowerCase()}` },
+        { status: 409 },
+      );
+    }
+
+    const job = await prisma.importJob.findUnique({
+      where: { id },
+      select: jobSelect,
+    });
+
+    return NextResponse.json(job);
+  } catch (error) {
+    console.error('Cancel import job error:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel import job' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,266 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getRequestUser } from '@/lib/requestUser';
+import {
+  getMappingErrors,
+  isImportMode,
+  parseColumnMapping,
+  suggestMapping,
+  type ColumnMapping,
+} from '@/lib/importMapping';
+import {
+  readUploadHeaders,
+  readUploadSample,
+  readUploadWorkbook,
+  removeUpload,
+  saveUpload,
+  UploadTooLargeError,
+} from '@/lib/importJobs';
+import { detectCsvFormat, isCsvDelimiter, isCsvEncoding, type CsvFormat } from '@/lib/csvFormat';
+import { isWorkbookFile } from '@/lib/workbook';
+
+/**
+ * Max file size for background imports (500MB)
+ */
+const MAX_JOB_FILE_SIZE = 500 * 1024 * 1024;
+
+/**
+ * Max file size for Excel workbooks (50MB), which are parsed in memory
+ */
+const MAX_WORKBOOK_FILE_SIZE = 50 * 1024 * 1024;
+
+/**
+ * POST /api/import/jobs
+ * 
+ * Starts a background import of a CSV or Excel file. The request body is the
+ * raw file, which is streamed to the upload directory (IMPORT_UPLOAD_DIR) and
+ * imported by the import worker (`pnpm import:worker`); poll
+ * GET /api/import/jobs/[id] for progress. The import is recorded as an
+ * ImportBatch so it can be rolled back later.
+ * 
+ * Query parameters:
+ * - fileName: Name of the uploaded CSV or Excel file
+ * - journalId: Target journal ID, or brandId (+ createJournals) for a
+ *   multi-journal import (see POST /api/import)
+ * - sheet, headerRow: Excel sheet and header row (optional, see POST /api/import)
+ * - encoding, delimiter: CSV format (optional, detected when omitted, see POST /api/import)
+ * - mapping: JSON object of file header -> contact field (optional, see POST /api/import)
+ * - mode: SKIP, FILL or OVERWRITE (optional, see POST /api/import)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const fileName = searchParams.get('fileName');
+    const journalId = searchParams.get('journalId');
+    const brandId = searchParams.get('brandId');
+    const createJournals = searchParams.get('createJournals') === 'true';
+    const mappingJson = searchParams.get('mapping');
+    const mode = searchParams.get('mode') || 'SKIP';
+    const sheet = searchParams.get('sheet');
+    const headerRow = Number(searchParams.get('headerRow') || 1);
+    const encoding = searchParams.get('encoding');
+    const delimiter = searchParams.get('delimiter');
+    const contentLength = Number(request.headers.get('content-length'));
+
+    if (!request.body || !fileName) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 },
+      );
+    }
+
+    if (!journalId && !brandId) {
+      return NextResponse.json(
+        { error: 'Journal ID is required. Please select a journal (or a brand for a multi-journal import) before uploading.' },
+        { status: 400 },
+      );
+    }
+
+    const isWorkbook = isWorkbookFile(fileName);
+    if (!fileName.endsWith('.csv') && !isWorkbook) {
+      return NextResponse.json(
+        { error: 'Only CSV and Excel (.xlsx) files are allowed' },
+        { status: 400 },
+      );
+    }
+
+    // Reject files known to be too large before reading them
+    if (contentLength > MAX_JOB_FILE_SIZE) {
+      return NextResponse.json(
+        { error: 'File size must be less than 500MB' },
+        { status: 400 },
+      );
+    }
+
+    if (isWorkbook && contentLength > MAX_WORKBOOK_FILE_SIZE) {
+      return NextResponse.json(
+        { error: 'Excel files must be less than 50MB. Save larger workbooks as CSV.' },
+        { status: 400 },
+      );
+    }
+
+    if (!Number.isInteger(headerRow) || headerRow < 1) {
+      return NextResponse.json(
+        { error: 'Header row must be a positive whole number' },
+        { status: 400 },
+      );
+    }
+
+    if (!isImportMode(mode)) {
+      return NextResponse.json(
+        { error: 'Import mode must be SKIP, FILL or OVERWRITE' },
+        { status: 400 },
+      );
+    }
+
+    if (encoding !== null && !isCsvEncoding(encoding)) {
+      return NextResponse.json(
+        { error: 'Encoding must be utf-8, utf-16le, utf-16be or windows-1252' },
+        { status: 400 },
+      );
+    }
+
+    if (delimiter !== null && !isCsvDelimiter(delimiter)) {
+      return NextResponse.json(
+        { error: 'Delimiter must be a comma, semicolon, tab or pipe' },
+        { status: 400 },
+      );
+    }
+
+    let requestedMapping: ColumnMapping | null = null;
+    if (mappingJson) {
+      try {
+        requestedMapping = parseColumnMapping(JSON.parse(mappingJson));
+      } catch {
+        requestedMapping = null;
+      }
+      if (!requestedMapping) {
+        return NextResponse.json(
+          { error: 'Invalid column mapping' },
+          { status: 400 },
+        );
+      }
+    }
+
+    const journal = journalId
+      ? await prisma.journal.findUnique({
+        where: { id: journalId },
+      })
+      : null;
+
+    if (journalId && !journal) {
+      return NextResponse.json(
+        { error: 'Journal not found' },
+        { status: 404 },
+      );
+    }
+
+    const brand = await prisma.brand.findUnique({
+      where: { id: journal ? journal.brandId : brandId as string },
+    });
+
+    if (!brand) {
+      return NextResponse.json(
+        { error: 'Brand not found' },
+        { status: 404 },
+      );
+    }
+
+    // Store the file and check the mapping against its header row
+    let upload: { filePath: string; fileSize: number };
+    try {
+      upload = await saveUpload(
+        request.body,
+        fileName,
+        isWorkbook ? MAX_WORKBOOK_FILE_SIZE : MAX_JOB_FILE_SIZE,
+      );
+    } catch (error) {
+      if (!(error instanceof UploadTooLargeError)) throw error;
+      return NextResponse.json(
+        { error: isWorkbook ? 'Excel files must be less than 50MB. Save larger workbooks as CSV.' : error.message },
+        { status: 400 },
+      );
+    }
+    const { filePath, fileSize } = upload;
+    // Nothing points at the upload until the job is created
+    try {
+      let headers: string[];
+      let format: CsvFormat | null = null;
+      if (isWorkbook) {
+        const parsed = await readUploadWorkbook(filePath, { sheet, headerRow });
+        if (parsed.errors.length > 0) {
+          await removeUpload(filePath);
+          return NextResponse.json(
+            { error: 'Excel parsing errors', details: parsed.errors },
+            { status: 400 },
+          );
+        }
+        headers = parsed.headers;
+      } else {
+        format = detectCsvFormat(await readUploadSample(filePath), {
+          encoding: encoding ?? undefined,
+          delimiter: delimiter ?? undefined,
+        });
+        headers = await readUploadHeaders(filePath, format);
+      }
+      const mapping = requestedMapping || suggestMapping(headers);
+      const mappingErrors = headers.length > 0
+        ? getMappingErrors(mapping, headers, journal ? [] : ['journal'])
+        : [isWorkbook ? 'Header row is empty' : 'CSV file is empty'];
+
+      if (mappingErrors.length > 0) {
+        await removeUpload(filePath);
+        return NextResponse.json(
+          { error: mappingErrors.join('. ') },
+          { status: 400 },
+        );
+      }
+
+      const job = await prisma.importJob.create({
+        data: {
+          fileName,
+          filePath,
+          fileSize,
+          mapping,
+          sheetName: sheet,
+          headerRow,
+          encoding: format?.encoding,
+          delimiter: format?.delimiter,
+          ...(journal && { journal: { connect: { id: journal.id } } }),
+          batch: {
+            create: {
+              fileName,
+              headers,
+              createdBy: getRequestUser(request),
+              mode,
+              createJournals,
+              brandId: brand.id,
+              journalId: journal?.id,
+            },
+          },
+        },
+      });
+
+      return NextResponse.json(
+        {
+          id: job.id,
+          batchId: job.batchId,
+          status: job.status,
+          fileName: job.fileName,
+          fileSize: job.fileSize,
+          format,
+        },
+        { status: 202 },
+      );
+    } catch (error) {
+      await removeUpload(filePath);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Create import job error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start import job' },
+      { status: 500 },
+    );
+  }
+}
@@ -1,40 +1,96 @@
 import { NextRequest, NextResponse } from 'next/server';
-import Papa from 'papaparse';
 import prisma from '@/lib/prisma';
-import { isValidEmail } from '@/lib/utils';
+import { getRequestUser } from '@/lib/requestUser';
+import {
+  getMappingErrors,
+  isImportMode,
+  parseColumnMapping,
+  suggestMapping,
+  type ColumnMapping,
+} from '@/lib/importMapping';
+import {
+  importContacts,
+  type ImportCounts,
+  parseCsv,
+  parseWorkbook,
+  previewRows,
+  type RowStatus,
+} from '@/lib/importer';
+import { createJournalResolver, singleJournalResolver } from '@/lib/importJournals';
+import {
+  FORMAT_SAMPLE_BYTES,
+  decodeText,
+  detectCsvFormat,
+  isCsvDelimiter,
+  isCsvEncoding,
+  type CsvFormat,
+} from '@/lib/csvFormat';
+import { isWorkbookFile } from '@/lib/workbook';
 
 /**
  * POST /api/import
  * 
- * Imports email contacts from a CSV file.
+ * Imports email contacts from a CSV or Excel (.xlsx) file.
  * 
  * Required form data:
- * - file: CSV file
- * - journalId: Target journal ID (required - no auto-detection)
+ * - file: CSV or Excel file
+ * - journalId: Target journal ID, or
+ * - brandId: Brand of a multi-journal import. Each row is routed to the
+ *   brand's journal named in the column mapped to "journal" (journal name
+ *   or ISSN, matched case-insensitively).
+ * - createJournals: "true" to create unknown journals in a multi-journal
+ *   import instead of rejecting their rows (optional)
+ * - sheet: Excel sheet to import (optional, defaults to the first sheet)
+ * - headerRow: Excel row number of the header row (optional, defaults to 1)
+ *   Rows above it are ignored.
+ * - encoding: CSV text encoding (optional): utf-8, utf-16le, utf-16be or windows-1252
+ * - delimiter: CSV field delimiter (optional): comma, semicolon, tab or pipe
+ *   Both are detected from the start of the file when omitted; the format
+ *   used is returned as `format`.
+ * - mapping: JSON object of file header -> contact field (optional)
+ *   Fields: name, email, phone, articleTitle, year, journal. Unmapped headers are ignored.
+ *   When omitted, the mapping is suggested from the headers
+ *   (e.g. "Author Name" -> name, "E-mail" -> email, "Paper Title" -> articleTitle).
+ * - mode: How rows whose email already exists in the journal are handled (optional)
+ *   SKIP (default) leaves the existing contact untouched, FILL only sets the
+ *   fields it is missing, OVERWRITE replaces fields with the file's non-empty
+ *   values. The summary reports inserted (imported), updated and skipped
+ *   (duplicates) rows separately.
+ * - dryRun: "true" to validate without writing (optional)
+ *   Returns a per-row verdict (valid, invalid, suppressed, duplicate within
+ *   the file, already existing in the journal, or an existing contact that
+ *   would be updated) with counts instead of importing.
  * 
- * Expected CSV headers:
+ * Mapped fields:
  * - name (required)
  * - email (required)
  * - phone (optional)
- * - article_title (optional) - title of the article/publication
+ * - articleTitle (optional) - title of the article/publication
  * - year (optional) - year of data collection
  * 
+ * Rows whose email address or domain is on the suppression list (see
+ * /api/suppressions) are never imported; the summary counts them as
+ * `suppressed`, separately from errors.
+ * 
+ * Every real import is recorded as an ImportBatch (see /api/import/batches).
+ * 
  * NOTE: Email must be unique per journal (same email can exist in different journals)
  */
 
-interface CSVRow {
-  name: string;
-  email: string;
-  phone?: string;
-  article_title?: string;
-  year?: string;
-}
-
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
     const file = formData.get('file') as File | null;
     const journalId = formData.get('journalId') as string | null;
+    const brandId = formData.get('brandId') as string | null;
+    const createJournals = formData.get('createJournals') === 'true';
+    const mappingJson = formData.get('mapping') as string | null;
+    const mode = formData.get('mode') || 'SKIP';
+    const dryRun = formData.get('dryRun') === 'true';
+    const sheet = formData.get('sheet') as string | null;
+    const headerRow = Number(formData.get('headerRow') || 1);
+    const encoding = formData.get('encoding') || null;
+    const delimiter = formData.get('delimiter') || null;
 
     if (!file) {
       return NextResponse.json(
@@ -43,17 +99,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!journalId) {
+    if (!journalId && !brandId) {
       return NextResponse.json(
-        { error: 'Journal ID is required. Please select a journal before uploading.' },
+        { error: 'Journal ID is required. Please select a journal (or a brand for a multi-journal import) before uploading.' },
         { status: 400 },
       );
     }
 
     // Validate file type
-    if (!file.name.endsWith('.csv')) {
+    const isWorkbook = isWorkbookFile(file.name);
+    if (!file.name.endsWith('.csv') && !isWorkbook) {
+      return NextResponse.json(
+        { error: 'Only CSV and Excel (.xlsx) files are allowed' },
+        { status: 400 },
+      );
+    }
+
+    if (!Number.isInteger(headerRow) || headerRow < 1) {
       return NextResponse.json(
-        { error: 'Only CSV files are allowed' },
+        { error: 'Header row must be a positive whole number' },
         { status: 400 },
       );
     }
@@ -67,157 +131,211 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Verify journal exists
-    const journal = await prisma.journal.findUnique({
-      where: { id: journalId },
-      include: {
-        brand: true,
-      },
-    });
+    if (!isImportMode(mode)) {
+      return NextResponse.json(
+        { error: 'Import mode must be SKIP, FILL or OVERWRITE' },
+        { status: 400 },
+      );
+    }
 
-    if (!journal) {
+    if (encoding !== null && !isCsvEncoding(encoding)) {
+      return NextResponse.json(
+        { error: 'Encoding must be utf-8, utf-16le, utf-16be or windows-1252' },
+        { status: 400 },
+      );
+    }
+
+    if (delimiter !== null && !isCsvDelimiter(delimiter)) {
+      return NextResponse.json(
+        { error: 'Delimiter must be a comma, semicolon, tab or pipe' },
+        { status: 400 },
+      );
+    }
+
+    // Verify the target journal (or the brand of a multi-journal import) exists
+    const journal = journalId
+      ? await prisma.journal.findUnique({
+        where: { id: journalId },
+        include: {
+          brand: true,
+        },
+      })
+      : null;
+
+    if (journalId && !journal) {
       return NextResponse.json(
         { error: 'Journal not found' },
         { status: 404 },
       );
     }
 
-    // Read file content
-    const text = await file.text();
+    const brand = journal
+      ? journal.brand
+      : await prisma.brand.findUnique({ where: { id: brandId as string } });
 
-    // Parse CSV
-    const parseResult = Papa.parse<CSVRow>(text, {
-      header: true,
-      skipEmptyLines: true,
-      transformHeader: (header) => header.trim().toLowerCase(),
-    });
+    if (!brand) {
+      return NextResponse.json(
+        { error: 'Brand not found' },
+        { status: 404 },
+      );
+    }
+
+    let requestedMapping: ColumnMapping | null = null;
+    if (mappingJson) {
+      try {
+        requestedMapping = parseColumnMapping(JSON.parse(mappingJson));
+      } catch {
+        requestedMapping = null;
+      }
+      if (!requestedMapping) {
+        return NextResponse.json(
+          { error: 'Invalid column mapping' },
+          { status: 400 },
+        );
+      }
+    }
+
+    // Read and parse the file (Excel rows go through the same validation as CSV rows)
+    let format: CsvFormat | null = null;
+    let parseResult;
+    if (isWorkbook) {
+      parseResult = await parseWorkbook(await file.arrayBuffer(), { sheet, headerRow });
+    } else {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      format = detectCsvFormat(bytes.subarray(0, FORMAT_SAMPLE_BYTES), {
+        encoding: encoding ?? undefined,
+        delimiter: delimiter ?? undefined,
+      });
+      parseResult = parseCsv(decodeText(bytes, format.encoding), format.delimiter);
+    }
 
     if (parseResult.errors.length > 0) {
       return NextResponse.json(
         { 
-          error: 'CSV parsing errors', 
-          details: parseResult.errors.slice(0, 5).map((e) => e.message),
+          error: isWorkbook ? 'Excel parsing errors' : 'CSV parsing errors', 
+          details: parseResult.errors.slice(0, 5),
         },
         { status: 400 },
       );
     }
 
-    const rows = parseResult.data;
+    const { headers, rows } = parseResult;
 
     if (rows.length === 0) {
       return NextResponse.json(
-        { error: 'CSV file is empty or has no valid data rows' },
+        { error: isWorkbook ? 'Sheet is empty or has no data rows below the header row' : 'CSV file is empty or has no valid data rows' },
         { status: 400 },
       );
     }
 
-    // Validate required headers
-    const requiredHeaders = ['name', 'email'];
-    const headers = parseResult.meta.fields || [];
-    const missingHeaders = requiredHeaders.filter((h) => !headers.includes(h));
+    // Resolve and validate the column mapping
+    const mapping = requestedMapping || suggestMapping(headers);
+    const mappingErrors = getMappingErrors(mapping, headers, journal ? [] : ['journal']);
 
-    if (missingHeaders.length > 0) {
+    if (mappingErrors.length > 0) {
       return NextResponse.json(
-        { error: `Missing required headers: ${missingHeaders.join(', ')}` },
+        { error: mappingErrors.join('. ') },
         { status: 400 },
       );
     }
 
-    // Process rows - validate and prepare data
-    let errors = 0;
-    const errorDetails: string[] = [];
-    const validContacts: Array<{
-      name: string;
-      email: string;
-      phone: string | null;
-      articleTitle: string | null;
-      year: number | null;
-    }> = [];
-
-    // Validate and collect valid rows
-    for (const row of rows) {
-      const name = row.name?.trim();
-      const email = row.email?.trim().toLowerCase();
-      const phone = row.phone?.trim() || null;
-      const articleTitle = row.article_title?.trim() || null;
-      const yearStr = row.year?.trim();
-      const year = yearStr ? parseInt(yearStr, 10) : null;
-      
-      // Validate required fields
-      if (!name || !email) {
-        errors++;
-        if (errorDetails.length < 10) {
-          errorDetails.push(`Missing name or email in row`);
-        }
-        continue;
-      }
+    const target = {
+      journal: journal && {
+        id: journal.id,
+        name: journal.name,
+        brand: brand.name,
+      },
+      brand: {
+        id: brand.id,
+        name: brand.name,
+      },
+    };
 
-      // Validate year if provided
-      if (yearStr && (isNaN(year!) || year! < 1900 || year! > 2100)) {
-        errors++;
-        if (errorDetails.length < 10) {
-          errorDetails.push(`Invalid year: ${yearStr}`);
-        }
-        continue;
-      }
+    // Dry run - report what the import would do without writing
+    if (dryRun) {
+      const resolveJournal = journal
+        ? singleJournalResolver(journal)
+        : await createJournalResolver(brand.id, { createUnknown: createJournals, dryRun: true });
+      const verdicts = await previewRows(rows, mapping, resolveJournal, mode);
+      const counts = verdicts.reduce(
+        (acc, verdict) => {
+          acc[verdict.status] += 1;
+          return acc;
+        },
+        { valid: 0, invalid: 0, suppressed: 0, duplicate: 0, existing: 0, update: 0 } as Record<RowStatus, number>,
+      );
 
-      validContacts.push({
-        name,
-        email,
-        phone,
-        articleTitle,
-        year,
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        ...target,
+        format,
+        summary: {
+          total: rows.length,
+          ...counts,
+        },
+        rows: verdicts,
       });
     }
 
-    // Batch insert using database-level duplicate detection
-    // This is more efficient than querying first, especially for large datasets
-    const BATCH_SIZE = 500;
-    let totalInserted = 0;
+    const batch = await prisma.importBatch.create({
+      data: {
+        fileName: file.name,
+        headers,
+        createdBy: getRequestUser(request),
+        mode,
+        createJournals,
+        brandId: brand.id,
+        journalId: journal?.id,
+      },
+    });
 
-    for (let i = 0; i < validContacts.length; i += BATCH_SIZE) {
-      const batch = validContacts.slice(i, i + BATCH_SIZE);
-      
-      try {
-        const result = await prisma.emailContact.createMany({
-          data: batch.map(contact => ({
-            ...contact,
-            journalId,
-          })),
-          skipDuplicates: true, // Database handles duplicates via unique constraint
-        });
-        
-        totalInserted += result.count;
-      } catch (err: unknown) {
-        errors += batch.length;
-        if (errorDetails.length < 10) {
-          errorDetails.push(`Batch insert error: ${err instanceof Error ? err.message : 'Unknown error'}`);
-        }
-      }
+    // Validate rows and batch insert using database-level duplicate detection
+    let result: ImportCounts & { stopped: boolean };
+    try {
+      result = await importContacts(rows, {
+        resolveJournal: journal
+          ? singleJournalResolver(journal)
+          : await createJournalResolver(brand.id, { createUnknown: createJournals }),
+        mapping,
+        mode,
+        batchId: batch.id,
+      });
+    } catch (error) {
+      // Rows written before the failure can still be rolled back
+      await prisma.importBatch.update({
+        where: { id: batch.id },
+        data: { finishedAt: new Date() },
+      });
+      throw error;
     }
+    const { stopped, ...summary } = result;
 
-    const imported = totalInserted;
-    const duplicates = validContacts.length - totalInserted;
+    await prisma.importBatch.update({
+      where: { id: batch.id },
+      data: {
+        total: summary.total,
+        imported: summary.imported,
+        updated: summary.updated,
+        duplicates: summary.duplicates,
+        suppressed: summary.suppressed,
+        errors: summary.errors,
+        journalCounts: summary.journals,
+        finishedAt: new Date(),
+      },
+    });
 
     return NextResponse.json({
       success: true,
-      journal: {
-        id: journal.id,
-        name: journal.name,
-        brand: journal.brand.name,
-      },
-      summary: {
-        total: rows.length,
-        imported,
-        duplicates,
-        errors,
-        errorDetails: errorDetails.slice(0, 10),
-      },
+      batchId: batch.id,
+      ...target,
+      format,
+      summary,
     });
   } catch (error) {
     console.error('Import error:', error);
     return NextResponse.json(
-      { error: 'Failed to process CSV import' },
+      { error: 'Failed to process import' },
       { status: 500 },
     );
   }
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { removeSuppression } from '@/lib/suppressions';
+
+/**
+ * DELETE /api/suppressions/[id]
+ * 
+ * Removes an entry from the suppression list. Contacts it applied to can be
+ * exported again, unless another entry (e.g. their domain) still
+ * suppresses them.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+
+    const suppression = await removeSuppression(id);
+    if (!suppression) {
+      return NextResponse.json(
+        { error: 'Suppression not found' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete suppression error:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove suppression' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma, SuppressionType } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { getRequestUser } from '@/lib/requestUser';
+import { addSuppressions, parseSuppressionValue } from '@/lib/suppressions';
+
+/**
+ * GET /api/suppressions
+ * 
+ * Returns a paginated suppression list, most recently suppressed first.
+ * Suppressed email addresses and domains are rejected by imports and never
+ * exported.
+ * 
+ * Query parameters:
+ * - page, limit: Pagination
+ * - search: Text in the email address, domain, reason or source
+ * - type: EMAIL or DOMAIN
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    const limit = parseInt(searchParams.get('limit') || '20', 10);
+    const search = searchParams.get('search')?.trim() || '';
+    const type = searchParams.get('type');
+
+    const skip = (page - 1) * limit;
+    const where: Prisma.SuppressionWhereInput = {};
+    if (search) {
+      where.OR = [
+        { value: { contains: search, mode: 'insensitive' } },
+        { reason: { contains: search, mode: 'insensitive' } },
+        { source: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+    if (type === 'EMAIL' || type === 'DOMAIN') {
+      where.type = type as SuppressionType;
+    }
+
+    const [suppressions, total] = await Promise.all([
+      prisma.suppression.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: [{ suppressedAt: 'desc' }, { value: 'asc' }],
+      }),
+      prisma.suppression.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      suppressions,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Get suppressions error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch suppressions' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/suppressions
+ * 
+ * Adds an email address or a whole domain to the suppression list. Stored
+ * contacts it applies to are flagged as suppressed right away.
+ * 
+ * Body:
+ * - value: Email address, or domain ("example.org" or "@example.org", also
+ *   matches its subdomains)
+ * - reason: Why the address is suppressed (optional, e.g. "Unsubscribed")
+ * - source: Where the request came from (optional)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { value, reason, source } = body;
+
+    if (typeof value !== 'string' || !value.trim()) {
+      return NextResponse.json(
+        { error: 'Email address or domain is required' },
+        { status: 400 },
+      );
+    }
+
+    const parsed = parseSuppressionValue(value);
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 },
+      );
+    }
+
+    const result = await addSuppressions([{
+      ...parsed,
+      reason: typeof reason === 'string' ? reason.trim() : null,
+      source: typeof source === 'string' ? source.trim() : null,
+    }], getRequestUser(request));
+
+    if (result.added === 0) {
+      return NextResponse.json(
+        { error: `${parsed.value} is already suppressed` },
+        { status: 409 },
+      );
+    }
+
+    const suppression = await prisma.suppression.findUnique({ where: { value: parsed.value } });
+    return NextResponse.json({ ...suppression, contacts: result.contacts }, { status: 201 });
+  } catch (error) {
+    console.error('Create suppression error:', error);
+    return NextResponse.json(
+      { error: 'Failed to add suppression' },
+      { status: 500 },
+    );
+  }
+}
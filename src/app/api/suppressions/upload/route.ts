@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { decodeText, detectCsvFormat, FORMAT_SAMPLE_BYTES } from '@/lib/csvFormat';
+import { parseCsv } from '@/lib/importer';
+import { getRequestUser } from '@/lib/requestUser';
+import { addSuppressions, readSuppressionFile } from '@/lib/suppressions';
+
+/**
+ * POST /api/suppressions/upload
+ * 
+ * Adds the email addresses and domains of a CSV file to the suppression
+ * list. Entries already on the list are left unchanged.
+ * 
+ * Required form data:
+ * - file: CSV file with an "email" or "domain" column (a Mailchimp
+ *   "Email Address" column works too). Optional columns: reason, source,
+ *   date (when the address was suppressed).
+ * 
+ * Optional form data:
+ * - reason: Reason for rows without one (e.g. "Unsubscribed")
+ * - source: Source for rows without one (defaults to the file name)
+ * 
+ * Returns the number of added, existing and invalid rows, the first row
+ * errors and the number of contacts newly flagged as suppressed.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const reason = (formData.get('reason') as string | null)?.trim() || null;
+    const source = (formData.get('source') as string | null)?.trim() || null;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 },
+      );
+    }
+
+    if (!file.name.endsWith('.csv')) {
+      return NextResponse.json(
+        { error: 'Only CSV files are allowed' },
+        { status: 400 },
+      );
+    }
+
+    // Validate file size (max 10MB)
+    const maxSize = 10 * 1024 * 1024;
+    if (file.size > maxSize) {
+      return NextResponse.json(
+        { error: 'File size must be less than 10MB' },
+        { status: 400 },
+      );
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const format = detectCsvFormat(bytes.subarray(0, FORMAT_SAMPLE_BYTES));
+    const parsed = parseCsv(decodeText(bytes, format.encoding), format.delimiter);
+
+    if (parsed.errors.length > 0) {
+      return NextResponse.json(
+        { error: 'CSV parsing errors', details: parsed.errors.slice(0, 5) },
+        { status: 400 },
+      );
+    }
+
+    const list = readSuppressionFile(parsed, { reason, source: source ?? file.name });
+    if ('error' in list) {
+      return NextResponse.json(
+        { error: list.error },
+        { status: 400 },
+      );
+    }
+
+    const result = await addSuppressions(list.entries, getRequestUser(request));
+
+    return NextResponse.json({
+      total: parsed.rows.length,
+      added: result.added,
+      // Repeated rows within the file count as existing
+      existing: list.entries.length - result.added,
+      invalid: list.invalid,
+      errors: list.errors,
+      contacts: result.contacts,
+    });
+  } catch (error) {
+    console.error('Suppression upload error:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload suppression list' },
+      { status: 500 },
+    );
+  }
+}
@@ -12,8 +12,20 @@ import {
   useToast,
   ConfirmModal,
 } from '@/components/ui';
+import {
+  ContactFormModal,
+  ContactMoveModal,
+  ContactStatusBadge,
+  ContactStatusModal,
+} from '@/components/contacts';
+import type { ContactFormValues } from '@/components/contacts';
 import { useData } from '@/contexts/DataContext';
 import { formatDate, formatNumber, debounce } from '@/lib/utils';
+import { CONTACT_STATUSES } from '@/lib/contactStatus';
+import type { BulkActionResult, MoveConflictMode } from '@/lib/contactBulk';
+import { validateContact } from '@/lib/contactValidation';
+import type { ContactFieldErrors } from '@/lib/contactValidation';
+import type { ContactStatus } from '@prisma/client';
 import styles from './page.module.css';
 
 /**
@@ -24,6 +36,9 @@ interface Contact {
   name: string;
   email: string;
   phone: string | null;
+  articleTitle: string | null;
+  year: number | null;
+  status: ContactStatus;
   createdAt: string;
   journal: {
     id: string;
@@ -53,10 +68,36 @@ interface Journal {
   brand: string;
 }
 
+/**
+ * Form values of a contact
+ * @param contact - Contact
+ * @returns Values for the contact form or inline editing
+ */
+function toFormValues(contact: Contact): ContactFormValues {
+  return {
+    name: contact.name,
+    email: contact.email,
+    phone: contact.phone ?? '',
+    articleTitle: contact.articleTitle ?? '',
+    journalId: contact.journal.id,
+    year: contact.year?.toString() ?? '',
+  };
+}
+
+/**
+ * Bulk action sent to POST /api/contacts/bulk
+ */
+type BulkActionRequest =
+  | { type: 'delete' }
+  | { type: 'move'; journalId: string; onConflict: MoveConflictMode }
+  | { type: 'status'; status: ContactStatus; reason: string };
+
 /**
  * Contacts Page
  * 
- * View and manage email contacts.
+ * View, add and edit email contacts (in a form, or inline in the table). Selected rows (or every contact matching
+ * the filters) can be deleted, moved to another journal, given a status or
+ * exported at once.
  */
 export default function ContactsPage() {
   const { addToast } = useToast();
@@ -69,6 +110,7 @@ export default function ContactsPage() {
   const [search, setSearch] = useState('');
   const [journalFilter, setJournalFilter] = useState('');
   const [brandFilter, setBrandFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState('');
   const [page, setPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [total, setTotal] = useState(0);
@@ -78,6 +120,33 @@ export default function ContactsPage() {
   const [selectedContact, setSelectedContact] = useState<Contact | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
 
+  // Status modal states (no contact: change the selected contacts)
+  const [isStatusModalOpen, setIsStatusModalOpen] = useState(false);
+  const [statusContact, setStatusContact] = useState<Contact | null>(null);
+  const [isSavingStatus, setIsSavingStatus] = useState(false);
+
+  // Form modal states (no contact: add a new one)
+  const [isFormModalOpen, setIsFormModalOpen] = useState(false);
+  const [formContactId, setFormContactId] = useState<string | null>(null);
+  const [formValues, setFormValues] = useState<ContactFormValues | null>(null);
+  const [formErrors, setFormErrors] = useState<ContactFieldErrors>({});
+  const [isSavingForm, setIsSavingForm] = useState(false);
+
+  // Inline edit states
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValues, setEditValues] = useState<ContactFormValues | null>(null);
+  const [editErrors, setEditErrors] = useState<ContactFieldErrors>({});
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+
+  // Selection states (selectAllMatching: every contact matching the filters)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [selectAllMatching, setSelectAllMatching] = useState(false);
+
+  // Bulk action states
+  const [isMoveModalOpen, setIsMoveModalOpen] = useState(false);
+  const [isBulkDeleteModalOpen, setIsBulkDeleteModalOpen] = useState(false);
+  const [isBulkSaving, setIsBulkSaving] = useState(false);
+
   // Ensure cached data exists
   useEffect(() => {
     if (!lastFetched) {
@@ -117,6 +186,7 @@ export default function ContactsPage() {
       if (search) params.set('search', search);
       if (journalFilter) params.set('journalId', journalFilter);
       if (brandFilter) params.set('brandId', brandFilter);
+      if (statusFilter) params.set('status', statusFilter);
 
       const response = await fetch(`/api/contacts?${params}`);
       if (!response.ok) throw new Error('Failed to fetch contacts');
@@ -130,12 +200,21 @@ export default function ContactsPage() {
     } finally {
       setLoading(false);
     }
-  }, [page, search, journalFilter, brandFilter, addToast]);
+  }, [page, search, journalFilter, brandFilter, statusFilter, addToast]);
 
   // useEffect(() => {
   //   fetchContacts();
   // }, [fetchContacts]);
 
+  // A selection only applies to the filters it was made with
+  useEffect(() => {
+    setSelectedIds(new Set());
+    setSelectAllMatching(false);
+  }, [search, journalFilter, brandFilter, statusFilter]);
+
+  const selectionCount = selectAllMatching ? total : selectedIds.size;
+  const isPageSelected = contacts.length > 0 && contacts.every((contact) => selectedIds.has(contact.id));
+
   /**
    * Debounced search handler
    */
@@ -181,6 +260,304 @@ export default function ContactsPage() {
     }
   };
 
+  /**
+   * Save a contact (create it, or update an existing one)
+   * @param id - Contact to update, or null to create one
+   * @param values - Contact form values
+   * @returns Saved contact, or the error message per field
+   */
+  const saveContact = async (
+    id: string | null,
+    values: ContactFormValues,
+  ): Promise<{ contact: Contact } | { errors: ContactFieldErrors }> => {
+    const response = await fetch(id ? `/api/contacts/${id}` : '/api/contacts', {
+      method: id ? 'PUT' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(values),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      if (data.fields) return { errors: data.fields };
+      throw new Error(data.error || 'Failed to save contact');
+    }
+    return { contact: data };
+  };
+
+  /**
+   * Open the form modal for a new contact, or to edit one
+   */
+  const handleFormOpen = (id: string | null, values: ContactFormValues | null) => {
+    setFormContactId(id);
+    setFormValues(values);
+    setFormErrors({});
+    setIsFormModalOpen(true);
+  };
+
+  /**
+   * Save the form modal
+   */
+  const handleFormSave = async (values: ContactFormValues) => {
+    setIsSavingForm(true);
+    try {
+      const result = await saveContact(formContactId, values);
+      if ('errors' in result) {
+        setFormErrors(result.errors);
+        return;
+      }
+
+      addToast(formContactId ? 'Contact updated successfully' : 'Contact added successfully', 'success');
+      setIsFormModalOpen(false);
+      if (formContactId === editingId) handleEditCancel();
+      fetchContacts();
+      if (!formContactId) fetchStats();
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Failed to save contact', 'error');
+    } finally {
+      setIsSavingForm(false);
+    }
+  };
+
+  /**
+   * Start editing a row inline
+   */
+  const handleEditStart = (contact: Contact) => {
+    setEditingId(contact.id);
+    setEditValues(toFormValues(contact));
+    setEditErrors({});
+  };
+
+  /**
+   * Stop editing a row inline
+   */
+  const handleEditCancel = () => {
+    setEditingId(null);
+    setEditValues(null);
+    setEditErrors({});
+  };
+
+  /**
+   * Handle inline input changes (clears the error of the changed field)
+   */
+  const handleEditChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setEditValues((prev) => (prev ? { ...prev, [name]: value } : prev));
+    setEditErrors((prev) => ({ ...prev, [name]: undefined }));
+  };
+
+  /**
+   * Save the row being edited inline
+   */
+  const handleEditSave = async () => {
+    if (!editingId || !editValues) return;
+
+    const validation = validateContact(editValues);
+    if ('errors' in validation) {
+      setEditErrors(validation.errors);
+      return;
+    }
+
+    setIsSavingEdit(true);
+    try {
+      const result = await saveContact(editingId, editValues);
+      if ('errors' in result) {
+        setEditErrors(result.errors);
+        return;
+      }
+
+      setContacts((prev) => prev.map((contact) => (contact.id === editingId ? result.contact : contact)));
+      addToast('Contact updated successfully', 'success');
+      handleEditCancel();
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Failed to save contact', 'error');
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
+
+  /**
+   * Open the status modal for one contact, or for every matching contact
+   */
+  const handleStatusClick = (contact: Contact | null) => {
+    setStatusContact(contact);
+    setIsStatusModalOpen(true);
+  };
+
+  /**
+   * Current filters as contact filter query parameters
+   */
+  const getFilterParams = (): Record<string, string> => {
+    const filters: Record<string, string> = {};
+    if (search) filters.search = search;
+    if (journalFilter) filters.journalId = journalFilter;
+    if (brandFilter) filters.brandId = brandFilter;
+    if (statusFilter) filters.status = statusFilter;
+    return filters;
+  };
+
+  /**
+   * Select or unselect one row
+   */
+  const handleToggleContact = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  /**
+   * Select or unselect every row of the current page
+   */
+  const handleTogglePage = () => {
+    if (selectAllMatching) {
+      handleClearSelection();
+      return;
+    }
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      contacts.forEach((contact) => {
+        if (isPageSelected) {
+          next.delete(contact.id);
+        } else {
+          next.add(contact.id);
+        }
+      });
+      return next;
+    });
+  };
+
+  /**
+   * Clear the selection
+   */
+  const handleClearSelection = () => {
+    setSelectedIds(new Set());
+    setSelectAllMatching(false);
+  };
+
+  /**
+   * Apply an action to the selected contacts
+   * @returns Result of the action, or null when it failed
+   */
+  const runBulkAction = async (action: BulkActionRequest): Promise<BulkActionResult | null> => {
+    setIsBulkSaving(true);
+    try {
+      const selection = selectAllMatching
+        ? { filters: getFilterParams() }
+        : { ids: Array.from(selectedIds) };
+
+      const response = await fetch('/api/contacts/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...selection, actions: [action] }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update contacts');
+      }
+
+      handleClearSelection();
+      fetchContacts();
+      fetchStats();
+      return data.results[0];
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Failed to update contacts', 'error');
+      return null;
+    } finally {
+      setIsBulkSaving(false);
+    }
+  };
+
+  /**
+   * Delete the selected contacts
+   */
+  const handleBulkDelete = async () => {
+    const result = await runBulkAction({ type: 'delete' });
+    if (result?.type !== 'delete') return;
+    addToast(`${formatNumber(result.deleted)} contacts deleted`, 'success');
+    setIsBulkDeleteModalOpen(false);
+  };
+
+  /**
+   * Move the selected contacts to another journal
+   */
+  const handleBulkMove = async (journalId: string, onConflict: MoveConflictMode) => {
+    const result = await runBulkAction({ type: 'move', journalId, onConflict });
+    if (result?.type !== 'move') return;
+    if (result.conflicts > 0) {
+      const shown = result.conflictEmails.join(', ');
+      addToast(
+        `${formatNumber(result.moved)} contacts moved; ${formatNumber(result.conflicts)} already in that journal `
+          + `${onConflict === 'delete' ? 'were deleted' : 'were left in place'} (${shown}${result.conflicts > result.conflictEmails.length ? ', ...' : ''})`,
+        'warning',
+      );
+    } else {
+      addToast(`${formatNumber(result.moved)} contacts moved`, 'success');
+    }
+    setIsMoveModalOpen(false);
+  };
+
+  /**
+   * Export the selected contacts (with the default export columns)
+   * Every status is included, since the rows were picked explicitly.
+   */
+  const handleBulkExport = () => {
+    const params = new URLSearchParams(selectAllMatching ? getFilterParams() : { ids: Array.from(selectedIds).join(',') });
+    if (!params.has('status')) {
+      params.set('status', CONTACT_STATUSES.map(({ status }) => status).join(','));
+    }
+
+    const link = document.createElement('a');
+    link.href = `/api/export?${params}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    addToast('Export started - the file will appear in your downloads', 'success');
+  };
+
+  /**
+   * Save a status change
+   */
+  const handleStatusSave = async (status: ContactStatus, reason: string) => {
+    if (!statusContact) {
+      const result = await runBulkAction({ type: 'status', status, reason });
+      if (result?.type !== 'status') return;
+      addToast(`Status of ${formatNumber(result.changed)} contacts updated`, 'success');
+      setIsStatusModalOpen(false);
+      return;
+    }
+
+    setIsSavingStatus(true);
+    try {
+      const response = await fetch(`/api/contacts/${statusContact.id}/status`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, reason }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update status');
+      }
+
+      addToast(`Status of ${statusContact.email} updated`, 'success');
+      setIsStatusModalOpen(false);
+      fetchContacts();
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Failed to update status', 'error');
+    } finally {
+      setIsSavingStatus(false);
+    }
+  };
+
   return (
     <>
       <Header
@@ -234,8 +611,55 @@ export default function ContactsPage() {
               setPage(1);
             }}
           />
+          <Select
+            options={[
+              { value: '', label: 'All Statuses' },
+              ...CONTACT_STATUSES.map(({ status, label }) => ({ value: status, label })),
+            ]}
+            value={statusFilter}
+            onChange={(e) => {
+              setStatusFilter(e.target.value);
+              setPage(1);
+            }}
+          />
+          <div className={styles.filterActions}>
+            <Button onClick={() => handleFormOpen(null, null)}>
+              Add Contact
+            </Button>
+          </div>
         </div>
 
+        {/* Bulk Actions */}
+        {selectionCount > 0 && (
+          <div className={styles.bulkBar}>
+            <span className={styles.bulkCount}>
+              {formatNumber(selectionCount)} selected
+            </span>
+            {isPageSelected && !selectAllMatching && total > selectedIds.size && (
+              <button className={styles.bulkLink} onClick={() => setSelectAllMatching(true)}>
+                Select all {formatNumber(total)} matching contacts
+              </button>
+            )}
+            <button className={styles.bulkLink} onClick={handleClearSelection}>
+              Clear selection
+            </button>
+            <div className={styles.bulkActions}>
+              <Button variant="outline" size="sm" onClick={() => handleStatusClick(null)}>
+                Change Status
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setIsMoveModalOpen(true)}>
+                Move
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleBulkExport}>
+                Export
+              </Button>
+              <Button variant="danger" size="sm" onClick={() => setIsBulkDeleteModalOpen(true)}>
+                Delete
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* Table */}
         {loading ? (
           <div className={styles.loading}>
@@ -250,11 +674,21 @@ export default function ContactsPage() {
             <table className={styles.table}>
               <thead>
                 <tr>
+                  <th className={styles.selectCell}>
+                    <input
+                      type="checkbox"
+                      className={styles.checkbox}
+                      checked={selectAllMatching || isPageSelected}
+                      onChange={handleTogglePage}
+                      aria-label="Select all contacts on this page"
+                    />
+                  </th>
                   <th>Name</th>
                   <th>Email</th>
                   <th>Phone</th>
                   <th>Journal</th>
                   <th>Brand</th>
+                  <th>Status</th>
                   <th>Added</th>
                   <th>Actions</th>
                 </tr>
@@ -262,32 +696,113 @@ export default function ContactsPage() {
               <tbody>
                 {contacts.map((contact) => (
                   <tr key={contact.id}>
-                    <td className={styles.nameCell}>{contact.name}</td>
-                    <td>
-                      <a href={`mailto:${contact.email}`} className={styles.emailLink}>
-                        {contact.email}
-                      </a>
+                    <td className={styles.selectCell}>
+                      <input
+                        type="checkbox"
+                        className={styles.checkbox}
+                        checked={selectAllMatching || selectedIds.has(contact.id)}
+                        disabled={selectAllMatching}
+                        onChange={() => handleToggleContact(contact.id)}
+                        aria-label={`Select ${contact.email}`}
+                      />
                     </td>
-                    <td>{contact.phone || '-'}</td>
+                    {editingId === contact.id && editValues ? (
+                      <>
+                        <td>
+                          <Input
+                            name="name"
+                            value={editValues.name}
+                            onChange={handleEditChange}
+                            error={editErrors.name}
+                            aria-label="Name"
+                          />
+                        </td>
+                        <td>
+                          <Input
+                            name="email"
+                            type="email"
+                            value={editValues.email}
+                            onChange={handleEditChange}
+                            error={editErrors.email ?? editErrors.journalId}
+                            aria-label="Email"
+                          />
+                        </td>
+                        <td>
+                          <Input
+                            name="phone"
+                            value={editValues.phone}
+                            onChange={handleEditChange}
+                            error={editErrors.phone ?? editErrors.year}
+                            aria-label="Phone"
+                          />
+                        </td>
+                      </>
+                    ) : (
+                      <>
+                        <td className={styles.nameCell}>{contact.name}</td>
+                        <td>
+                          <a href={`mailto:${contact.email}`} className={styles.emailLink}>
+                            {contact.email}
+                          </a>
+                        </td>
+                        <td>{contact.phone || '-'}</td>
+                      </>
+                    )}
                     <td className={styles.journalCell}>{contact.journal.name}</td>
                     <td>
                       <Badge variant={contact.journal.brand.code === 'GMX' ? 'primary' : 'secondary'}>
                         {contact.journal.brand.name}
                       </Badge>
                     </td>
+                    <td>
+                      <button
+                        className={styles.statusButton}
+                        onClick={() => handleStatusClick(contact)}
+                        aria-label={`Change status of ${contact.email}`}
+                        title="Change status"
+                      >
+                        <ContactStatusBadge status={contact.status} />
+                      </button>
+                    </td>
                     <td>{formatDate(contact.createdAt)}</td>
                     <td>
-                      <div className={styles.actions}>
-                        <button
-                          className={styles.actionButtonDanger}
-                          onClick={() => handleDeleteClick(contact)}
-                          aria-label="Delete contact"
-                        >
-                          <svg fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
-                          </svg>
-                        </button>
-                      </div>
+                      {editingId === contact.id && editValues ? (
+                        <div className={styles.actions}>
+                          <Button size="sm" onClick={handleEditSave} isLoading={isSavingEdit}>
+                            Save
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={handleEditCancel}>
+                            Cancel
+                          </Button>
+                          <button
+                            className={styles.editMoreLink}
+                            onClick={() => handleFormOpen(contact.id, editValues)}
+                          >
+                            All fields
+                          </button>
+                        </div>
+                      ) : (
+                        <div className={styles.actions}>
+                          <button
+                            className={styles.actionButton}
+                            onClick={() => handleEditStart(contact)}
+                            aria-label="Edit contact"
+                          >
+                            <svg fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L10.582 16.07a4.5 4.5 0 01-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 011.13-1.897l8.932-8.931zm0 0L19.5 7.125M18 14v4.75A2.25 2.25 0 0115.75 21H5.25A2.25 2.25 0 013 18.75V8.25A2.25 2.25 0 015.25 6H10" />
+                            </svg>
+                          </button>
+                          <button
+                            className={styles.actionButtonDanger}
+                            onClick={() => handleDeleteClick(contact)}
+                            aria-label="Delete contact"
+                          >
+                            <svg fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
+                            </svg>
+                          </button>
+                        </div>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -323,6 +838,48 @@ export default function ContactsPage() {
       </Card>
       )}
 
+      {/* Status Modal */}
+      <ContactStatusModal
+        isOpen={isStatusModalOpen}
+        onClose={() => setIsStatusModalOpen(false)}
+        contact={statusContact}
+        count={selectionCount}
+        onSave={handleStatusSave}
+        isSaving={statusContact ? isSavingStatus : isBulkSaving}
+      />
+
+      {/* Add/Edit Modal */}
+      <ContactFormModal
+        isOpen={isFormModalOpen}
+        onClose={() => setIsFormModalOpen(false)}
+        contact={formValues}
+        journals={journals}
+        onSave={handleFormSave}
+        isSaving={isSavingForm}
+        errors={formErrors}
+      />
+
+      {/* Move Modal */}
+      <ContactMoveModal
+        isOpen={isMoveModalOpen}
+        onClose={() => setIsMoveModalOpen(false)}
+        count={selectionCount}
+        journals={journals}
+        onSave={handleBulkMove}
+        isSaving={isBulkSaving}
+      />
+
+      {/* Bulk Delete Confirmation Modal */}
+      <ConfirmModal
+        isOpen={isBulkDeleteModalOpen}
+        onClose={() => setIsBulkDeleteModalOpen(false)}
+        onConfirm={handleBulkDelete}
+        title="Delete Contacts"
+        message={`Are you sure you want to delete ${formatNumber(selectionCount)} contacts? This action cannot be undone.`}
+        confirmText="Delete"
+        isLoading={isBulkSaving}
+      />
+
       {/* Delete Confirmation Modal */}
       <ConfirmModal
         isOpen={isDeleteModalOpen}
@@ -1,9 +1,47 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Header } from '@/components/layout';
-import { Button, Card, CardHeader, CardContent, Input, Select, useToast } from '@/components/ui';
+import {
+  Button,
+  Card,
+  CardHeader,
+  CardContent,
+  ConfirmModal,
+  Input,
+  Modal,
+  Select,
+  useToast,
+} from '@/components/ui';
+import {
+  ExportColumnEditor,
+  ExportLogTable,
+  ExportScheduleTable,
+  type ExportLogEntry,
+  type ExportScheduleEntry,
+} from '@/components/export';
 import { useData } from '@/contexts/DataContext';
+import { describeContactFilters, parseDomainList, toContactFilterParams } from '@/lib/contactFilters';
+import { CONTACT_STATUSES, parseContactStatusList } from '@/lib/contactStatus';
+import { getCronError, getNextCronRun } from '@/lib/cron';
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  EXPORT_MODES,
+  EXPORT_PRESETS,
+  isExportFormat,
+  isExportMode,
+  isExportPreset,
+  getExportSamplingError,
+  toExportSamplingParams,
+  XLSX_MAX_ROWS,
+  type ExportColumnConfig,
+  type ExportFormat,
+  type ExportMode,
+  type ExportPreset,
+} from '@/lib/exportColumns';
+import { formatDateTime, formatNumber } from '@/lib/utils';
 import styles from './page.module.css';
 
 /**
@@ -28,6 +66,95 @@ interface Journal {
   };
 }
 
+/**
+ * Delay before the match count is refreshed after a filter change
+ */
+const COUNT_DEBOUNCE_MS = 300;
+
+/**
+ * Delay before the export log is refreshed after an export starts
+ */
+const LOG_REFRESH_DELAY_MS = 2000;
+
+/**
+ * Export log entries per page
+ */
+const LOG_PAGE_SIZE = 10;
+
+/**
+ * Status filter options (journal and brand)
+ */
+const STATUS_OPTIONS = [
+  { value: '', label: 'Any status' },
+  { value: 'ACTIVE', label: 'Active' },
+  { value: 'INACTIVE', label: 'Inactive' },
+];
+
+/**
+ * Contact status filter options
+ */
+const CONTACT_STATUS_OPTIONS = [
+  { value: '', label: 'Active only (default)' },
+  ...CONTACT_STATUSES
+    .filter(({ status }) => status !== 'ACTIVE')
+    .map(({ status, label }) => ({ value: status, label: `${label} only` })),
+  { value: 'BOUNCED,UNSUBSCRIBED,COMPLAINED', label: 'Anything but active' },
+  { value: CONTACT_STATUSES.map(({ status }) => status).join(','), label: 'Any status' },
+];
+
+/**
+ * Common schedules offered in the schedule form
+ */
+const CRON_PRESETS = [
+  { value: '', label: 'Custom...' },
+  { value: '0 6 * * *', label: 'Every day at 06:00' },
+  { value: '0 6 * * 1', label: 'Every Monday at 06:00' },
+  { value: '0 6 1 * *', label: 'First day of the month at 06:00' },
+  { value: '0 * * * *', label: 'Every hour' },
+];
+
+/**
+ * Scheduled export form data
+ */
+interface ScheduleFormData {
+  name: string;
+  profileId: string;
+  cron: string;
+  mode: string;
+  format: string;
+  split: string;
+  destination: string;
+  directory: string;
+  /** Comma-separated email addresses */
+  recipients: string;
+  enabled: string;
+  /** "current" to replace the schedule's filters with the page filters */
+  filterSource: string;
+}
+
+const initialScheduleFormData: ScheduleFormData = {
+  name: '',
+  profileId: '',
+  cron: '0 6 * * 1',
+  mode: 'contacts',
+  format: 'csv',
+  split: 'single',
+  destination: 'DIRECTORY',
+  directory: '',
+  recipients: '',
+  enabled: 'true',
+  filterSource: 'current',
+};
+
+/**
+ * Saved export profile interface
+ */
+interface ExportProfile {
+  id: string;
+  name: string;
+  columns: ExportColumnConfig[];
+}
+
 /**
  * Export Page
  * 
@@ -44,6 +171,203 @@ export default function ExportPage() {
   const [endDate, setEndDate] = useState('');
   const [journalId, setJournalId] = useState('');
   const [brandId, setBrandId] = useState('');
+  const [search, setSearch] = useState('');
+  const [yearFrom, setYearFrom] = useState('');
+  const [yearTo, setYearTo] = useState('');
+  const [includeDomains, setIncludeDomains] = useState('');
+  const [excludeDomains, setExcludeDomains] = useState('');
+  const [hasPhone, setHasPhone] = useState('');
+  const [contactStatus, setContactStatus] = useState('');
+  const [journalStatus, setJournalStatus] = useState('');
+  const [brandStatus, setBrandStatus] = useState('');
+  const [mode, setMode] = useState<ExportMode>('contacts');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [splitByJournal, setSplitByJournal] = useState(false);
+  const [rowLimit, setRowLimit] = useState('');
+  const [perJournalLimit, setPerJournalLimit] = useState('');
+  const [seed, setSeed] = useState('');
+  const [matchCount, setMatchCount] = useState<number | null>(null);
+  const [isCounting, setIsCounting] = useState(false);
+
+  // Column and profile states
+  const [columns, setColumns] = useState<ExportColumnConfig[]>(DEFAULT_EXPORT_COLUMNS);
+  const [profiles, setProfiles] = useState<ExportProfile[]>([]);
+  const [profileId, setProfileId] = useState('');
+  const [profileName, setProfileName] = useState('');
+  const [preset, setPreset] = useState<ExportPreset | ''>('');
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
+  const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+  const [isDeletingProfile, setIsDeletingProfile] = useState(false);
+
+  // Export log
+  const [logs, setLogs] = useState<ExportLogEntry[]>([]);
+  const [logPage, setLogPage] = useState(1);
+  const [logTotalPages, setLogTotalPages] = useState(1);
+
+  // Scheduled exports
+  const [schedules, setSchedules] = useState<ExportScheduleEntry[]>([]);
+  const [selectedSchedule, setSelectedSchedule] = useState<ExportScheduleEntry | null>(null);
+  const [scheduleFormData, setScheduleFormData] = useState<ScheduleFormData>(initialScheduleFormData);
+  const [isScheduleModalOpen, setIsScheduleModalOpen] = useState(false);
+  const [isDeleteScheduleModalOpen, setIsDeleteScheduleModalOpen] = useState(false);
+  const [isSavingSchedule, setIsSavingSchedule] = useState(false);
+  const [isDeletingSchedule, setIsDeletingSchedule] = useState(false);
+  const [runningScheduleId, setRunningScheduleId] = useState<string | null>(null);
+
+  const selectedProfile = profiles.find((p) => p.id === profileId) ?? null;
+  const selectedPreset = EXPORT_PRESETS.find((p) => p.preset === preset) ?? null;
+
+  /**
+   * Load the saved export profiles
+   */
+  const fetchProfiles = useCallback(async () => {
+    try {
+      const response = await fetch('/api/export/profiles');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch export profiles');
+      }
+
+      setProfiles(data.profiles);
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Failed to fetch export profiles', 'error');
+    }
+  }, [addToast]);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, [fetchProfiles]);
+
+  /**
+   * Fetch a page of the export log
+   */
+  const fetchLogs = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({
+        page: logPage.toString(),
+        limit: LOG_PAGE_SIZE.toString(),
+      });
+      const response = await fetch(`/api/export/logs?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch export log');
+      }
+
+      setLogs(data.logs);
+      setLogTotalPages(data.pagination.totalPages || 1);
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Failed to fetch export log', 'error');
+    }
+  }, [logPage, addToast]);
+
+  useEffect(() => {
+    fetchLogs();
+  }, [fetchLogs]);
+
+  /**
+   * Load the scheduled exports
+   */
+  const fetchSchedules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/export/schedules');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch scheduled exports');
+      }
+
+      setSchedules(data.schedules);
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Failed to fetch scheduled exports', 'error');
+    }
+  }, [addToast]);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  /**
+   * Journal and brand names by ID (for the filters in the export log)
+   */
+  const filterNames = Object.fromEntries([
+    ...brands.map((b: Brand) => [b.id, b.name]),
+    ...journals.map((j: Journal) => [j.id, j.name]),
+  ]);
+
+  /**
+   * Query string of the current filters (shared by the export and its count)
+   */
+  const filterQuery = toContactFilterParams({
+    search,
+    startDate,
+    endDate,
+    journalId,
+    brandId,
+    yearFrom: yearFrom ? parseInt(yearFrom, 10) : null,
+    yearTo: yearTo ? parseInt(yearTo, 10) : null,
+    includeDomains: parseDomainList(includeDomains),
+    excludeDomains: parseDomainList(excludeDomains),
+    hasPhone: hasPhone ? hasPhone === 'true' : null,
+    statuses: parseContactStatusList(contactStatus),
+    journalStatus: journalStatus === 'ACTIVE' || journalStatus === 'INACTIVE' ? journalStatus : null,
+    brandStatus: brandStatus === 'ACTIVE' || brandStatus === 'INACTIVE' ? brandStatus : null,
+  }).toString();
+
+  /**
+   * Row limits and random sample seed
+   */
+  const sampling = {
+    limit: parseInt(rowLimit, 10) > 0 ? parseInt(rowLimit, 10) : null,
+    perJournalLimit: parseInt(perJournalLimit, 10) > 0 ? parseInt(perJournalLimit, 10) : null,
+    seed: seed.trim() || null,
+  };
+  const samplingError = getExportSamplingError(sampling, { mode, split: splitByJournal ? 'journal' : null });
+
+  /**
+   * Query string of the filters, the row mode and the sampling
+   */
+  const exportQuery = new URLSearchParams([
+    ...Array.from(new URLSearchParams(filterQuery)),
+    ['mode', mode],
+    ...toExportSamplingParams(sampling),
+  ]).toString();
+
+  const formatLabel = format === 'csv' ? 'CSV' : format === 'xlsx' ? 'Excel' : 'JSON Lines';
+  const isTooLargeForExcel = format === 'xlsx' && !splitByJournal && matchCount !== null && matchCount > XLSX_MAX_ROWS;
+  const isSplitWithPeople = splitByJournal && mode === 'people';
+
+  /**
+   * Refresh the live match count shortly after the filters change
+   */
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsCounting(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/export/count?${exportQuery}`, { signal: controller.signal });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to count matching contacts');
+        }
+
+        setMatchCount(data.count);
+        setIsCounting(false);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        setMatchCount(null);
+        setIsCounting(false);
+      }
+    }, COUNT_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [exportQuery]);
 
   /**
    * Filter journals when brand is selected
@@ -63,52 +387,325 @@ export default function ExportPage() {
 
   /**
    * Handle export
+   * The browser downloads the streamed file directly, so large exports
+   * start right away and are never held in memory by the page.
    */
-  const handleExport = async () => {
+  const startDownload = (params: URLSearchParams) => {
     setIsExporting(true);
 
     try {
-      const params = new URLSearchParams();
-      if (startDate) params.set('startDate', startDate);
-      if (endDate) params.set('endDate', endDate);
-      if (journalId) params.set('journalId', journalId);
-      if (brandId) params.set('brandId', brandId);
+      const link = document.createElement('a');
+      link.href = `/api/export?${params}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+
+      addToast('Export started - the file will appear in your downloads', 'success');
+      // The export is logged when the download starts
+      setTimeout(fetchLogs, LOG_REFRESH_DELAY_MS);
+    } catch (error) {
+      addToast('Failed to export contacts', 'error');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  /**
+   * Export with the current filters and columns
+   * Unchanged preset or profile columns are sent as the preset or profile,
+   * so the export log shows which one was used. A preset is only sent with
+   * the unique-people CSV it is made for; otherwise its columns are sent.
+   */
+  const handleExport = () => {
+    const params = new URLSearchParams(exportQuery);
+    const isPresetFile = mode === 'people' && format === 'csv' && !splitByJournal;
+    if (selectedPreset && isPresetFile && JSON.stringify(selectedPreset.columns) === JSON.stringify(columns)) {
+      params.set('preset', selectedPreset.preset);
+    } else if (selectedProfile && JSON.stringify(selectedProfile.columns) === JSON.stringify(columns)) {
+      params.set('profileId', selectedProfile.id);
+    } else {
+      params.set('columns', JSON.stringify(columns));
+    }
+    params.set('format', format);
+    if (splitByJournal) params.set('split', 'journal');
+    startDownload(params);
+  };
+
+  /**
+   * Run a logged export again with the same filters, columns and file settings
+   * @param log - Export log entry
+   */
+  const handleRerun = (log: ExportLogEntry) => {
+    const params = new URLSearchParams(log.filters);
+    toExportSamplingParams(log.sampling ?? {}).forEach(([key, value]) => params.set(key, value));
+    params.set('columns', JSON.stringify(log.columns));
+    params.set('mode', log.mode);
+    params.set('format', log.format);
+    if (log.split) params.set('split', log.split);
+    startDownload(params);
+  };
+
+  /**
+   * Load the columns of a saved profile into the editor
+   * @param id - Profile ID ('' for custom columns)
+   */
+  const handleProfileSelect = (id: string) => {
+    setProfileId(id);
+    setPreset('');
+    const profile = profiles.find((p) => p.id === id);
+    if (profile) {
+      setColumns(profile.columns);
+      setProfileName(profile.name);
+    } else {
+      setProfileName('');
+    }
+  };
+
+  /**
+   * Load an ESP preset: its columns, unique people and CSV
+   * @param value - Preset ('' for none)
+   */
+  const handlePresetSelect = (value: string) => {
+    if (!isExportPreset(value)) {
+      setPreset('');
+      return;
+    }
+
+    const config = EXPORT_PRESETS.find((p) => p.preset === value);
+    if (!config) return;
+    setPreset(value);
+    setProfileId('');
+    setProfileName('');
+    setColumns(config.columns);
+    setMode('people');
+    setFormat('csv');
+    setSplitByJournal(false);
+  };
 
-      const response = await fetch(`/api/export?${params}`);
+  /**
+   * Save the current columns as a new profile, or update the selected one
+   * @param asNew - Create a new profile even when one is selected
+   */
+  const handleSaveProfile = async (asNew: boolean) => {
+    if (!profileName.trim()) {
+      addToast('Please enter a profile name', 'error');
+      return;
+    }
+
+    setIsSavingProfile(true);
+    try {
+      const isUpdate = !asNew && selectedProfile;
+      const response = await fetch(
+        isUpdate ? `/api/export/profiles/${selectedProfile.id}` : '/api/export/profiles',
+        {
+          method: isUpdate ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: profileName, columns }),
+        },
+      );
+      const data = await response.json();
 
       if (!response.ok) {
-        throw new Error('Export failed');
+        throw new Error(data.error || 'Failed to save export profile');
       }
 
-      // Get filename from Content-Disposition header or use default
-      const contentDisposition = response.headers.get('Content-Disposition');
-      let filename = `email-contacts-${new Date().toISOString().split('T')[0]}.csv`;
-      if (contentDisposition) {
-        const match = contentDisposition.match(/filename="(.+)"/);
-        if (match) {
-          filename = match[1];
-        }
+      addToast(`Profile "${data.name}" saved`, 'success');
+      await fetchProfiles();
+      setProfileId(data.id);
+      setColumns(data.columns);
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Failed to save export profile', 'error');
+    } finally {
+      setIsSavingProfile(false);
+    }
+  };
+
+  /**
+   * Delete the selected profile (the editor keeps its columns)
+   */
+  const handleDeleteProfile = async () => {
+    if (!selectedProfile) return;
+
+    setIsDeletingProfile(true);
+    try {
+      const response = await fetch(`/api/export/profiles/${selectedProfile.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete export profile');
       }
 
-      // Download the file
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = filename;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
+      addToast(`Profile "${selectedProfile.name}" deleted`, 'success');
+      setProfileId('');
+      setProfileName('');
+      await fetchProfiles();
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Failed to delete export profile', 'error');
+    } finally {
+      setIsDeletingProfile(false);
+      setIsDeleteModalOpen(false);
+    }
+  };
+
+  /**
+   * Open the schedule form for a new schedule with the current filters and settings
+   */
+  const handleAddSchedule = () => {
+    setSelectedSchedule(null);
+    setScheduleFormData({
+      ...initialScheduleFormData,
+      profileId: selectedProfile?.id ?? '',
+      mode,
+      format,
+      split: splitByJournal ? 'journal' : 'single',
+    });
+    setIsScheduleModalOpen(true);
+  };
 
-      addToast('Export completed successfully', 'success');
+  /**
+   * Open the schedule form for an existing schedule
+   * @param schedule - Schedule to edit
+   */
+  const handleEditSchedule = (schedule: ExportScheduleEntry) => {
+    setSelectedSchedule(schedule);
+    setScheduleFormData({
+      name: schedule.name,
+      profileId: schedule.profileId,
+      cron: schedule.cron,
+      mode: schedule.mode,
+      format: schedule.format,
+      split: schedule.split ?? 'single',
+      destination: schedule.destination,
+      directory: schedule.directory ?? '',
+      recipients: schedule.recipients.join(', '),
+      enabled: schedule.enabled ? 'true' : 'false',
+      filterSource: 'schedule',
+    });
+    setIsScheduleModalOpen(true);
+  };
+
+  /**
+   * Handle schedule form input changes
+   */
+  const handleScheduleInputChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>,
+  ) => {
+    const { name, value } = e.target;
+    setScheduleFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  /**
+   * Create or update a schedule
+   */
+  const handleSaveSchedule = async () => {
+    if (!scheduleFormData.name.trim()) {
+      addToast('Please enter a schedule name', 'error');
+      return;
+    }
+
+    setIsSavingSchedule(true);
+    try {
+      const useCurrentFilters = !selectedSchedule || scheduleFormData.filterSource === 'current';
+      const response = await fetch(
+        selectedSchedule ? `/api/export/schedules/${selectedSchedule.id}` : '/api/export/schedules',
+        {
+          method: selectedSchedule ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: scheduleFormData.name,
+            profileId: scheduleFormData.profileId,
+            cron: scheduleFormData.cron,
+            mode: scheduleFormData.mode,
+            format: scheduleFormData.format,
+            split: scheduleFormData.split === 'journal' ? 'journal' : null,
+            destination: scheduleFormData.destination,
+            directory: scheduleFormData.directory,
+            recipients: scheduleFormData.recipients,
+            enabled: scheduleFormData.enabled === 'true',
+            ...(useCurrentFilters && { filters: Object.fromEntries(new URLSearchParams(filterQuery)) }),
+          }),
+        },
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save scheduled export');
+      }
+
+      addToast(`Scheduled export "${data.name}" saved`, 'success');
+      setIsScheduleModalOpen(false);
+      await fetchSchedules();
     } catch (error) {
-      addToast('Failed to export contacts', 'error');
+      addToast(error instanceof Error ? error.message : 'Failed to save scheduled export', 'error');
     } finally {
-      setIsExporting(false);
+      setIsSavingSchedule(false);
+    }
+  };
+
+  /**
+   * Delete the selected schedule (its past runs stay in the export log)
+   */
+  const handleDeleteSchedule = async () => {
+    if (!selectedSchedule) return;
+
+    setIsDeletingSchedule(true);
+    try {
+      const response = await fetch(`/api/export/schedules/${selectedSchedule.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete scheduled export');
+      }
+
+      addToast(`Scheduled export "${selectedSchedule.name}" deleted`, 'success');
+      setSelectedSchedule(null);
+      await fetchSchedules();
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Failed to delete scheduled export', 'error');
+    } finally {
+      setIsDeletingSchedule(false);
+      setIsDeleteScheduleModalOpen(false);
+    }
+  };
+
+  /**
+   * Run a schedule now and deliver the file to its destination
+   * @param schedule - Schedule to run
+   */
+  const handleRunSchedule = async (schedule: ExportScheduleEntry) => {
+    setRunningScheduleId(schedule.id);
+    try {
+      const response = await fetch(`/api/export/schedules/${schedule.id}/run`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to run scheduled export');
+      }
+
+      if (data.status === 'COMPLETED') {
+        addToast(`"${schedule.name}" delivered ${formatNumber(data.rows)} rows`, 'success');
+      } else {
+        addToast(`"${schedule.name}" failed: ${data.error ?? 'Export failed'}`, 'error');
+      }
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Failed to run scheduled export', 'error');
+    } finally {
+      setRunningScheduleId(null);
+      fetchSchedules();
+      fetchLogs();
     }
   };
 
+  /**
+   * Next run of the cron expression in the schedule form
+   */
+  const cronError = getCronError(scheduleFormData.cron);
+  const nextScheduledRun = cronError ? null : getNextCronRun(scheduleFormData.cron);
+
   /**
    * Clear all filters
    */
@@ -117,6 +714,18 @@ export default function ExportPage() {
     setEndDate('');
     setJournalId('');
     setBrandId('');
+    setSearch('');
+    setYearFrom('');
+    setYearTo('');
+    setIncludeDomains('');
+    setExcludeDomains('');
+    setHasPhone('');
+    setContactStatus('');
+    setJournalStatus('');
+    setBrandStatus('');
+    setRowLimit('');
+    setPerJournalLimit('');
+    setSeed('');
   };
 
   return (
@@ -181,33 +790,309 @@ export default function ExportPage() {
                 helperText="Optional: Filter by date range"
                 fullWidth
               />
+
+              {/* Contact Filters */}
+              <Input
+                label="Search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Name, email or article title"
+                fullWidth
+              />
+              <Select
+                label="Phone Number"
+                options={[
+                  { value: '', label: 'Any' },
+                  { value: 'true', label: 'With phone number' },
+                  { value: 'false', label: 'Without phone number' },
+                ]}
+                value={hasPhone}
+                onChange={(e) => setHasPhone(e.target.value)}
+                fullWidth
+              />
+              <Select
+                label="Contact Status"
+                options={CONTACT_STATUS_OPTIONS}
+                value={contactStatus}
+                onChange={(e) => setContactStatus(e.target.value)}
+                helperText="Deliverability of the address"
+                fullWidth
+              />
+              <Input
+                label="Year From"
+                type="number"
+                value={yearFrom}
+                onChange={(e) => setYearFrom(e.target.value)}
+                placeholder="e.g. 2023"
+                helperText="Collection year of the contact"
+                fullWidth
+              />
+              <Input
+                label="Year To"
+                type="number"
+                value={yearTo}
+                onChange={(e) => setYearTo(e.target.value)}
+                placeholder="e.g. 2023"
+                helperText="Collection year of the contact"
+                fullWidth
+              />
+              <Input
+                label="Include Email Domains"
+                value={includeDomains}
+                onChange={(e) => setIncludeDomains(e.target.value)}
+                placeholder="e.g. .edu, example.org"
+                helperText="Comma-separated; .edu matches every address ending in .edu"
+                fullWidth
+              />
+              <Input
+                label="Exclude Email Domains"
+                value={excludeDomains}
+                onChange={(e) => setExcludeDomains(e.target.value)}
+                placeholder="e.g. gmail.com"
+                helperText="Comma-separated; subdomains are excluded too"
+                fullWidth
+              />
+              <Select
+                label="Journal Status"
+                options={STATUS_OPTIONS}
+                value={journalStatus}
+                onChange={(e) => setJournalStatus(e.target.value)}
+                fullWidth
+              />
+              <Select
+                label="Brand Status"
+                options={STATUS_OPTIONS}
+                value={brandStatus}
+                onChange={(e) => setBrandStatus(e.target.value)}
+                fullWidth
+              />
+              <Select
+                label="Rows"
+                options={EXPORT_MODES.map((m) => ({ value: m.mode, label: m.label }))}
+                value={mode}
+                onChange={(e) => isExportMode(e.target.value) && setMode(e.target.value)}
+                helperText={EXPORT_MODES.find((m) => m.mode === mode)?.description}
+                fullWidth
+              />
+              <Select
+                label="File Format"
+                options={EXPORT_FORMATS.map((f) => ({ value: f.format, label: f.label }))}
+                value={format}
+                onChange={(e) => isExportFormat(e.target.value) && setFormat(e.target.value)}
+                error={isTooLargeForExcel ? `Excel files hold at most ${formatNumber(XLSX_MAX_ROWS)} rows` : undefined}
+                fullWidth
+              />
+              <Select
+                label="Files"
+                options={[
+                  { value: 'single', label: 'Single file' },
+                  { value: 'journal', label: 'One file per journal (ZIP)' },
+                ]}
+                value={splitByJournal ? 'journal' : 'single'}
+                onChange={(e) => setSplitByJournal(e.target.value === 'journal')}
+                helperText="The ZIP archive includes a manifest.csv with the row count of each file"
+                error={isSplitWithPeople ? 'Per-journal files have one row per contact' : undefined}
+                fullWidth
+              />
+
+              {/* Sampling */}
+              <Input
+                label="Row Limit"
+                type="number"
+                min={1}
+                value={rowLimit}
+                onChange={(e) => setRowLimit(e.target.value)}
+                placeholder="All rows"
+                helperText="Optional: e.g. 2000 for a test send"
+                error={sampling.limit && splitByJournal ? samplingError ?? undefined : undefined}
+                fullWidth
+              />
+              <Input
+                label="Per-Journal Limit"
+                type="number"
+                min={1}
+                value={perJournalLimit}
+                onChange={(e) => setPerJournalLimit(e.target.value)}
+                placeholder="All contacts"
+                helperText="Optional: most contacts from each journal"
+                error={sampling.perJournalLimit && mode === 'people' ? samplingError ?? undefined : undefined}
+                fullWidth
+              />
+              <Input
+                label="Random Sample Seed"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value)}
+                placeholder="e.g. campaign-a"
+                helperText="Optional: pick rows at random - the same seed gives the same list"
+                fullWidth
+              />
             </div>
 
             {/* Actions */}
             <div className={styles.actions}>
+              <p className={styles.matchCount} aria-live="polite">
+                {isCounting && matchCount === null && 'Counting matching contacts...'}
+                {matchCount !== null && `${formatNumber(matchCount)} ${mode === 'people' ? 'people' : 'contacts'} ${sampling.limit || sampling.perJournalLimit ? 'selected' : 'match'}`}
+              </p>
               <Button variant="danger" onClick={handleClearFilters}>
                 Clear Filters
               </Button>
-              <Button onClick={handleExport} isLoading={isExporting}>
-                {isExporting ? 'Exporting...' : 'Export CSV'}
+              <Button
+                onClick={handleExport}
+                isLoading={isExporting}
+                disabled={isTooLargeForExcel || isSplitWithPeople || samplingError !== null}
+              >
+                {isExporting ? 'Exporting...' : `Export ${formatLabel}${splitByJournal ? ' (ZIP)' : ''}`}
               </Button>
             </div>
           </CardContent>
         </Card>
 
+        {/* Columns Card */}
+        <Card>
+          <CardHeader
+            title="Columns"
+            description="Choose the exported columns, their order and their header labels"
+          />
+          <CardContent>
+            <div className={styles.profileGrid}>
+              <Select
+                label="ESP Preset"
+                options={[
+                  { value: '', label: 'None' },
+                  ...EXPORT_PRESETS.map((p) => ({ value: p.preset, label: p.label })),
+                ]}
+                value={preset}
+                onChange={(e) => handlePresetSelect(e.target.value)}
+                helperText={selectedPreset?.description ?? 'Columns and headers for an email service provider import'}
+                fullWidth
+              />
+              <Select
+                label="Export Profile"
+                options={[
+                  { value: '', label: 'Custom columns' },
+                  ...profiles.map((p) => ({ value: p.id, label: p.name })),
+                ]}
+                value={profileId}
+                onChange={(e) => handleProfileSelect(e.target.value)}
+                helperText="Load a saved set of columns"
+                fullWidth
+              />
+              <Input
+                label="Profile Name"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder="e.g. Mailing list with journal"
+                helperText="Save the columns below under this name"
+                fullWidth
+              />
+            </div>
+
+            <div className={styles.profileActions}>
+              {selectedProfile && (
+                <>
+                  <Button variant="danger" size="sm" onClick={() => setIsDeleteModalOpen(true)}>
+                    Delete Profile
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleSaveProfile(false)}
+                    isLoading={isSavingProfile}
+                  >
+                    Update Profile
+                  </Button>
+                </>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleSaveProfile(true)}
+                isLoading={isSavingProfile}
+              >
+                Save as New Profile
+              </Button>
+            </div>
+
+            <ExportColumnEditor columns={columns} onChange={setColumns} />
+          </CardContent>
+        </Card>
+
+        {/* Scheduled Exports Card */}
+        <Card>
+          <CardHeader
+            title="Scheduled Exports"
+            description="Exports that run on a schedule and are written to a directory or emailed"
+            action={
+              <Button size="sm" onClick={handleAddSchedule}>
+                Add Schedule
+              </Button>
+            }
+          />
+          <CardContent>
+            <ExportScheduleTable
+              schedules={schedules}
+              names={filterNames}
+              runningId={runningScheduleId}
+              onRun={handleRunSchedule}
+              onEdit={handleEditSchedule}
+              onDelete={(schedule) => {
+                setSelectedSchedule(schedule);
+                setIsDeleteScheduleModalOpen(true);
+              }}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Export Log Card */}
+        <Card>
+          <CardHeader
+            title="Export History"
+            description="Who exported which contacts and when"
+            action={
+              <Button variant="ghost" size="sm" onClick={fetchLogs}>
+                Refresh
+              </Button>
+            }
+          />
+          <CardContent>
+            <ExportLogTable logs={logs} names={filterNames} onRerun={handleRerun} />
+            {logTotalPages > 1 && (
+              <div className={styles.logPagination}>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={logPage === 1}
+                  onClick={() => setLogPage((p) => Math.max(1, p - 1))}
+                >
+                  Previous
+                </Button>
+                <span className={styles.pageInfo}>
+                  Page {logPage} of {logTotalPages}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={logPage === logTotalPages}
+                  onClick={() => setLogPage((p) => Math.min(logTotalPages, p + 1))}
+                >
+                  Next
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Export Info Card */}
         <Card>
           <CardHeader title="Export Information" />
           <CardContent>
             <div className={styles.info}>
-              <h4>Exported CSV Columns:</h4>
+              <h4>Available Columns:</h4>
               <ul>
-                <li><code>name</code> - Contact name</li>
-                <li><code>email</code> - Email address</li>
-                <li><code>phone</code> - Phone number</li>
-                <li><code>article_title</code> - Article or publication title</li>
-                <li><code>brand</code> - Brand name</li>
-                <li><code>created_at</code> - Date when contact was added</li>
+                {EXPORT_COLUMNS.map((c) => (
+                  <li key={c.column}><code>{c.header}</code> - {c.label}</li>
+                ))}
               </ul>
 
               <h4>Tips:</h4>
@@ -215,12 +1100,189 @@ export default function ExportPage() {
                 <li>Leave all filters empty to export all contacts</li>
                 <li>Use date filters to export contacts from a specific time period</li>
                 <li>Filter by journal or brand to export specific subsets</li>
-                <li>Exports complete quickly, typically within 3 seconds</li>
+                <li>Combine year, domain and phone filters for targeted lists (e.g. .edu addresses from 2023 with a phone number)</li>
+                <li>Save column sets you use often as export profiles</li>
+                <li>Choose an ESP preset to get a CSV that Mailchimp, Sendgrid or Brevo imports without renaming columns - names are split into first and last name</li>
+                <li>Choose unique people to get one row per email address with the person's journals and article titles listed together</li>
+                <li>CSV and JSON Lines exports are streamed, so even very large downloads start right away</li>
+                <li>Excel exports keep dates and years as typed cells and freeze the header row</li>
+                <li>Choose one file per journal to hand lists to brand managers - files are named with the brand code and journal name</li>
+                <li>Scheduled exports use the filters on this page when they are created, and an export profile for their columns - times are in UTC</li>
+                <li>Set a row limit, a per-journal limit or both for test sends; add a seed to pick the rows at random instead of taking the newest (export the same seed again to get the same list)</li>
+                <li>JSON Lines (<code>.ndjson</code>) files hold one JSON object per contact, keyed by the column headers</li>
               </ul>
             </div>
           </CardContent>
         </Card>
       </div>
+
+      <ConfirmModal
+        isOpen={isDeleteModalOpen}
+        onClose={() => setIsDeleteModalOpen(false)}
+        onConfirm={handleDeleteProfile}
+        title="Delete Export Profile"
+        message={`Are you sure you want to delete the profile "${selectedProfile?.name}"? This action cannot be undone.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+        variant="danger"
+        isLoading={isDeletingProfile}
+      />
+
+      <ConfirmModal
+        isOpen={isDeleteScheduleModalOpen}
+        onClose={() => setIsDeleteScheduleModalOpen(false)}
+        onConfirm={handleDeleteSchedule}
+        title="Delete Scheduled Export"
+        message={`Are you sure you want to delete the scheduled export "${selectedSchedule?.name}"? Its past runs stay in the export history.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+        variant="danger"
+        isLoading={isDeletingSchedule}
+      />
+
+      <Modal
+        isOpen={isScheduleModalOpen}
+        onClose={() => setIsScheduleModalOpen(false)}
+        title={selectedSchedule ? 'Edit Scheduled Export' : 'Add Scheduled Export'}
+        size="md"
+        footer={
+          <>
+            <Button variant="ghost" onClick={() => setIsScheduleModalOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveSchedule} isLoading={isSavingSchedule}>
+              {selectedSchedule ? 'Update' : 'Create'}
+            </Button>
+          </>
+        }
+      >
+        <div className={styles.form}>
+          <Input
+            label="Name"
+            name="name"
+            value={scheduleFormData.name}
+            onChange={handleScheduleInputChange}
+            placeholder="e.g. Weekly mailing list"
+            fullWidth
+          />
+          {selectedSchedule ? (
+            <Select
+              label="Filters"
+              name="filterSource"
+              options={[
+                { value: 'schedule', label: describeContactFilters(selectedSchedule.filters, filterNames) },
+                { value: 'current', label: `Use current filters (${describeContactFilters(Object.fromEntries(new URLSearchParams(filterQuery)), filterNames)})` },
+              ]}
+              value={scheduleFormData.filterSource}
+              onChange={handleScheduleInputChange}
+              fullWidth
+            />
+          ) : (
+            <p className={styles.scheduleFilters}>
+              Filters: {describeContactFilters(Object.fromEntries(new URLSearchParams(filterQuery)), filterNames)}
+            </p>
+          )}
+          <Select
+            label="Export Profile"
+            name="profileId"
+            options={[
+              { value: '', label: 'Select a profile...' },
+              ...profiles.map((p) => ({ value: p.id, label: p.name })),
+            ]}
+            value={scheduleFormData.profileId}
+            onChange={handleScheduleInputChange}
+            helperText="Scheduled exports use the columns of a saved profile"
+            fullWidth
+          />
+          <Select
+            label="Repeat"
+            options={CRON_PRESETS}
+            value={CRON_PRESETS.some((p) => p.value === scheduleFormData.cron) ? scheduleFormData.cron : ''}
+            onChange={(e) => e.target.value && setScheduleFormData((prev) => ({ ...prev, cron: e.target.value }))}
+            fullWidth
+          />
+          <Input
+            label="Schedule (cron, UTC)"
+            name="cron"
+            value={scheduleFormData.cron}
+            onChange={handleScheduleInputChange}
+            placeholder="minute hour day-of-month month day-of-week"
+            error={cronError ?? undefined}
+            helperText={nextScheduledRun ? `Next run: ${formatDateTime(nextScheduledRun)} (your local time)` : 'Never runs'}
+            fullWidth
+          />
+          <Select
+            label="Rows"
+            name="mode"
+            options={EXPORT_MODES.map((m) => ({ value: m.mode, label: m.label }))}
+            value={scheduleFormData.mode}
+            onChange={handleScheduleInputChange}
+            fullWidth
+          />
+          <Select
+            label="File Format"
+            name="format"
+            options={EXPORT_FORMATS.map((f) => ({ value: f.format, label: f.label }))}
+            value={scheduleFormData.format}
+            onChange={handleScheduleInputChange}
+            fullWidth
+          />
+          <Select
+            label="Files"
+            name="split"
+            options={[
+              { value: 'single', label: 'Single file' },
+              { value: 'journal', label: 'One file per journal (ZIP)' },
+            ]}
+            value={scheduleFormData.split}
+            onChange={handleScheduleInputChange}
+            fullWidth
+          />
+          <Select
+            label="Destination"
+            name="destination"
+            options={[
+              { value: 'DIRECTORY', label: 'Write to a directory' },
+              { value: 'EMAIL', label: 'Email as an attachment' },
+            ]}
+            value={scheduleFormData.destination}
+            onChange={handleScheduleInputChange}
+            fullWidth
+          />
+          {scheduleFormData.destination === 'EMAIL' ? (
+            <Input
+              label="Recipients"
+              name="recipients"
+              value={scheduleFormData.recipients}
+              onChange={handleScheduleInputChange}
+              placeholder="e.g. manager@example.org, team@example.org"
+              helperText="Comma-separated email addresses"
+              fullWidth
+            />
+          ) : (
+            <Input
+              label="Directory"
+              name="directory"
+              value={scheduleFormData.directory}
+              onChange={handleScheduleInputChange}
+              placeholder="e.g. /srv/exports/weekly"
+              helperText="Absolute path on the server, inside EXPORT_DIRECTORY_ROOT"
+              fullWidth
+            />
+          )}
+          <Select
+            label="Status"
+            name="enabled"
+            options={[
+              { value: 'true', label: 'Enabled' },
+              { value: 'false', label: 'Paused' },
+            ]}
+            value={scheduleFormData.enabled}
+            onChange={handleScheduleInputChange}
+            fullWidth
+          />
+        </div>
+      </Modal>
     </>
   );
 }
@@ -0,0 +1,259 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Header } from '@/components/layout';
+import {
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Input,
+  Select,
+  useToast,
+} from '@/components/ui';
+import { useData } from '@/contexts/DataContext';
+import { formatNumber } from '@/lib/utils';
+import styles from './page.module.css';
+
+/**
+ * Brand interface
+ */
+interface Brand {
+  id: string;
+  name: string;
+  code: string;
+}
+
+/**
+ * Result of a campaign results import (see POST /api/import/campaign)
+ */
+interface CampaignImportResult {
+  total: number;
+  ignored: number;
+  invalid: number;
+  errors: string[];
+  matched: number;
+  unmatched: number;
+  unmatchedEmails: string[];
+  contacts: number;
+  statusChanges: {
+    BOUNCED: number;
+    UNSUBSCRIBED: number;
+    COMPLAINED: number;
+  };
+  opens: number;
+  clicks: number;
+}
+
+/**
+ * Event of files without an event column
+ */
+const EVENT_OPTIONS = [
+  { value: '', label: 'From the file (event or opens/clicks columns)' },
+  { value: 'bounce', label: 'Every row is a bounce' },
+  { value: 'unsubscribe', label: 'Every row is an unsubscribe' },
+  { value: 'complaint', label: 'Every row is a spam complaint' },
+  { value: 'open', label: 'Every row is an open' },
+  { value: 'click', label: 'Every row is a click' },
+];
+
+/**
+ * Campaign Results Page
+ *
+ * Imports the bounces, unsubscribes, complaints, opens and clicks reported
+ * by the ESP after a campaign. Matching contacts get their status and
+ * engagement counters updated, so the next export leaves dead addresses out.
+ */
+export default function CampaignResultsPage() {
+  const { addToast } = useToast();
+  const { brands } = useData();
+  const [file, setFile] = useState<File | null>(null);
+  const [brandId, setBrandId] = useState('');
+  const [campaign, setCampaign] = useState('');
+  const [event, setEvent] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<CampaignImportResult | null>(null);
+
+  /**
+   * Upload the results file
+   */
+  const handleImport = async () => {
+    if (!file) return;
+
+    setIsImporting(true);
+    setResult(null);
+    try {
+      const formDataToSend = new FormData();
+      formDataToSend.append('file', file);
+      if (brandId) formDataToSend.append('brandId', brandId);
+      if (campaign.trim()) formDataToSend.append('campaign', campaign.trim());
+      if (event) formDataToSend.append('event', event);
+
+      const response = await fetch('/api/import/campaign', {
+        method: 'POST',
+        body: formDataToSend,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details?.[0] || data.error || 'Import failed');
+      }
+
+      setResult(data);
+      addToast(`Campaign results imported - ${formatNumber(data.matched)} addresses matched`, 'success');
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Import failed', 'error');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  /**
+   * Download the listed unmatched addresses as a CSV file
+   */
+  const handleDownloadUnmatched = () => {
+    if (!result) return;
+    const csv = ['email', ...result.unmatchedEmails].join('\n');
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'unmatched-addresses.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const statusChanges = result
+    ? result.statusChanges.BOUNCED + result.statusChanges.UNSUBSCRIBED + result.statusChanges.COMPLAINED
+    : 0;
+
+  return (
+    <>
+      <Header
+        title="Campaign Results"
+        description="Update contact status and engagement from the results of an ESP campaign"
+      />
+
+      <div className={styles.container}>
+        <Card>
+          <CardHeader
+            title="Import Campaign Results"
+            description='CSV file with an "email" column and an "event" column (bounce, unsubscribe, spamreport, open, click) or "opens"/"clicks" columns'
+          />
+          <CardContent>
+            <div className={styles.formGrid}>
+              <Input
+                label="File"
+                type="file"
+                accept=".csv"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                fullWidth
+              />
+              <Input
+                label="Campaign"
+                value={campaign}
+                onChange={(e) => setCampaign(e.target.value)}
+                placeholder="Defaults to the file name"
+                helperText="Recorded with each status change"
+                fullWidth
+              />
+              <Select
+                label="Brand"
+                options={[
+                  { value: '', label: 'All brands' },
+                  ...brands.map((b: Brand) => ({ value: b.id, label: `${b.name} (${b.code})` })),
+                ]}
+                value={brandId}
+                onChange={(e) => setBrandId(e.target.value)}
+                helperText="Only match contacts in the journals of this brand"
+                fullWidth
+              />
+              <Select
+                label="Event"
+                options={EVENT_OPTIONS}
+                value={event}
+                onChange={(e) => setEvent(e.target.value)}
+                helperText="For files listing a single kind of event"
+                fullWidth
+              />
+            </div>
+            <div className={styles.actions}>
+              <Button onClick={handleImport} disabled={!file} isLoading={isImporting}>
+                Import Results
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {result && (
+          <Card>
+            <CardHeader
+              title="Summary"
+              description={`${formatNumber(result.total)} rows: ${formatNumber(result.ignored)} without changes, ${formatNumber(result.invalid)} invalid`}
+            />
+            <CardContent>
+              <div className={styles.summaryGrid}>
+                <div className={styles.summaryItem}>
+                  <p className={styles.summaryValue}>{formatNumber(result.matched)}</p>
+                  <p className={styles.summaryLabel}>Matched addresses</p>
+                </div>
+                <div className={styles.summaryItem}>
+                  <p className={styles.summaryValue}>{formatNumber(result.unmatched)}</p>
+                  <p className={styles.summaryLabel}>Unmatched addresses</p>
+                </div>
+                <div className={styles.summaryItem}>
+                  <p className={styles.summaryValue}>{formatNumber(statusChanges)}</p>
+                  <p className={styles.summaryLabel}>Status changes</p>
+                </div>
+                <div className={styles.summaryItem}>
+                  <p className={styles.summaryValue}>{formatNumber(result.opens)}</p>
+                  <p className={styles.summaryLabel}>Opens</p>
+                </div>
+                <div className={styles.summaryItem}>
+                  <p className={styles.summaryValue}>{formatNumber(result.clicks)}</p>
+                  <p className={styles.summaryLabel}>Clicks</p>
+                </div>
+              </div>
+
+              <p className={styles.details}>
+                {formatNumber(result.contacts)} contacts matched:
+                {' '}{formatNumber(result.statusChanges.BOUNCED)} now bounced,
+                {' '}{formatNumber(result.statusChanges.UNSUBSCRIBED)} unsubscribed,
+                {' '}{formatNumber(result.statusChanges.COMPLAINED)} complained.
+                {' '}Contacts that are not active are left out of exports.
+              </p>
+
+              {result.errors.length > 0 && (
+                <ul className={styles.errorList}>
+                  {result.errors.map((error) => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+              )}
+
+              {result.unmatchedEmails.length > 0 && (
+                <div className={styles.unmatched}>
+                  <div className={styles.unmatchedHeader}>
+                    <p className={styles.unmatchedTitle}>
+                      Unmatched addresses
+                      {result.unmatched > result.unmatchedEmails.length &&
+                        ` (first ${formatNumber(result.unmatchedEmails.length)})`}
+                    </p>
+                    <Button variant="outline" size="sm" onClick={handleDownloadUnmatched}>
+                      Download CSV
+                    </Button>
+                  </div>
+                  <ul className={styles.unmatchedList}>
+                    {result.unmatchedEmails.map((email) => (
+                      <li key={email}>{email}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,296 @@
+'use client';
+
+import React, { useEffect, useState, useCallback } from 'react';
+import { Header } from '@/components/layout';
+import {
+  Badge,
+  Button,
+  Card,
+  Spinner,
+  useToast,
+  ConfirmModal,
+} from '@/components/ui';
+import { useData } from '@/contexts/DataContext';
+import { formatDateTime, formatNumber } from '@/lib/utils';
+import styles from './page.module.css';
+
+/**
+ * Import batch interface
+ */
+interface ImportBatch {
+  id: string;
+  fileName: string;
+  createdBy: string;
+  mode: 'SKIP' | 'FILL' | 'OVERWRITE';
+  total: number;
+  imported: number;
+  updated: number;
+  duplicates: number;
+  suppressed: number;
+  errors: number;
+  /** Null while contacts are still being imported */
+  finishedAt: string | null;
+  rolledBackAt: string | null;
+  createdAt: string;
+  journalCounts: Array<{ journalId: string; name: string }>;
+  brand: {
+    name: string;
+    code: string;
+  };
+  /** Null for multi-journal imports */
+  journal: {
+    id: string;
+    name: string;
+  } | null;
+  importJob: {
+    id: string;
+    status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+  } | null;
+}
+
+/**
+ * Get the badge for a batch's current state
+ * @param batch - Import batch
+ * @returns Badge label and variant
+ */
+function getBatchStatus(batch: ImportBatch): { label: string; variant: 'success' | 'warning' | 'error' | 'neutral' | 'primary' } {
+  if (batch.rolledBackAt) return { label: 'Rolled back', variant: 'neutral' };
+  switch (batch.importJob?.status) {
+    case 'PENDING':
+    case 'RUNNING':
+      return { label: 'Running', variant: 'primary' };
+    case 'FAILED':
+      return { label: 'Failed', variant: 'error' };
+    case 'CANCELLED':
+      return { label: 'Cancelled', variant: 'warning' };
+    default:
+      return batch.finishedAt
+        ? { label: 'Completed', variant: 'success' }
+        : { label: 'Running', variant: 'primary' };
+  }
+}
+
+/**
+ * Describe the journal(s) a batch was imported into
+ * @param batch - Import batch
+ * @returns Journal name, or the number of journals of a multi-journal import
+ */
+function getBatchJournals(batch: ImportBatch): string {
+  if (batch.journal) return batch.journal.name;
+  const count = batch.journalCounts.length;
+  return count === 1 ? batch.journalCounts[0].name : `${formatNumber(count)} journals`;
+}
+
+/**
+ * Import History Page
+ *
+ * Lists past imports, links to their rejected rows and lets the user
+ * roll one back.
+ */
+export default function ImportHistoryPage() {
+  const { addToast } = useToast();
+  const { fetchStats } = useData();
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+
+  // Rollback modal states
+  const [selectedBatch, setSelectedBatch] = useState<ImportBatch | null>(null);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+
+  /**
+   * Fetch import batches from API
+   */
+  const fetchBatches = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: '20',
+      });
+
+      const response = await fetch(`/api/import/batches?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch import history');
+
+      const data = await response.json();
+      setBatches(data.batches);
+      setTotalPages(data.pagination.totalPages || 1);
+      setTotal(data.pagination.total);
+    } catch (error) {
+      addToast('Failed to load import history', 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [page, addToast]);
+
+  useEffect(() => {
+    fetchBatches();
+  }, [fetchBatches]);
+
+  /**
+   * Roll back the selected batch
+   */
+  const handleRollback = async () => {
+    if (!selectedBatch) return;
+
+    setIsRollingBack(true);
+    try {
+      const response = await fetch(`/api/import/batches/${selectedBatch.id}/rollback`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to roll back import');
+      }
+
+      addToast(`Rolled back import - ${formatNumber(data.deleted)} contacts deleted`, 'success');
+      setSelectedBatch(null);
+      fetchBatches();
+      // Contact counts changed
+      fetchStats();
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Failed to roll back import', 'error');
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
+  return (
+    <>
+      <Header
+        title="Import History"
+        description={`Past imports and their results (${formatNumber(total)} total)`}
+      />
+
+      <Card noPadding>
+        {loading ? (
+          <div className={styles.loading}>
+            <Spinner size="lg" />
+          </div>
+        ) : batches.length === 0 ? (
+          <div className={styles.empty}>
+            <p>No imports yet</p>
+          </div>
+        ) : (
+          <div className={styles.tableContainer}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>File</th>
+                  <th>Journal</th>
+                  <th>Brand</th>
+                  <th>User</th>
+                  <th>Rows</th>
+                  <th>Imported</th>
+                  <th>Updated</th>
+                  <th>Skipped</th>
+                  <th>Suppressed</th>
+                  <th>Errors</th>
+                  <th>Status</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {batches.map((batch) => {
+                  const status = getBatchStatus(batch);
+                  const isRunning = !batch.finishedAt;
+                  return (
+                    <tr key={batch.id}>
+                      <td>{formatDateTime(batch.createdAt)}</td>
+                      <td className={styles.fileCell} title={batch.fileName}>{batch.fileName}</td>
+                      <td
+                        className={styles.journalCell}
+                        title={batch.journal ? undefined : batch.journalCounts.map((j) => j.name).join(', ')}
+                      >
+                        {getBatchJournals(batch)}
+                      </td>
+                      <td>
+                        <Badge variant={batch.brand.code === 'GMX' ? 'primary' : 'secondary'}>
+                          {batch.brand.name}
+                        </Badge>
+                      </td>
+                      <td className={styles.userCell}>{batch.createdBy}</td>
+                      <td className={styles.numberCell}>{formatNumber(batch.total)}</td>
+                      <td className={styles.numberCell}>{formatNumber(batch.imported)}</td>
+                      <td className={styles.numberCell}>{formatNumber(batch.updated)}</td>
+                      <td className={styles.numberCell}>{formatNumber(batch.duplicates)}</td>
+                      <td className={styles.numberCell}>{formatNumber(batch.suppressed)}</td>
+                      <td className={styles.numberCell}>
+                        {batch.errors > 0 ? (
+                          <a
+                            href={`/api/import/batches/${batch.id}/errors`}
+                            className={styles.errorsLink}
+                            title="Download rejected rows as CSV"
+                            download
+                          >
+                            {formatNumber(batch.errors)}
+                          </a>
+                        ) : (
+                          formatNumber(batch.errors)
+                        )}
+                      </td>
+                      <td>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </td>
+                      <td>
+                        <Button
+                          variant="danger"
+                          size="sm"
+                          onClick={() => setSelectedBatch(batch)}
+                          disabled={Boolean(batch.rolledBackAt) || isRunning}
+                        >
+                          Roll back
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className={styles.pagination}>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={page === 1}
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+            >
+              Previous
+            </Button>
+            <span className={styles.pageInfo}>
+              Page {page} of {totalPages}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={page === totalPages}
+              onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </Card>
+
+      {/* Rollback Confirmation Modal */}
+      <ConfirmModal
+        isOpen={Boolean(selectedBatch)}
+        onClose={() => setSelectedBatch(null)}
+        onConfirm={handleRollback}
+        title="Roll Back Import"
+        message={`Delete the ${formatNumber(selectedBatch?.imported || 0)} contacts imported from "${selectedBatch?.fileName}" into ${selectedBatch ? getBatchJournals(selectedBatch) : ''}? Contacts that already existed are kept${selectedBatch?.updated ? `, and the ${formatNumber(selectedBatch.updated)} contacts it updated keep their new values` : ''}. This action cannot be undone.`}
+        confirmText="Roll back"
+        isLoading={isRollingBack}
+      />
+    </>
+  );
+}
@@ -1,11 +1,72 @@
 'use client';
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import Papa from 'papaparse';
 import { Header } from '@/components/layout';
-import { Button, Card, CardHeader, CardContent, Select, Spinner, useToast } from '@/components/ui';
+import {
+  Badge,
+  Button,
+  Card,
+  CardHeader,
+  CardContent,
+  Input,
+  ProgressBar,
+  Select,
+  Spinner,
+  useToast,
+} from '@/components/ui';
+import { ColumnMapper, PasteExtractor, PreviewReport, type PreviewSummary } from '@/components/import';
 import { useData } from '@/contexts/DataContext';
+import {
+  IMPORT_MODES,
+  getMappingErrors,
+  suggestMapping,
+  type ColumnMapping,
+  type ContactField,
+  type ImportMode,
+} from '@/lib/importMapping';
+import type { JournalCounts, RowVerdict } from '@/lib/importer';
+import {
+  CSV_DELIMITERS,
+  CSV_ENCODINGS,
+  FORMAT_SAMPLE_BYTES,
+  decodeText,
+  describeCsvFormat,
+  detectCsvFormat,
+  type CsvDelimiter,
+  type CsvEncoding,
+  type CsvFormat,
+} from '@/lib/csvFormat';
+import { EXTRACTED_CSV_HEADERS, contactsToCsv, type ExtractedContact } from '@/lib/textExtraction';
+import { formatNumber } from '@/lib/utils';
+import { getSheetRows, isWorkbookFile, readWorkbook, type Workbook } from '@/lib/workbook';
 import styles from './page.module.css';
 
+/**
+ * Number of data rows read in the browser to detect headers and sample values
+ */
+const SAMPLE_ROWS = 5;
+
+/**
+ * Files up to this size can be previewed; larger files go straight to a background job
+ */
+const PREVIEW_MAX_SIZE = 10 * 1024 * 1024; // 10MB
+
+/**
+ * Max size accepted for background imports
+ */
+const JOB_MAX_SIZE = 500 * 1024 * 1024; // 500MB
+
+/**
+ * Max size accepted for Excel workbooks, which are parsed in memory
+ */
+const WORKBOOK_MAX_SIZE = 50 * 1024 * 1024; // 50MB
+
+/**
+ * How often a running import job is polled
+ */
+const JOB_POLL_INTERVAL = 1000;
+
 /**
  * Brand interface
  */
@@ -28,32 +89,117 @@ interface Journal {
   };
 }
 
+/**
+ * Journal select value for a multi-journal import routed by a journal/ISSN column
+ */
+const MULTI_JOURNAL = 'multi';
+
+/**
+ * Where the imported contacts come from
+ */
+type ImportSource = 'file' | 'paste';
+
+/**
+ * Column mapping of the CSV generated from pasted text
+ */
+const PASTE_MAPPING: ColumnMapping = {
+  [EXTRACTED_CSV_HEADERS.name]: 'name',
+  [EXTRACTED_CSV_HEADERS.email]: 'email',
+};
+
 /**
  * Import summary interface
  */
 interface ImportSummary {
   total: number;
   imported: number;
+  updated: number;
+  duplicates: number;
+  suppressed: number;
+  errors: number;
+  errorDetails: string[];
+  journals: JournalCounts[];
+}
+
+/**
+ * Background import job interface
+ */
+interface ImportJob {
+  id: string;
+  batchId: string;
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+  progress: number;
+  rowsProcessed: number;
+  imported: number;
+  updated: number;
   duplicates: number;
+  suppressed: number;
   errors: number;
   errorDetails: string[];
+  failureReason: string | null;
+}
+
+/**
+ * Dry-run result interface
+ */
+interface ImportPreview {
+  summary: PreviewSummary;
+  rows: RowVerdict[];
+  /** Encoding and delimiter the file was read with (null for Excel files) */
+  format: CsvFormat | null;
 }
 
 /**
  * Import Page
  * 
- * Upload and import CSV files containing email contacts.
+ * Upload and import CSV or Excel files containing email contacts, or
+ * extract contacts from pasted text.
  */
 export default function ImportPage() {
   const { addToast } = useToast();
-  const { brands, journals } = useData();
+  const { brands, journals, fetchStats } = useData();
   const [filteredJournals, setFilteredJournals] = useState<Journal[]>([]);
   const [selectedBrand, setSelectedBrand] = useState('');
   const [selectedJournal, setSelectedJournal] = useState('');
   const [file, setFile] = useState<File | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
   const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [job, setJob] = useState<ImportJob | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [samples, setSamples] = useState<Record<string, string[]>>({});
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [workbook, setWorkbook] = useState<Workbook | null>(null);
+  const [sheet, setSheet] = useState('');
+  const [headerRow, setHeaderRow] = useState(1);
+  const [csvSample, setCsvSample] = useState<Uint8Array | null>(null);
+  const [detectedFormat, setDetectedFormat] = useState<CsvFormat | null>(null);
+  const [csvFormat, setCsvFormat] = useState<CsvFormat | null>(null);
+  const [mode, setMode] = useState<ImportMode>('SKIP');
+  const [createJournals, setCreateJournals] = useState(false);
+  const [source, setSource] = useState<ImportSource>('file');
+  const [pastedContacts, setPastedContacts] = useState<ExtractedContact[]>([]);
+
+  /**
+   * Pasted contacts as a CSV file, so they are imported like an upload
+   */
+  const pastedFile = useMemo(
+    () => (pastedContacts.length > 0
+      ? new File([contactsToCsv(pastedContacts)], 'pasted-text.csv', { type: 'text/csv' })
+      : null),
+    [pastedContacts],
+  );
+
+  const isPaste = source === 'paste';
+  const uploadFile = isPaste ? pastedFile : file;
+  const isMultiJournal = selectedJournal === MULTI_JOURNAL;
+  const requiredFields: ContactField[] = isMultiJournal ? ['journal'] : [];
+  const mappingErrors = isPaste ? [] : getMappingErrors(mapping, headers, requiredFields);
+  const canPreview = !uploadFile || uploadFile.size <= PREVIEW_MAX_SIZE;
+  const isJobActive = job?.status === 'PENDING' || job?.status === 'RUNNING';
 
   /**
    * Filter journals when brand changes
@@ -63,7 +209,11 @@ export default function ImportPage() {
       const filtered = journals.filter((j: Journal) => j.brandId === selectedBrand);
       setFilteredJournals(filtered);
       // Reset journal selection if it's not in the filtered list
-      if (selectedJournal && !filtered.find((j: Journal) => j.id === selectedJournal)) {
+      if (
+        selectedJournal
+        && selectedJournal !== MULTI_JOURNAL
+        && !filtered.find((j: Journal) => j.id === selectedJournal)
+      ) {
         setSelectedJournal('');
       }
     } else {
@@ -73,62 +223,288 @@ export default function ImportPage() {
   }, [selectedBrand, journals, selectedJournal]);
 
   /**
-   * Handle file drop
+   * Discard the preview whenever its inputs change
    */
-  const handleDrop = useCallback((e: React.DragEvent) => {
-    e.preventDefault();
-    setIsDragging(false);
+  useEffect(() => {
+    setPreview(null);
+  }, [file, selectedJournal, mapping, mode, createJournals, sheet, headerRow, csvFormat, source, pastedContacts]);
 
-    const droppedFile = e.dataTransfer.files[0];
-    if (droppedFile && droppedFile.name.endsWith('.csv')) {
-      setFile(droppedFile);
-      setSummary(null);
-    } else {
-      addToast('Please upload a CSV file', 'error');
+  /**
+   * Read the headers and a few sample rows of the selected file
+   * and suggest a column mapping for them
+   */
+  const detectColumns = useCallback((selectedFile: File) => {
+    setHeaders([]);
+    setSamples({});
+    setMapping({});
+    setWorkbook(null);
+    setCsvSample(null);
+    setDetectedFormat(null);
+    setCsvFormat(null);
+
+    // Workbook headers depend on the chosen sheet and header row (see below)
+    if (isWorkbookFile(selectedFile.name)) {
+      selectedFile.arrayBuffer()
+        .then(readWorkbook)
+        .then((parsed) => {
+          setSheet(parsed.sheetNames[0] || '');
+          setHeaderRow(1);
+          setWorkbook(parsed);
+        })
+        .catch(() => {
+          addToast('Could not read the Excel file', 'error');
+        });
+      return;
     }
+
+    // CSV headers depend on the encoding and delimiter, detected from the start of the file
+    selectedFile.slice(0, FORMAT_SAMPLE_BYTES).arrayBuffer()
+      .then((data) => {
+        const sample = new Uint8Array(data);
+        const detected = detectCsvFormat(sample);
+        setCsvSample(sample);
+        setDetectedFormat(detected);
+        setCsvFormat(detected);
+      })
+      .catch(() => {
+        addToast('Could not read the CSV headers', 'error');
+      });
   }, [addToast]);
 
   /**
-   * Handle file selection
+   * Read the headers and sample values of the CSV file with the chosen format
    */
-  const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile && selectedFile.name.endsWith('.csv')) {
+  useEffect(() => {
+    if (!csvSample || !csvFormat) return;
+
+    const result = Papa.parse<Record<string, string>>(decodeText(csvSample, csvFormat.encoding), {
+      header: true,
+      delimiter: csvFormat.delimiter,
+      preview: SAMPLE_ROWS,
+      skipEmptyLines: true,
+      transformHeader: (header) => header.trim(),
+    });
+    const detected = (result.meta.fields || []).filter(Boolean);
+    const sampleValues = detected.reduce(
+      (acc, header) => {
+        acc[header] = result.data
+          .map((row) => row[header]?.trim())
+          .filter((value): value is string => Boolean(value))
+          .slice(0, 3);
+        return acc;
+      },
+      {} as Record<string, string[]>,
+    );
+
+    setHeaders(detected);
+    setSamples(sampleValues);
+    setMapping(suggestMapping(detected));
+  }, [csvSample, csvFormat]);
+
+  /**
+   * Read the headers and sample values of the chosen workbook sheet
+   */
+  useEffect(() => {
+    if (!workbook) return;
+
+    const sheetRows = getSheetRows(workbook, sheet);
+    const rows = sheetRows?.rows ?? [];
+    const headerIndex = headerRow - (sheetRows?.firstRow ?? 1);
+    const headerCells = (headerIndex >= 0 ? rows[headerIndex] ?? [] : []).map((header) => header.trim());
+    const dataRows = rows
+      .slice(Math.max(headerIndex + 1, 0))
+      .filter((cells) => cells.some((cell) => cell.trim()))
+      .slice(0, SAMPLE_ROWS);
+
+    const detected = headerCells.filter(Boolean);
+    const sampleValues = headerCells.reduce(
+      (acc, header, column) => {
+        if (header) {
+          acc[header] = dataRows
+            .map((cells) => cells[column]?.trim())
+            .filter((value): value is string => Boolean(value))
+            .slice(0, 3);
+        }
+        return acc;
+      },
+      {} as Record<string, string[]>,
+    );
+
+    setHeaders(detected);
+    setSamples(sampleValues);
+    setMapping(suggestMapping(detected));
+  }, [workbook, sheet, headerRow]);
+
+  /**
+   * Accept a CSV or Excel file from the drop zone or file picker
+   */
+  const selectFile = useCallback((selectedFile: File | undefined) => {
+    if (selectedFile && (selectedFile.name.endsWith('.csv') || isWorkbookFile(selectedFile.name))) {
       setFile(selectedFile);
       setSummary(null);
+      detectColumns(selectedFile);
     } else {
-      addToast('Please upload a CSV file', 'error');
+      addToast('Please upload a CSV or Excel (.xlsx) file', 'error');
     }
-  }, [addToast]);
+  }, [addToast, detectColumns]);
 
   /**
-   * Handle file upload
+   * Switch between uploading a file and pasting text
+   * Pasted text is always imported into a single journal.
    */
-  const handleUpload = async () => {
-    if (!file) {
-      addToast('Please select a file to upload', 'error');
-      return;
+  const selectSource = (nextSource: ImportSource) => {
+    setSource(nextSource);
+    setSummary(null);
+    if (nextSource === 'paste' && isMultiJournal) {
+      setSelectedJournal('');
+    }
+  };
+
+  /**
+   * Handle file drop
+   */
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    selectFile(e.dataTransfer.files[0]);
+  }, [selectFile]);
+
+  /**
+   * Handle file selection
+   */
+  const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    selectFile(e.target.files?.[0]);
+  }, [selectFile]);
+
+  /**
+   * Poll the running import job until it finishes
+   */
+  useEffect(() => {
+    if (!job || !isJobActive) return undefined;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/import/jobs/${job.id}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch import progress');
+        }
+
+        setJob(data);
+
+        if (data.status === 'COMPLETED' || data.status === 'CANCELLED') {
+          setSummary({
+            total: data.rowsProcessed,
+            imported: data.imported,
+            updated: data.updated,
+            duplicates: data.duplicates,
+            suppressed: data.suppressed,
+            errors: data.errors,
+            errorDetails: data.errorDetails,
+            journals: data.batch.journalCounts,
+          });
+          // Refresh the journal list when the import created journals
+          if (data.batch.journalCounts.some((j: JournalCounts) => j.created)) {
+            fetchStats();
+          }
+        }
+        if (data.status === 'COMPLETED') {
+          addToast(`Successfully imported ${data.imported} contacts`, 'success');
+        } else if (data.status === 'CANCELLED') {
+          addToast(`Import cancelled after ${data.imported} contacts`, 'info');
+        } else if (data.status === 'FAILED') {
+          addToast(data.failureReason || 'Import failed', 'error');
+        }
+      } catch (error) {
+        addToast(error instanceof Error ? error.message : 'Failed to fetch import progress', 'error');
+      }
+    }, JOB_POLL_INTERVAL);
+
+    return () => clearTimeout(timer);
+  }, [job, isJobActive, addToast, fetchStats]);
+
+  /**
+   * Check that everything needed for an import is selected
+   * @param dryRun - Whether the request is a preview
+   * @returns Whether the import request can be sent
+   */
+  const canSubmit = (dryRun: boolean): boolean => {
+    if (!uploadFile) {
+      addToast(isPaste ? 'Please paste text and extract the contacts to import' : 'Please select a file to upload', 'error');
+      return false;
     }
 
     if (!selectedBrand || !selectedJournal) {
       addToast('Please select both brand and journal', 'error');
-      return;
+      return false;
+    }
+
+    if (mappingErrors.length > 0) {
+      addToast(mappingErrors[0], 'error');
+      return false;
     }
 
     // Validate file size
-    const maxSize = 10 * 1024 * 1024; // 10MB
-    if (file.size > maxSize) {
-      addToast('File size must be less than 10MB', 'error');
-      return;
+    if (dryRun && uploadFile.size > PREVIEW_MAX_SIZE) {
+      addToast('Files larger than 10MB cannot be previewed', 'error');
+      return false;
+    }
+    if (uploadFile.size > JOB_MAX_SIZE) {
+      addToast('File size must be less than 500MB', 'error');
+      return false;
+    }
+    if (!isPaste && workbook && uploadFile.size > WORKBOOK_MAX_SIZE) {
+      addToast('Excel files must be less than 50MB. Save larger workbooks as CSV.', 'error');
+      return false;
     }
 
-    setIsUploading(true);
+    return true;
+  };
+
+  /**
+   * Build the import options, sent as form fields with a preview and as
+   * query parameters with a background import (whose body is the file)
+   */
+  const buildImportOptions = (): Record<string, string> => {
+    const options: Record<string, string> = {
+      mapping: JSON.stringify(isPaste ? PASTE_MAPPING : mapping),
+      mode,
+    };
+    if (isMultiJournal) {
+      options.brandId = selectedBrand;
+      options.createJournals = String(createJournals);
+    } else {
+      options.journalId = selectedJournal;
+    }
+    if (isPaste) {
+      options.encoding = 'utf-8';
+      options.delimiter = ',';
+    } else if (workbook) {
+      options.sheet = sheet;
+      options.headerRow = String(headerRow);
+    } else if (csvFormat) {
+      options.encoding = csvFormat.encoding;
+      options.delimiter = csvFormat.delimiter;
+    }
+    return options;
+  };
+
+  /**
+   * Run a dry-run import and show the per-row report
+   */
+  const handlePreview = async () => {
+    if (!canSubmit(true)) return;
+
+    setIsPreviewing(true);
     setSummary(null);
+    setPreview(null);
 
     try {
       const formData = new FormData();
-      formData.append('file', file);
-      formData.append('journalId', selectedJournal);
+      formData.append('file', uploadFile as File);
+      Object.entries(buildImportOptions()).forEach(([key, value]) => formData.append(key, value));
+      formData.append('dryRun', 'true');
 
       const response = await fetch('/api/import', {
         method: 'POST',
@@ -137,12 +513,57 @@ export default function ImportPage() {
 
       const data = await response.json();
 
+      if (!response.ok) {
+        throw new Error(data.error || 'Preview failed');
+      }
+
+      setPreview({ summary: data.summary, rows: data.rows, format: data.format });
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Preview failed', 'error');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  /**
+   * Start the real import as a background job - only rows that pass validation are written
+   */
+  const handleCommit = async () => {
+    if (!canSubmit(false)) return;
+
+    setIsUploading(true);
+    setSummary(null);
+
+    try {
+      const file = uploadFile as File;
+      const query = new URLSearchParams({ fileName: file.name, ...buildImportOptions() });
+      const response = await fetch(`/api/import/jobs?${query}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: file,
+      });
+
+      const data = await response.json();
+
       if (!response.ok) {
         throw new Error(data.error || 'Import failed');
       }
 
-      setSummary(data.summary);
-      addToast(`Successfully imported ${data.summary.imported} contacts`, 'success');
+      setPreview(null);
+      setJob({
+        id: data.id,
+        batchId: data.batchId,
+        status: data.status,
+        progress: 0,
+        rowsProcessed: 0,
+        imported: 0,
+        updated: 0,
+        duplicates: 0,
+        suppressed: 0,
+        errors: 0,
+        errorDetails: [],
+        failureReason: null,
+      });
     } catch (error) {
       addToast(error instanceof Error ? error.message : 'Import failed', 'error');
     } finally {
@@ -151,24 +572,59 @@ export default function ImportPage() {
   };
 
   /**
-   * Clear selected file
+   * Cancel the running import job
+   */
+  const handleCancelJob = async () => {
+    if (!job) return;
+
+    setIsCancelling(true);
+    try {
+      const response = await fetch(`/api/import/jobs/${job.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'CANCELLED' }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to cancel import');
+      }
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Failed to cancel import', 'error');
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  /**
+   * Clear the selected file and pasted contacts
    */
   const handleClear = () => {
     setFile(null);
     setSummary(null);
+    setPreview(null);
+    setJob(null);
+    setHeaders([]);
+    setSamples({});
+    setMapping({});
+    setWorkbook(null);
+    setCsvSample(null);
+    setDetectedFormat(null);
+    setCsvFormat(null);
+    setPastedContacts([]);
   };
 
   return (
     <>
       <Header
         title="Import CSV"
-        description="Upload a CSV file to import email contacts"
+        description="Upload a CSV or Excel file, or paste text, to import email contacts"
       />
 
       <div className={styles.container}>
         {/* Upload Card */}
         <Card>
-          <CardHeader title="Upload CSV File" />
+          <CardHeader title="Upload File" />
           <CardContent>
             {/* Brand Selection */}
             <div className={styles.journalSelect}>
@@ -192,74 +648,277 @@ export default function ImportPage() {
                 label="Select Journal *"
                 options={[
                   { value: '', label: selectedBrand ? 'Choose a journal...' : 'Select a brand first' },
+                  ...(selectedBrand && !isPaste
+                    ? [{ value: MULTI_JOURNAL, label: 'Multiple journals (from a Journal / ISSN column)' }]
+                    : []),
                   ...filteredJournals.map((j) => ({ value: j.id, label: j.name })),
                 ]}
                 value={selectedJournal}
                 onChange={(e) => setSelectedJournal(e.target.value)}
-                helperText="Select the journal where contacts will be imported"
+                helperText={isMultiJournal
+                  ? 'Each row is imported into the journal named in its Journal / ISSN column'
+                  : 'Select the journal where contacts will be imported'}
                 fullWidth
                 required
                 disabled={!selectedBrand}
               />
             </div>
 
-            {/* Drop Zone */}
-            <div
-              className={`${styles.dropZone} ${isDragging ? styles.dragging : ''} ${file ? styles.hasFile : ''}`}
-              onDragOver={(e) => {
-                e.preventDefault();
-                setIsDragging(true);
-              }}
-              onDragLeave={() => setIsDragging(false)}
-              onDrop={handleDrop}
-              onClick={() => document.getElementById('file-input')?.click()}
-            >
-              <input
-                id="file-input"
-                type="file"
-                accept=".csv"
-                onChange={handleFileSelect}
-                className={styles.fileInput}
+            {/* Unknown Journal Handling */}
+            {isMultiJournal && (
+              <div className={styles.journalSelect}>
+                <Select
+                  label="Unknown Journals"
+                  options={[
+                    { value: 'reject', label: 'Reject their rows' },
+                    { value: 'create', label: 'Create the journal' },
+                  ]}
+                  value={createJournals ? 'create' : 'reject'}
+                  onChange={(e) => setCreateJournals(e.target.value === 'create')}
+                  helperText="What to do with rows whose journal is not found under the selected brand"
+                  fullWidth
+                  disabled={isJobActive}
+                />
+              </div>
+            )}
+
+            {/* Existing Contact Handling */}
+            <div className={styles.journalSelect}>
+              <Select
+                label="Existing Contacts"
+                options={IMPORT_MODES.map((m) => ({ value: m.mode, label: m.label }))}
+                value={mode}
+                onChange={(e) => setMode(e.target.value as ImportMode)}
+                helperText={IMPORT_MODES.find((m) => m.mode === mode)?.description}
+                fullWidth
+                disabled={isJobActive}
               />
-              {file ? (
-                <div className={styles.fileInfo}>
-                  <svg className={styles.fileIcon} fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m2.25 0H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
-                  </svg>
-                  <p className={styles.fileName}>{file.name}</p>
-                  <p className={styles.fileSize}>{(file.size / 1024).toFixed(1)} KB</p>
-                </div>
-              ) : (
-                <div className={styles.dropContent}>
-                  <svg className={styles.uploadIcon} fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5m-13.5-9L12 3m0 0l4.5 4.5M12 3v13.5" />
-                  </svg>
-                  <p className={styles.dropText}>
-                    Drag and drop your CSV file here, or click to browse
-                  </p>
-                  <p className={styles.dropHint}>Maximum file size: 10MB</p>
-                </div>
-              )}
             </div>
 
+            {/* Import Source */}
+            <div className={styles.sourceTabs} role="tablist">
+              {([
+                { value: 'file', label: 'Upload file' },
+                { value: 'paste', label: 'Paste text' },
+              ] as const).map((tab) => (
+                <button
+                  key={tab.value}
+                  type="button"
+                  role="tab"
+                  aria-selected={source === tab.value}
+                  className={`${styles.sourceTab} ${source === tab.value ? styles.activeSourceTab : ''}`}
+                  onClick={() => selectSource(tab.value)}
+                  disabled={isJobActive}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+
+            {/* Pasted Text */}
+            {isPaste && (
+              <PasteExtractor
+                contacts={pastedContacts}
+                onChange={setPastedContacts}
+                disabled={isJobActive}
+              />
+            )}
+
+            {!isPaste && (
+              <>
+                {/* Drop Zone */}
+                <div
+                  className={`${styles.dropZone} ${isDragging ? styles.dragging : ''} ${file ? styles.hasFile : ''}`}
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    setIsDragging(true);
+                  }}
+                  onDragLeave={() => setIsDragging(false)}
+                  onDrop={handleDrop}
+                  onClick={() => document.getElementById('file-input')?.click()}
+                >
+                  <input
+                    id="file-input"
+                    type="file"
+                    accept=".csv,.xlsx"
+                    onChange={handleFileSelect}
+                    className={styles.fileInput}
+                  />
+                  {file ? (
+                    <div className={styles.fileInfo}>
+                      <svg className={styles.fileIcon} fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m2.25 0H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
+                      </svg>
+                      <p className={styles.fileName}>{file.name}</p>
+                      <p className={styles.fileSize}>{(file.size / 1024).toFixed(1)} KB</p>
+                    </div>
+                  ) : (
+                    <div className={styles.dropContent}>
+                      <svg className={styles.uploadIcon} fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5m-13.5-9L12 3m0 0l4.5 4.5M12 3v13.5" />
+                      </svg>
+                      <p className={styles.dropText}>
+                        Drag and drop your CSV or Excel file here, or click to browse
+                      </p>
+                      <p className={styles.dropHint}>Maximum file size: 500MB (files up to 10MB can be previewed first)</p>
+                    </div>
+                  )}
+                </div>
+
+                {/* Workbook Sheet and Header Row */}
+                {workbook && (
+                  <div className={styles.sheetOptions}>
+                    <Select
+                      label="Sheet"
+                      options={workbook.sheetNames.map((name) => ({ value: name, label: name }))}
+                      value={sheet}
+                      onChange={(e) => setSheet(e.target.value)}
+                      fullWidth
+                      disabled={isJobActive}
+                    />
+                    <Input
+                      label="Header Row"
+                      type="number"
+                      min={1}
+                      value={headerRow}
+                      onChange={(e) => setHeaderRow(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                      helperText="Row that contains the column names; rows above it are ignored"
+                      fullWidth
+                      disabled={isJobActive}
+                    />
+                  </div>
+                )}
+
+                {/* CSV Encoding and Delimiter */}
+                {csvFormat && (
+                  <div className={styles.sheetOptions}>
+                    <Select
+                      label="Encoding"
+                      options={CSV_ENCODINGS.map((e) => ({
+                        value: e.encoding,
+                        label: e.encoding === detectedFormat?.encoding ? `${e.label} (detected)` : e.label,
+                      }))}
+                      value={csvFormat.encoding}
+                      onChange={(e) => setCsvFormat({ ...csvFormat, encoding: e.target.value as CsvEncoding })}
+                      helperText="Change it if accented characters look wrong"
+                      fullWidth
+                      disabled={isJobActive}
+                    />
+                    <Select
+                      label="Delimiter"
+                      options={CSV_DELIMITERS.map((d) => ({
+                        value: d.delimiter,
+                        label: d.delimiter === detectedFormat?.delimiter ? `${d.label} (detected)` : d.label,
+                      }))}
+                      value={csvFormat.delimiter}
+                      onChange={(e) => setCsvFormat({ ...csvFormat, delimiter: e.target.value as CsvDelimiter })}
+                      helperText="Change it if the columns are not split correctly"
+                      fullWidth
+                      disabled={isJobActive}
+                    />
+                  </div>
+                )}
+              </>
+            )}
+
             {/* Actions */}
             <div className={styles.actions}>
-              {file && (
-                <Button variant="ghost" onClick={handleClear}>
+              {uploadFile && (
+                <Button variant="ghost" onClick={handleClear} disabled={isJobActive}>
                   Clear
                 </Button>
               )}
-              <Button
-                onClick={handleUpload}
-                isLoading={isUploading}
-                disabled={!file || !selectedBrand || !selectedJournal}
-              >
-                {isUploading ? 'Importing...' : 'Import'}
-              </Button>
+              {canPreview ? (
+                <Button
+                  onClick={handlePreview}
+                  isLoading={isPreviewing}
+                  disabled={!uploadFile || !selectedBrand || !selectedJournal || mappingErrors.length > 0 || isUploading || isJobActive}
+                >
+                  {isPreviewing ? 'Checking...' : 'Preview Import'}
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleCommit}
+                  isLoading={isUploading}
+                  disabled={!selectedBrand || !selectedJournal || mappingErrors.length > 0 || isJobActive}
+                >
+                  {isUploading ? 'Uploading...' : 'Start Import'}
+                </Button>
+              )}
             </div>
           </CardContent>
         </Card>
 
+        {/* Column Mapping Card */}
+        {!isPaste && file && headers.length > 0 && (
+          <Card>
+            <CardHeader
+              title="Map Columns"
+              description="Choose which contact field each column of your file should be imported into"
+            />
+            <CardContent>
+              <ColumnMapper
+                headers={headers}
+                samples={samples}
+                mapping={mapping}
+                requiredFields={requiredFields}
+                onChange={setMapping}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Preview Card */}
+        {preview && (
+          <Card>
+            <CardHeader
+              title="Import Preview"
+              description="Nothing has been written yet. Only valid rows are imported when you commit."
+            />
+            <CardContent>
+              {preview.format && (
+                <p className={styles.formatInfo}>
+                  File read as {describeCsvFormat(preview.format)}
+                </p>
+              )}
+              <PreviewReport
+                summary={preview.summary}
+                rows={preview.rows}
+                onCommit={handleCommit}
+                onCancel={() => setPreview(null)}
+                isCommitting={isUploading}
+                showJournal={isMultiJournal}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Job Progress Card */}
+        {job && isJobActive && (
+          <Card>
+            <CardHeader
+              title="Importing..."
+              description="The import runs in the background. You can leave this page; rows are written in batches."
+            />
+            <CardContent>
+              <ProgressBar value={job.progress} label="Import progress" showValue />
+              <p className={styles.progressInfo}>
+                {formatNumber(job.rowsProcessed)} rows processed
+                {' - '}{formatNumber(job.imported)} imported,
+                {' '}{formatNumber(job.updated)} updated,
+                {' '}{formatNumber(job.duplicates)} duplicates,
+                {' '}{formatNumber(job.suppressed)} suppressed,
+                {' '}{formatNumber(job.errors)} errors
+              </p>
+              <div className={styles.actions}>
+                <Button variant="danger" onClick={handleCancelJob} isLoading={isCancelling}>
+                  Cancel Import
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Summary Card */}
         {summary && (
           <Card>
@@ -274,10 +933,18 @@ export default function ImportPage() {
                   <span className={styles.summaryLabel}>Imported</span>
                   <span className={styles.summaryValue}>{summary.imported}</span>
                 </div>
+                <div className={`${styles.summaryItem} ${styles.primary}`}>
+                  <span className={styles.summaryLabel}>Updated</span>
+                  <span className={styles.summaryValue}>{summary.updated}</span>
+                </div>
                 <div className={`${styles.summaryItem} ${styles.warning}`}>
-                  <span className={styles.summaryLabel}>Duplicates Skipped</span>
+                  <span className={styles.summaryLabel}>Skipped</span>
                   <span className={styles.summaryValue}>{summary.duplicates}</span>
                 </div>
+                <div className={styles.summaryItem}>
+                  <span className={styles.summaryLabel}>Suppressed</span>
+                  <span className={styles.summaryValue}>{summary.suppressed}</span>
+                </div>
                 <div className={`${styles.summaryItem} ${styles.error}`}>
                   <span className={styles.summaryLabel}>Errors</span>
                   <span className={styles.summaryValue}>{summary.errors}</span>
@@ -292,6 +959,51 @@ export default function ImportPage() {
                       <li key={index}>{error}</li>
                     ))}
                   </ul>
+                  {summary.errors > summary.errorDetails.length && (
+                    <p className={styles.errorMore}>
+                      and {formatNumber(summary.errors - summary.errorDetails.length)} more
+                    </p>
+                  )}
+                  {job && (
+                    <a
+                      href={`/api/import/batches/${job.batchId}/errors`}
+                      className={styles.downloadLink}
+                      download
+                    >
+                      Download errors.csv
+                    </a>
+                  )}
+                  <p className={styles.errorHint}>
+                    The file lists every rejected row with its line number and reason, using your original columns. Fix the rows and re-upload it.
+                  </p>
+                </div>
+              )}
+
+              {(summary.journals.length > 1 || summary.journals.some((j) => j.created)) && (
+                <div className={styles.journalBreakdown}>
+                  <table className={styles.table}>
+                    <thead>
+                      <tr>
+                        <th>Journal</th>
+                        <th>Imported</th>
+                        <th>Updated</th>
+                        <th>Skipped</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {summary.journals.map((j) => (
+                        <tr key={j.journalId}>
+                          <td>
+                            {j.name}
+                            {j.created && <Badge variant="primary" className={styles.newBadge}>New</Badge>}
+                          </td>
+                          <td className={styles.numberCell}>{formatNumber(j.imported)}</td>
+                          <td className={styles.numberCell}>{formatNumber(j.updated)}</td>
+                          <td className={styles.numberCell}>{formatNumber(j.duplicates)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
                 </div>
               )}
             </CardContent>
@@ -300,7 +1012,7 @@ export default function ImportPage() {
 
         {/* Instructions Card */}
         <Card>
-          <CardHeader title="CSV Format Requirements" />
+          <CardHeader title="File Format Requirements" />
           <CardContent>
             <div className={styles.instructions}>
               <h4>Required Columns:</h4>
@@ -314,6 +1026,7 @@ export default function ImportPage() {
                 <li><code>phone</code> - Phone number</li>
                 <li><code>article_title</code> - Article or publication title</li>
                 <li><code>year</code> - Year of data collection (e.g., 2024)</li>
+                <li><code>journal</code> or <code>issn</code> - Journal name or ISSN (required for multi-journal imports)</li>
               </ul>
 
               <h4>Example CSV:</h4>
@@ -325,8 +1038,11 @@ Jane Smith,jane@example.com,,Machine Learning Fundamentals,2025`}
 
               <h4>Notes:</h4>
               <ul>
-                <li>Maximum file size is 10MB</li>
+                <li>Maximum file size is 500MB (50MB for Excel files); files larger than 10MB are imported without a preview</li>
+                <li>Excel files (<code>.xlsx</code>) are imported directly - choose the sheet and the row that holds the column names. Save older <code>.xls</code> files as <code>.xlsx</code> first</li>
+                <li>Imports run in the background and can be cancelled while in progress</li>
                 <li>You must select a brand and journal before importing</li>
+                <li>Columns with other names (e.g. <code>Author Name</code>, <code>E-mail</code>, <code>Paper Title</code>) can be mapped after selecting the file</li>
                 <li>Duplicate emails within the same journal will be skipped</li>
                 <li>Same email can exist in different journals</li>
                 <li>Rows with missing name or email will be skipped</li>
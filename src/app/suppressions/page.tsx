@@ -0,0 +1,466 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Header } from '@/components/layout';
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  ConfirmModal,
+  Input,
+  Modal,
+  Select,
+  Spinner,
+  useToast,
+} from '@/components/ui';
+import { debounce, formatDate, formatNumber } from '@/lib/utils';
+import styles from './page.module.css';
+
+/**
+ * Suppression list entry interface
+ */
+interface Suppression {
+  id: string;
+  type: 'EMAIL' | 'DOMAIN';
+  value: string;
+  reason: string | null;
+  source: string | null;
+  createdBy: string;
+  suppressedAt: string;
+}
+
+/**
+ * Result of a suppression list upload
+ */
+interface UploadResult {
+  total: number;
+  added: number;
+  existing: number;
+  invalid: number;
+  errors: string[];
+  contacts: number;
+}
+
+/**
+ * Add suppression form data interface
+ */
+interface SuppressionFormData {
+  value: string;
+  reason: string;
+}
+
+const initialFormData: SuppressionFormData = {
+  value: '',
+  reason: '',
+};
+
+/**
+ * Common suppression reasons
+ */
+const REASON_OPTIONS = [
+  { value: '', label: 'No reason' },
+  { value: 'Unsubscribed', label: 'Unsubscribed' },
+  { value: 'Bounced', label: 'Bounced' },
+  { value: 'Complaint', label: 'Complaint' },
+  { value: 'Requested removal', label: 'Requested removal' },
+];
+
+/**
+ * Suppressions Page
+ *
+ * Manages the global suppression list: email addresses and domains that
+ * imports reject and exports leave out. Entries are added one by one or
+ * uploaded as a CSV file.
+ */
+export default function SuppressionsPage() {
+  const { addToast } = useToast();
+  const [suppressions, setSuppressions] = useState<Suppression[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [search, setSearch] = useState('');
+  const [typeFilter, setTypeFilter] = useState('');
+
+  // Add modal states
+  const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [formData, setFormData] = useState<SuppressionFormData>(initialFormData);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Delete modal states
+  const [selectedSuppression, setSelectedSuppression] = useState<Suppression | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  // Upload states
+  const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const [uploadReason, setUploadReason] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadResult, setUploadResult] = useState<UploadResult | null>(null);
+
+  /**
+   * Fetch suppressions from API
+   */
+  const fetchSuppressions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: '20',
+      });
+      if (search) params.set('search', search);
+      if (typeFilter) params.set('type', typeFilter);
+
+      const response = await fetch(`/api/suppressions?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch suppressions');
+
+      const data = await response.json();
+      setSuppressions(data.suppressions);
+      setTotalPages(data.pagination.totalPages || 1);
+      setTotal(data.pagination.total);
+    } catch (error) {
+      addToast('Failed to load suppressions', 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [page, search, typeFilter, addToast]);
+
+  useEffect(() => {
+    fetchSuppressions();
+  }, [fetchSuppressions]);
+
+  /**
+   * Debounced search handler
+   */
+  const debouncedSearch = useCallback(
+    debounce((value: string) => {
+      setSearch(value);
+      setPage(1);
+    }, 300),
+    [],
+  );
+
+  /**
+   * Handle add form input changes
+   */
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  /**
+   * Add a single email address or domain
+   */
+  const handleAdd = async () => {
+    if (!formData.value.trim()) {
+      addToast('Enter an email address or domain', 'error');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/suppressions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...formData, source: 'Added manually' }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add suppression');
+      }
+
+      addToast(
+        data.contacts > 0
+          ? `${data.value} suppressed (${formatNumber(data.contacts)} contacts)`
+          : `${data.value} suppressed`,
+        'success',
+      );
+      setIsAddModalOpen(false);
+      setFormData(initialFormData);
+      fetchSuppressions();
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Failed to add suppression', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * Upload a CSV suppression list
+   */
+  const handleUpload = async () => {
+    if (!uploadFile) return;
+
+    setIsUploading(true);
+    setUploadResult(null);
+    try {
+      const formDataToSend = new FormData();
+      formDataToSend.append('file', uploadFile);
+      formDataToSend.append('reason', uploadReason);
+
+      const response = await fetch('/api/suppressions/upload', {
+        method: 'POST',
+        body: formDataToSend,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details?.[0] || data.error || 'Upload failed');
+      }
+
+      setUploadResult(data);
+      addToast(`Suppression list uploaded - ${formatNumber(data.added)} added`, 'success');
+      setPage(1);
+      fetchSuppressions();
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Upload failed', 'error');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  /**
+   * Remove the selected suppression
+   */
+  const handleDelete = async () => {
+    if (!selectedSuppression) return;
+
+    setIsDeleting(true);
+    try {
+      const response = await fetch(`/api/suppressions/${selectedSuppression.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to remove suppression');
+      }
+
+      addToast(`${selectedSuppression.value} removed from the suppression list`, 'success');
+      setSelectedSuppression(null);
+      fetchSuppressions();
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Failed to remove suppression', 'error');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <>
+      <Header
+        title="Suppressions"
+        description={`Email addresses and domains that are never imported or exported (${formatNumber(total)} total)`}
+      />
+
+      <div className={styles.container}>
+        {/* Upload Card */}
+        <Card>
+          <CardHeader
+            title="Upload Suppression List"
+            description='CSV file with an "email" or "domain" column; optional reason, source and date columns'
+          />
+          <CardContent>
+            <div className={styles.uploadGrid}>
+              <Input
+                label="File"
+                type="file"
+                accept=".csv"
+                onChange={(e) => setUploadFile(e.target.files?.[0] ?? null)}
+                fullWidth
+              />
+              <Select
+                label="Reason (for rows without one)"
+                options={REASON_OPTIONS}
+                value={uploadReason}
+                onChange={(e) => setUploadReason(e.target.value)}
+                fullWidth
+              />
+            </div>
+            <div className={styles.actions}>
+              <Button onClick={handleUpload} disabled={!uploadFile} isLoading={isUploading}>
+                Upload
+              </Button>
+            </div>
+
+            {uploadResult && (
+              <div className={styles.uploadResult}>
+                <p>
+                  {formatNumber(uploadResult.total)} rows: {formatNumber(uploadResult.added)} added,
+                  {' '}{formatNumber(uploadResult.existing)} already suppressed,
+                  {' '}{formatNumber(uploadResult.invalid)} invalid
+                  {uploadResult.contacts > 0 && ` - ${formatNumber(uploadResult.contacts)} stored contacts suppressed`}
+                </p>
+                {uploadResult.errors.length > 0 && (
+                  <ul className={styles.errorList}>
+                    {uploadResult.errors.map((error) => (
+                      <li key={error}>{error}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Suppression List Card */}
+        <Card noPadding>
+          <div className={styles.filters}>
+            <Input
+              placeholder="Search by email, domain or reason..."
+              onChange={(e) => debouncedSearch(e.target.value)}
+            />
+            <Select
+              options={[
+                { value: '', label: 'All Types' },
+                { value: 'EMAIL', label: 'Email addresses' },
+                { value: 'DOMAIN', label: 'Domains' },
+              ]}
+              value={typeFilter}
+              onChange={(e) => {
+                setTypeFilter(e.target.value);
+                setPage(1);
+              }}
+            />
+            <div className={styles.filterActions}>
+              <Button onClick={() => setIsAddModalOpen(true)}>
+                Add Suppression
+              </Button>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className={styles.loading}>
+              <Spinner size="lg" />
+            </div>
+          ) : suppressions.length === 0 ? (
+            <div className={styles.empty}>
+              <p>No suppressions found</p>
+            </div>
+          ) : (
+            <div className={styles.tableContainer}>
+              <table className={styles.table}>
+                <thead>
+                  <tr>
+                    <th>Email / Domain</th>
+                    <th>Type</th>
+                    <th>Reason</th>
+                    <th>Source</th>
+                    <th>Added By</th>
+                    <th>Suppressed</th>
+                    <th>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {suppressions.map((suppression) => (
+                    <tr key={suppression.id}>
+                      <td className={styles.valueCell}>{suppression.value}</td>
+                      <td>
+                        <Badge variant={suppression.type === 'DOMAIN' ? 'warning' : 'neutral'}>
+                          {suppression.type === 'DOMAIN' ? 'Domain' : 'Email'}
+                        </Badge>
+                      </td>
+                      <td>{suppression.reason || '-'}</td>
+                      <td className={styles.sourceCell} title={suppression.source ?? undefined}>
+                        {suppression.source || '-'}
+                      </td>
+                      <td className={styles.userCell}>{suppression.createdBy}</td>
+                      <td>{formatDate(suppression.suppressedAt)}</td>
+                      <td>
+                        <Button
+                          variant="danger"
+                          size="sm"
+                          onClick={() => setSelectedSuppression(suppression)}
+                        >
+                          Remove
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className={styles.pagination}>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={page === 1}
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+              >
+                Previous
+              </Button>
+              <span className={styles.pageInfo}>
+                Page {page} of {totalPages}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={page === totalPages}
+                onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+              >
+                Next
+              </Button>
+            </div>
+          )}
+        </Card>
+      </div>
+
+      {/* Add Suppression Modal */}
+      <Modal
+        isOpen={isAddModalOpen}
+        onClose={() => setIsAddModalOpen(false)}
+        title="Add Suppression"
+        size="md"
+        footer={
+          <>
+            <Button variant="ghost" onClick={() => setIsAddModalOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleAdd} isLoading={isSaving}>
+              Add
+            </Button>
+          </>
+        }
+      >
+        <div className={styles.form}>
+          <Input
+            label="Email Address or Domain"
+            name="value"
+            value={formData.value}
+            onChange={handleInputChange}
+            placeholder="e.g. jane@example.org or example.org"
+            helperText="A domain also suppresses its subdomains"
+            fullWidth
+          />
+          <Select
+            label="Reason"
+            name="reason"
+            options={REASON_OPTIONS}
+            value={formData.reason}
+            onChange={handleInputChange}
+            fullWidth
+          />
+        </div>
+      </Modal>
+
+      {/* Remove Confirmation Modal */}
+      <ConfirmModal
+        isOpen={Boolean(selectedSuppression)}
+        onClose={() => setSelectedSuppression(null)}
+        onConfirm={handleDelete}
+        title="Remove Suppression"
+        message={`Remove "${selectedSuppression?.value}" from the suppression list? Its contacts can be imported and exported again.`}
+        confirmText="Remove"
+        isLoading={isDeleting}
+      />
+    </>
+  );
+}
@@ -0,0 +1,188 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button, Input, Modal, Select } from '@/components/ui';
+import { MAX_CONTACT_YEAR, MIN_CONTACT_YEAR, validateContact } from '@/lib/contactValidation';
+import type { ContactFieldErrors } from '@/lib/contactValidation';
+import styles from './ContactFormModal.module.css';
+
+/**
+ * Contact form values (as typed)
+ */
+export interface ContactFormValues {
+  name: string;
+  email: string;
+  phone: string;
+  articleTitle: string;
+  journalId: string;
+  year: string;
+}
+
+const emptyValues: ContactFormValues = {
+  name: '',
+  email: '',
+  phone: '',
+  articleTitle: '',
+  journalId: '',
+  year: '',
+};
+
+const noErrors: ContactFieldErrors = {};
+
+/**
+ * ContactFormModal component props
+ */
+export interface ContactFormModalProps {
+  /** Whether the modal is open */
+  isOpen: boolean;
+  /** Callback when the modal should close */
+  onClose: () => void;
+  /** Contact being edited (a new contact is created without one) */
+  contact?: ContactFormValues | null;
+  /** Journals to choose from */
+  journals: Array<{ id: string; name: string; brand: string }>;
+  /** Callback to save the contact (called with valid values only) */
+  onSave: (values: ContactFormValues) => void;
+  /** Whether the contact is being saved */
+  isSaving?: boolean;
+  /** Errors returned by the API, per field (e.g. a duplicate email) */
+  errors?: ContactFieldErrors;
+}
+
+/**
+ * ContactFormModal component
+ *
+ * Creates or edits a contact. Fields are checked before saving, and errors
+ * from the API (such as an email already in the journal) are shown next to
+ * the field they concern.
+ */
+function ContactFormModal({
+  isOpen,
+  onClose,
+  contact = null,
+  journals,
+  onSave,
+  isSaving = false,
+  errors = noErrors,
+}: ContactFormModalProps) {
+  const [values, setValues] = useState<ContactFormValues>(emptyValues);
+  const [fieldErrors, setFieldErrors] = useState<ContactFieldErrors>({});
+
+  // Start from the contact (or a blank form) each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setValues(contact ?? emptyValues);
+    setFieldErrors({});
+  }, [isOpen, contact]);
+
+  // Show the API's errors next to their fields
+  useEffect(() => {
+    setFieldErrors(errors);
+  }, [errors]);
+
+  /**
+   * Handle input changes (clears the error of the changed field)
+   */
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setValues((prev) => ({ ...prev, [name]: value }));
+    setFieldErrors((prev) => ({ ...prev, [name]: undefined }));
+  };
+
+  /**
+   * Check the fields, then save
+   */
+  const handleSubmit = () => {
+    const validation = validateContact(values);
+    if ('errors' in validation) {
+      setFieldErrors(validation.errors);
+      return;
+    }
+    onSave(values);
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={contact ? 'Edit Contact' : 'Add Contact'}
+      size="md"
+      footer={
+        <>
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} isLoading={isSaving}>
+            {contact ? 'Save' : 'Add Contact'}
+          </Button>
+        </>
+      }
+    >
+      <div className={styles.form}>
+        <Input
+          label="Name"
+          name="name"
+          value={values.name}
+          onChange={handleChange}
+          error={fieldErrors.name}
+          required
+          fullWidth
+        />
+        <Input
+          label="Email"
+          name="email"
+          type="email"
+          value={values.email}
+          onChange={handleChange}
+          error={fieldErrors.email}
+          required
+          fullWidth
+        />
+        <Select
+          label="Journal"
+          name="journalId"
+          options={[
+            { value: '', label: 'Select a journal' },
+            ...journals.map((j) => ({ value: j.id, label: `${j.name} (${j.brand})` })),
+          ]}
+          value={values.journalId}
+          onChange={handleChange}
+          error={fieldErrors.journalId}
+          fullWidth
+        />
+        <Input
+          label="Article Title"
+          name="articleTitle"
+          value={values.articleTitle}
+          onChange={handleChange}
+          error={fieldErrors.articleTitle}
+          fullWidth
+        />
+        <div className={styles.row}>
+          <Input
+            label="Phone"
+            name="phone"
+            value={values.phone}
+            onChange={handleChange}
+            error={fieldErrors.phone}
+            fullWidth
+          />
+          <Input
+            label="Year"
+            name="year"
+            type="number"
+            min={MIN_CONTACT_YEAR}
+            max={MAX_CONTACT_YEAR}
+            value={values.year}
+            onChange={handleChange}
+            error={fieldErrors.year}
+            helperText="Year of data collection"
+            fullWidth
+          />
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+export default ContactFormModal;
@@ -0,0 +1,2 @@
+export { default as ContactFormModal } from './ContactFormModal';
+export type { ContactFormModalProps, ContactFormValues } from './ContactFormModal';
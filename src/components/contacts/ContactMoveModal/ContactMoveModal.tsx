@@ -0,0 +1,103 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button, Modal, Select } from '@/components/ui';
+import { formatNumber } from '@/lib/utils';
+import type { MoveConflictMode } from '@/lib/contactBulk';
+import styles from './ContactMoveModal.module.css';
+
+/**
+ * What happens to contacts whose address is already in the target journal
+ */
+const CONFLICT_OPTIONS: Array<{ value: MoveConflictMode; label: string }> = [
+  { value: 'skip', label: 'Leave them in their current journal' },
+  { value: 'delete', label: 'Delete them (the address stays in the target journal)' },
+];
+
+/**
+ * ContactMoveModal component props
+ */
+export interface ContactMoveModalProps {
+  /** Whether the modal is open */
+  isOpen: boolean;
+  /** Callback when the modal should close */
+  onClose: () => void;
+  /** Number of contacts moved */
+  count: number;
+  /** Journals to move to */
+  journals: Array<{ id: string; name: string; brand: string }>;
+  /** Callback to move the contacts */
+  onSave: (journalId: string, onConflict: MoveConflictMode) => void;
+  /** Whether the contacts are being moved */
+  isSaving?: boolean;
+}
+
+/**
+ * ContactMoveModal component
+ *
+ * Moves selected contacts to another journal, choosing what happens to
+ * contacts whose email address is already in that journal.
+ */
+function ContactMoveModal({
+  isOpen,
+  onClose,
+  count,
+  journals,
+  onSave,
+  isSaving = false,
+}: ContactMoveModalProps) {
+  const [journalId, setJournalId] = useState('');
+  const [onConflict, setOnConflict] = useState<MoveConflictMode>('skip');
+
+  // Start from a blank choice each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setJournalId('');
+    setOnConflict('skip');
+  }, [isOpen]);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Move Contacts"
+      description={`${formatNumber(count)} selected contacts`}
+      size="md"
+      footer={
+        <>
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => onSave(journalId, onConflict)} isLoading={isSaving} disabled={!journalId}>
+            Move
+          </Button>
+        </>
+      }
+    >
+      <div className={styles.form}>
+        <Select
+          label="Journal"
+          name="journalId"
+          options={[
+            { value: '', label: 'Select a journal' },
+            ...journals.map((j) => ({ value: j.id, label: `${j.name} (${j.brand})` })),
+          ]}
+          value={journalId}
+          onChange={(e) => setJournalId(e.target.value)}
+          fullWidth
+        />
+        <Select
+          label="Addresses already in that journal"
+          name="onConflict"
+          options={CONFLICT_OPTIONS}
+          value={onConflict}
+          onChange={(e) => setOnConflict(e.target.value as MoveConflictMode)}
+          helperText="An email address can only be once in a journal"
+          fullWidth
+        />
+      </div>
+    </Modal>
+  );
+}
+
+export default ContactMoveModal;
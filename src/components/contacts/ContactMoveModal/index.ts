@@ -0,0 +1,2 @@
+export { default as ContactMoveModal } from './ContactMoveModal';
+export type { ContactMoveModalProps } from './ContactMoveModal';
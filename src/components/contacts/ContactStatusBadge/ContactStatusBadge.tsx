@@ -0,0 +1,35 @@
+import React from 'react';
+import type { ContactStatus } from '@prisma/client';
+import { Badge, type BadgeVariant } from '@/components/ui';
+import { getContactStatusLabel } from '@/lib/contactStatus';
+
+/**
+ * ContactStatusBadge component props
+ */
+export interface ContactStatusBadgeProps {
+  status: ContactStatus;
+  /** Additional class names */
+  className?: string;
+}
+
+const STATUS_VARIANTS: Record<ContactStatus, BadgeVariant> = {
+  ACTIVE: 'success',
+  BOUNCED: 'error',
+  UNSUBSCRIBED: 'neutral',
+  COMPLAINED: 'warning',
+};
+
+/**
+ * ContactStatusBadge component
+ *
+ * Shows the deliverability status of a contact.
+ */
+function ContactStatusBadge({ status, className }: ContactStatusBadgeProps) {
+  return (
+    <Badge variant={STATUS_VARIANTS[status]} className={className}>
+      {getContactStatusLabel(status)}
+    </Badge>
+  );
+}
+
+export default ContactStatusBadge;
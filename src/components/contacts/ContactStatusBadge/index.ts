@@ -0,0 +1,2 @@
+export { default as ContactStatusBadge } from './ContactStatusBadge';
+export type { ContactStatusBadgeProps } from './ContactStatusBadge';
@@ -0,0 +1,154 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type { ContactStatus } from '@prisma/client';
+import { Button, Input, Modal, Select, Spinner } from '@/components/ui';
+import { CONTACT_STATUSES, MAX_STATUS_REASON_LENGTH } from '@/lib/contactStatus';
+import { formatDateTime, formatNumber } from '@/lib/utils';
+import { ContactStatusBadge } from '@/components/contacts/ContactStatusBadge';
+import styles from './ContactStatusModal.module.css';
+
+/**
+ * Status history entry (see GET /api/contacts/[id]/status)
+ */
+interface StatusChange {
+  id: string;
+  status: ContactStatus;
+  reason: string | null;
+  changedBy: string;
+  createdAt: string;
+}
+
+/**
+ * ContactStatusModal component props
+ */
+export interface ContactStatusModalProps {
+  /** Whether the modal is open */
+  isOpen: boolean;
+  /** Callback when the modal should close */
+  onClose: () => void;
+  /** Contact whose status is changed (its history is shown) */
+  contact?: { id: string; email: string; status: ContactStatus } | null;
+  /** Number of contacts changed at once (bulk change, without a contact) */
+  count?: number;
+  /** Callback to save the new status */
+  onSave: (status: ContactStatus, reason: string) => void;
+  /** Whether the change is being saved */
+  isSaving?: boolean;
+}
+
+/**
+ * ContactStatusModal component
+ *
+ * Changes the status of one contact (showing its status history) or of
+ * many contacts at once, with an optional reason.
+ */
+function ContactStatusModal({
+  isOpen,
+  onClose,
+  contact = null,
+  count = 0,
+  onSave,
+  isSaving = false,
+}: ContactStatusModalProps) {
+  const [status, setStatus] = useState<ContactStatus>('ACTIVE');
+  const [reason, setReason] = useState('');
+  const [history, setHistory] = useState<StatusChange[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+
+  // Start from the contact's current status each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setStatus(contact?.status ?? 'BOUNCED');
+    setReason('');
+    setHistory([]);
+    if (!contact) return;
+
+    let cancelled = false;
+    setIsLoadingHistory(true);
+    fetch(`/api/contacts/${contact.id}/status`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled && data) setHistory(data.statusChanges);
+      })
+      .catch(() => undefined)
+      .finally(() => {
+        if (!cancelled) setIsLoadingHistory(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, contact]);
+
+  const isUnchanged = contact !== null && status === contact.status;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Change Status"
+      description={contact ? contact.email : `${formatNumber(count)} contacts matching the current filters`}
+      size="md"
+      footer={
+        <>
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => onSave(status, reason)} isLoading={isSaving} disabled={isUnchanged}>
+            Update
+          </Button>
+        </>
+      }
+    >
+      <div className={styles.form}>
+        <Select
+          label="Status"
+          name="status"
+          options={CONTACT_STATUSES.map(({ status: value, label }) => ({ value, label }))}
+          value={status}
+          onChange={(e) => setStatus(e.target.value as ContactStatus)}
+          helperText={CONTACT_STATUSES.find((s) => s.status === status)?.description}
+          fullWidth
+        />
+        <Input
+          label="Reason"
+          name="reason"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="e.g. 550 5.1.1 mailbox unavailable"
+          maxLength={MAX_STATUS_REASON_LENGTH}
+          fullWidth
+        />
+
+        {contact && (
+          <div>
+            <p className={styles.historyTitle}>History</p>
+            {isLoadingHistory ? (
+              <div className={styles.loading}>
+                <Spinner size="sm" />
+              </div>
+            ) : history.length === 0 ? (
+              <p className={styles.empty}>No status changes yet</p>
+            ) : (
+              <ul className={styles.history}>
+                {history.map((change) => (
+                  <li key={change.id} className={styles.historyItem}>
+                    <ContactStatusBadge status={change.status} />
+                    <div className={styles.historyText}>
+                      {change.reason && <p className={styles.reason}>{change.reason}</p>}
+                      <p className={styles.meta}>
+                        {formatDateTime(change.createdAt)} by {change.changedBy}
+                      </p>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
+
+export default ContactStatusModal;
@@ -0,0 +1,2 @@
+export { default as ContactStatusModal } from './ContactStatusModal';
+export type { ContactStatusModalProps } from './ContactStatusModal';
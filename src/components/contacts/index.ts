@@ -0,0 +1,12 @@
+/**
+ * Contacts Components barrel export
+ */
+
+export { ContactFormModal } from './ContactFormModal';
+export type { ContactFormModalProps, ContactFormValues } from './ContactFormModal';
+export { ContactMoveModal } from './ContactMoveModal';
+export type { ContactMoveModalProps } from './ContactMoveModal';
+export { ContactStatusBadge } from './ContactStatusBadge';
+export type { ContactStatusBadgeProps } from './ContactStatusBadge';
+export { ContactStatusModal } from './ContactStatusModal';
+export type { ContactStatusModalProps } from './ContactStatusModal';
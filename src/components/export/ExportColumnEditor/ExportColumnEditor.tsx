@@ -0,0 +1,138 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button, Input, Select } from '@/components/ui';
+import {
+  EXPORT_COLUMNS,
+  type ExportColumn,
+  type ExportColumnConfig,
+} from '@/lib/exportColumns';
+import styles from './ExportColumnEditor.module.css';
+
+/**
+ * ExportColumnEditor component props
+ */
+export interface ExportColumnEditorProps {
+  /** Columns in file order */
+  columns: ExportColumnConfig[];
+  /** Callback when the columns change */
+  onChange: (columns: ExportColumnConfig[]) => void;
+  /** Disable editing */
+  disabled?: boolean;
+}
+
+/**
+ * ExportColumnEditor component
+ *
+ * Lists the exported columns in file order and lets the user add, remove
+ * and reorder them and give each one a custom header label.
+ */
+function ExportColumnEditor({ columns, onChange, disabled = false }: ExportColumnEditorProps) {
+  const [columnToAdd, setColumnToAdd] = useState<ExportColumn | ''>('');
+
+  const unused = EXPORT_COLUMNS.filter((c) => !columns.some(({ column }) => column === c.column));
+
+  const move = (index: number, offset: number) => {
+    const next = [...columns];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    onChange(next);
+  };
+
+  const handleLabelChange = (index: number, label: string) => {
+    onChange(columns.map((config, i) => (i === index ? { ...config, label } : config)));
+  };
+
+  const handleAdd = () => {
+    if (!columnToAdd) return;
+    onChange([...columns, { column: columnToAdd }]);
+    setColumnToAdd('');
+  };
+
+  return (
+    <div>
+      <div className={styles.tableContainer}>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Field</th>
+              <th>Header Label</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {columns.map((config, index) => {
+              const definition = EXPORT_COLUMNS.find((c) => c.column === config.column);
+              return (
+                <tr key={config.column}>
+                  <td className={styles.positionCell}>{index + 1}</td>
+                  <td className={styles.fieldCell}>{definition?.label ?? config.column}</td>
+                  <td>
+                    <Input
+                      value={config.label ?? ''}
+                      placeholder={definition?.header}
+                      onChange={(e) => handleLabelChange(index, e.target.value)}
+                      aria-label={`Header label for ${definition?.label ?? config.column}`}
+                      fullWidth
+                      disabled={disabled}
+                    />
+                  </td>
+                  <td className={styles.actionCell}>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => move(index, -1)}
+                      disabled={disabled || index === 0}
+                      aria-label="Move up"
+                    >
+                      ↑
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => move(index, 1)}
+                      disabled={disabled || index === columns.length - 1}
+                      aria-label="Move down"
+                    >
+                      ↓
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onChange(columns.filter((_, i) => i !== index))}
+                      disabled={disabled || columns.length === 1}
+                    >
+                      Remove
+                    </Button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {unused.length > 0 && (
+        <div className={styles.addColumn}>
+          <Select
+            className={styles.addSelect}
+            label="Add Column"
+            options={[
+              { value: '', label: 'Choose a field...' },
+              ...unused.map((c) => ({ value: c.column, label: c.label })),
+            ]}
+            value={columnToAdd}
+            onChange={(e) => setColumnToAdd(e.target.value as ExportColumn | '')}
+            disabled={disabled}
+          />
+          <Button variant="outline" onClick={handleAdd} disabled={disabled || !columnToAdd}>
+            Add
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ExportColumnEditor;
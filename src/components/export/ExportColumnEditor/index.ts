@@ -0,0 +1,2 @@
+export { default as ExportColumnEditor } from './ExportColumnEditor';
+export type { ExportColumnEditorProps } from './ExportColumnEditor';
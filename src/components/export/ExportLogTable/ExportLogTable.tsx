@@ -0,0 +1,150 @@
+'use client';
+
+import React from 'react';
+import { Badge, Button } from '@/components/ui';
+import { describeContactFilters } from '@/lib/contactFilters';
+import {
+  EXPORT_FORMATS,
+  EXPORT_MODES,
+  getColumnHeader,
+  type ExportColumnConfig,
+  type ExportSampling,
+} from '@/lib/exportColumns';
+import { formatDateTime, formatNumber } from '@/lib/utils';
+import styles from './ExportLogTable.module.css';
+
+/**
+ * Export log entry (see GET /api/export/logs)
+ */
+export interface ExportLogEntry {
+  id: string;
+  createdBy: string;
+  /** Contact filter query parameters */
+  filters: Record<string, string>;
+  columns: ExportColumnConfig[];
+  profileName: string | null;
+  mode: string;
+  format: string;
+  split: string | null;
+  /** Row limits and random sample seed of a sampled export */
+  sampling: ExportSampling | null;
+  status: 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+  rowCount: number | null;
+  checksum: string | null;
+  failureReason: string | null;
+  createdAt: string;
+  /** Schedule of a scheduled run */
+  schedule: { id: string; name: string } | null;
+}
+
+/**
+ * ExportLogTable component props
+ */
+export interface ExportLogTableProps {
+  /** Log entries, newest first */
+  logs: ExportLogEntry[];
+  /** Journal and brand names by ID (to show journal and brand filters) */
+  names?: Record<string, string>;
+  /** Callback to run an export again with the same settings */
+  onRerun: (log: ExportLogEntry) => void;
+}
+
+const STATUS_BADGES: Record<ExportLogEntry['status'], { label: string; variant: 'success' | 'warning' | 'error' | 'primary' }> = {
+  RUNNING: { label: 'Running', variant: 'primary' },
+  COMPLETED: { label: 'Completed', variant: 'success' },
+  FAILED: { label: 'Failed', variant: 'error' },
+  CANCELLED: { label: 'Cancelled', variant: 'warning' },
+};
+
+/**
+ * Describe the file of an export
+ * @param log - Export log entry
+ * @returns e.g. "CSV, unique people" or "Excel (.xlsx), per journal (ZIP)"
+ * or "CSV, random 2,000 (seed: a)"
+ */
+function describeFile(log: ExportLogEntry): string {
+  const format = EXPORT_FORMATS.find((f) => f.format === log.format)?.label ?? log.format;
+  const parts = [format];
+  if (log.mode === 'people') {
+    parts.push(EXPORT_MODES.find((m) => m.mode === 'people')?.label ?? log.mode);
+  }
+  if (log.split === 'journal') parts.push('one file per journal (ZIP)');
+  if (log.sampling) {
+    const { limit, perJournalLimit, seed } = log.sampling;
+    const sample = [
+      limit && `${seed ? 'random' : 'first'} ${formatNumber(limit)}`,
+      perJournalLimit && `${seed ? 'random' : 'first'} ${formatNumber(perJournalLimit)} per journal`,
+    ].filter(Boolean).join(', ') || 'random order';
+    parts.push(seed ? `${sample} (seed: ${seed})` : sample);
+  }
+  return parts.join(', ');
+}
+
+/**
+ * ExportLogTable component
+ *
+ * Lists past exports - who ran them, when, with which filters and columns,
+ * and the file they produced - with an action to run one again.
+ */
+function ExportLogTable({ logs, names = {}, onRerun }: ExportLogTableProps) {
+  if (logs.length === 0) {
+    return <p className={styles.empty}>No exports yet</p>;
+  }
+
+  return (
+    <div className={styles.tableContainer}>
+      <table className={styles.table}>
+        <thead>
+          <tr>
+            <th>Date</th>
+            <th>User</th>
+            <th>Filters</th>
+            <th>Columns</th>
+            <th>File</th>
+            <th>Rows</th>
+            <th>Checksum</th>
+            <th>Status</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {logs.map((log) => {
+            const status = STATUS_BADGES[log.status];
+            const filters = describeContactFilters(log.filters, names);
+            const headers = log.columns.map(getColumnHeader).join(', ');
+            return (
+              <tr key={log.id}>
+                <td className={styles.dateCell}>{formatDateTime(log.createdAt)}</td>
+                <td className={styles.userCell}>
+                  {log.createdBy}
+                  {log.schedule && <span className={styles.scheduleName}>{log.schedule.name}</span>}
+                </td>
+                <td className={styles.textCell} title={filters}>{filters}</td>
+                <td className={styles.textCell} title={headers}>
+                  {log.profileName ?? `${formatNumber(log.columns.length)} columns`}
+                </td>
+                <td className={styles.fileCell}>{describeFile(log)}</td>
+                <td className={styles.numberCell}>
+                  {log.rowCount === null ? '-' : formatNumber(log.rowCount)}
+                </td>
+                <td className={styles.checksumCell} title={log.checksum ? `SHA-256: ${log.checksum}` : undefined}>
+                  {log.checksum ? log.checksum.slice(0, 12) : '-'}
+                </td>
+                <td title={log.failureReason ?? undefined}>
+                  <Badge variant={status.variant}>{status.label}</Badge>
+                </td>
+                <td className={styles.actionCell}>
+                  <Button variant="ghost" size="sm" onClick={() => onRerun(log)}>
+                    Re-run
+                  </Button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default ExportLogTable;
@@ -0,0 +1,2 @@
+export { default as ExportLogTable } from './ExportLogTable';
+export type { ExportLogEntry, ExportLogTableProps } from './ExportLogTable';
@@ -0,0 +1,146 @@
+'use client';
+
+import React from 'react';
+import { Badge, Button } from '@/components/ui';
+import { describeContactFilters } from '@/lib/contactFilters';
+import { formatDateTime } from '@/lib/utils';
+import styles from './ExportScheduleTable.module.css';
+
+/**
+ * Scheduled export (see GET /api/export/schedules)
+ */
+export interface ExportScheduleEntry {
+  id: string;
+  name: string;
+  /** Contact filter query parameters */
+  filters: Record<string, string>;
+  profileId: string;
+  profile: { id: string; name: string };
+  mode: string;
+  format: string;
+  split: string | null;
+  /** Cron expression (UTC) */
+  cron: string;
+  destination: 'DIRECTORY' | 'EMAIL';
+  directory: string | null;
+  recipients: string[];
+  enabled: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastStatus: 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED' | null;
+  lastError: string | null;
+}
+
+/**
+ * ExportScheduleTable component props
+ */
+export interface ExportScheduleTableProps {
+  schedules: ExportScheduleEntry[];
+  /** Journal and brand names by ID (to show journal and brand filters) */
+  names?: Record<string, string>;
+  /** ID of the schedule currently being run */
+  runningId?: string | null;
+  /** Callback to run a schedule now */
+  onRun: (schedule: ExportScheduleEntry) => void;
+  onEdit: (schedule: ExportScheduleEntry) => void;
+  onDelete: (schedule: ExportScheduleEntry) => void;
+}
+
+const STATUS_BADGES: Record<NonNullable<ExportScheduleEntry['lastStatus']>, { label: string; variant: 'success' | 'warning' | 'error' | 'primary' }> = {
+  RUNNING: { label: 'Running', variant: 'primary' },
+  COMPLETED: { label: 'Completed', variant: 'success' },
+  FAILED: { label: 'Failed', variant: 'error' },
+  CANCELLED: { label: 'Cancelled', variant: 'warning' },
+};
+
+/**
+ * ExportScheduleTable component
+ *
+ * Lists the scheduled exports with their filters, profile, schedule,
+ * destination and last run, with actions to run, edit or delete them.
+ */
+function ExportScheduleTable({
+  schedules,
+  names = {},
+  runningId = null,
+  onRun,
+  onEdit,
+  onDelete,
+}: ExportScheduleTableProps) {
+  if (schedules.length === 0) {
+    return <p className={styles.empty}>No scheduled exports yet</p>;
+  }
+
+  return (
+    <div className={styles.tableContainer}>
+      <table className={styles.table}>
+        <thead>
+          <tr>
+            <th>Name</th>
+            <th>Filters</th>
+            <th>Profile</th>
+            <th>Schedule (UTC)</th>
+            <th>Destination</th>
+            <th>Next Run</th>
+            <th>Last Run</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {schedules.map((schedule) => {
+            const filters = describeContactFilters(schedule.filters, names);
+            const destination = schedule.destination === 'EMAIL'
+              ? schedule.recipients.join(', ')
+              : schedule.directory ?? '';
+            const status = schedule.lastStatus ? STATUS_BADGES[schedule.lastStatus] : null;
+            return (
+              <tr key={schedule.id}>
+                <td className={styles.nameCell}>{schedule.name}</td>
+                <td className={styles.textCell} title={filters}>{filters}</td>
+                <td className={styles.textCell}>{schedule.profile.name}</td>
+                <td className={styles.cronCell}>{schedule.cron}</td>
+                <td className={styles.textCell} title={destination}>
+                  {schedule.destination === 'EMAIL' ? 'Email: ' : ''}{destination}
+                </td>
+                <td className={styles.dateCell}>
+                  {schedule.enabled
+                    ? schedule.nextRunAt ? formatDateTime(schedule.nextRunAt) : '-'
+                    : <Badge variant="neutral">Paused</Badge>}
+                </td>
+                <td className={styles.dateCell} title={schedule.lastError ?? undefined}>
+                  {status && schedule.lastRunAt ? (
+                    <>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                      <span className={styles.lastRun}>{formatDateTime(schedule.lastRunAt)}</span>
+                    </>
+                  ) : (
+                    'Never'
+                  )}
+                </td>
+                <td className={styles.actionCell}>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onRun(schedule)}
+                    isLoading={runningId === schedule.id}
+                    disabled={runningId !== null}
+                  >
+                    Run Now
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => onEdit(schedule)}>
+                    Edit
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => onDelete(schedule)}>
+                    Delete
+                  </Button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default ExportScheduleTable;
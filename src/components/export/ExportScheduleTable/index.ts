@@ -0,0 +1,2 @@
+export { default as ExportScheduleTable } from './ExportScheduleTable';
+export type { ExportScheduleEntry, ExportScheduleTableProps } from './ExportScheduleTable';
@@ -0,0 +1,9 @@
+/**
+ * Export Components barrel export
+ */
+
+export { ExportColumnEditor } from './ExportColumnEditor';
+export { ExportLogTable } from './ExportLogTable';
+export type { ExportLogEntry } from './ExportLogTable';
+export { ExportScheduleTable } from './ExportScheduleTable';
+export type { ExportScheduleEntry } from './ExportScheduleTable';
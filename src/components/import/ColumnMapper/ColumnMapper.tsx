@@ -0,0 +1,116 @@
+'use client';
+
+import React from 'react';
+import { Select } from '@/components/ui';
+import {
+  CONTACT_FIELDS,
+  getMappingErrors,
+  type ColumnMapping,
+  type ContactField,
+} from '@/lib/importMapping';
+import styles from './ColumnMapper.module.css';
+
+/**
+ * ColumnMapper component props
+ */
+export interface ColumnMapperProps {
+  /** Headers detected in the uploaded file */
+  headers: string[];
+  /** Sample values per header */
+  samples: Record<string, string[]>;
+  /** Current mapping of header -> contact field */
+  mapping: ColumnMapping;
+  /** Optional fields that must be mapped as well (e.g. journal for multi-journal imports) */
+  requiredFields?: ContactField[];
+  /** Callback when the mapping changes */
+  onChange: (mapping: ColumnMapping) => void;
+}
+
+/**
+ * Field options for the mapping selects
+ * @param requiredFields - Optional fields that are required for this import
+ * @returns Select options, required fields marked with *
+ */
+function getFieldOptions(requiredFields: ContactField[]) {
+  return [
+    { value: '', label: 'Ignore column' },
+    ...CONTACT_FIELDS.map(({ field, label, required }) => ({
+      value: field,
+      label: required || requiredFields.includes(field) ? `${label} *` : label,
+    })),
+  ];
+}
+
+/**
+ * ColumnMapper component
+ *
+ * Lists the detected file headers with sample values and lets the user
+ * map each one to an EmailContact field or ignore it.
+ */
+function ColumnMapper({
+  headers,
+  samples,
+  mapping,
+  requiredFields = [],
+  onChange,
+}: ColumnMapperProps) {
+  const errors = getMappingErrors(mapping, headers, requiredFields);
+  const fieldOptions = getFieldOptions(requiredFields);
+
+  const handleFieldChange = (header: string, field: ContactField | '') => {
+    onChange({ ...mapping, [header]: field });
+  };
+
+  return (
+    <div>
+      <div className={styles.tableContainer}>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>File Column</th>
+              <th>Sample Values</th>
+              <th>Maps To</th>
+            </tr>
+          </thead>
+          <tbody>
+            {headers.map((header) => (
+              <tr key={header}>
+                <td className={styles.header}>{header}</td>
+                <td>
+                  {samples[header]?.length ? (
+                    <div className={styles.samples}>
+                      {samples[header].map((value, index) => (
+                        <p key={index} className={styles.sample} title={value}>{value}</p>
+                      ))}
+                    </div>
+                  ) : (
+                    <span className={styles.noSamples}>No values</span>
+                  )}
+                </td>
+                <td>
+                  <Select
+                    className={styles.fieldSelect}
+                    options={fieldOptions}
+                    value={mapping[header] || ''}
+                    onChange={(e) => handleFieldChange(header, e.target.value as ContactField | '')}
+                    aria-label={`Field for column ${header}`}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className={styles.errors} role="alert">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default ColumnMapper;
@@ -0,0 +1,2 @@
+export { default as ColumnMapper } from './ColumnMapper';
+export type { ColumnMapperProps } from './ColumnMapper';
@@ -0,0 +1,134 @@
+'use client';
+
+import React, { useId, useState } from 'react';
+import { Button, Input } from '@/components/ui';
+import { formatNumber, isValidEmail } from '@/lib/utils';
+import { extractContacts, type ExtractedContact } from '@/lib/textExtraction';
+import styles from './PasteExtractor.module.css';
+
+/**
+ * PasteExtractor component props
+ */
+export interface PasteExtractorProps {
+  /** Contacts in the grid */
+  contacts: ExtractedContact[];
+  /** Callback when the grid changes */
+  onChange: (contacts: ExtractedContact[]) => void;
+  /** Disable editing (e.g. while an import is running) */
+  disabled?: boolean;
+}
+
+/**
+ * PasteExtractor component
+ *
+ * Extracts email addresses and nearby names from pasted free text and shows
+ * them in an editable grid. Extracting again adds newly found addresses and
+ * keeps the rows already in the grid, including any edits.
+ */
+function PasteExtractor({ contacts, onChange, disabled = false }: PasteExtractorProps) {
+  const textareaId = useId();
+  const [text, setText] = useState('');
+
+  const missingNames = contacts.filter((c) => !c.name.trim()).length;
+
+  const handleExtract = () => {
+    const known = new Set(contacts.map((c) => c.email.trim().toLowerCase()));
+    const found = extractContacts(text).filter((c) => !known.has(c.email));
+    onChange([...contacts, ...found]);
+  };
+
+  const handleCellChange = (index: number, field: keyof ExtractedContact, value: string) => {
+    onChange(contacts.map((contact, i) => (i === index ? { ...contact, [field]: value } : contact)));
+  };
+
+  return (
+    <div>
+      <label htmlFor={textareaId} className={styles.label}>Pasted Text</label>
+      <textarea
+        id={textareaId}
+        className={styles.textarea}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Paste an editorial board listing, a table copied from a PDF or an email thread..."
+        disabled={disabled}
+      />
+
+      <div className={styles.toolbar}>
+        <p className={styles.info}>
+          {formatNumber(contacts.length)} contacts
+          {missingNames > 0 && ` - ${formatNumber(missingNames)} without a name`}
+        </p>
+        <div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onChange([...contacts, { name: '', email: '' }])}
+            disabled={disabled}
+          >
+            Add Row
+          </Button>
+          {' '}
+          <Button size="sm" onClick={handleExtract} disabled={disabled || !text.trim()}>
+            Extract Emails
+          </Button>
+        </div>
+      </div>
+
+      {contacts.length > 0 ? (
+        <div className={styles.tableContainer}>
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Name</th>
+                <th>Email</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {contacts.map((contact, index) => (
+                <tr key={index}>
+                  <td className={styles.lineCell}>{index + 1}</td>
+                  <td>
+                    <Input
+                      value={contact.name}
+                      onChange={(e) => handleCellChange(index, 'name', e.target.value)}
+                      error={contact.name.trim() ? undefined : 'Name is required'}
+                      aria-label={`Name of row ${index + 1}`}
+                      fullWidth
+                      disabled={disabled}
+                    />
+                  </td>
+                  <td>
+                    <Input
+                      value={contact.email}
+                      onChange={(e) => handleCellChange(index, 'email', e.target.value)}
+                      error={isValidEmail(contact.email.trim()) ? undefined : 'Invalid email'}
+                      aria-label={`Email of row ${index + 1}`}
+                      fullWidth
+                      disabled={disabled}
+                    />
+                  </td>
+                  <td className={styles.actionCell}>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onChange(contacts.filter((_, i) => i !== index))}
+                      disabled={disabled}
+                    >
+                      Remove
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className={styles.empty}>No contacts extracted yet</p>
+      )}
+    </div>
+  );
+}
+
+export default PasteExtractor;
@@ -0,0 +1,2 @@
+export { default as PasteExtractor } from './PasteExtractor';
+export type { PasteExtractorProps } from './PasteExtractor';
@@ -0,0 +1,181 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Badge, Button, Select, type BadgeVariant } from '@/components/ui';
+import { cn, formatNumber } from '@/lib/utils';
+import type { RowStatus, RowVerdict } from '@/lib/importer';
+import styles from './PreviewReport.module.css';
+
+/**
+ * Dry-run counts returned by the import API
+ */
+export interface PreviewSummary {
+  total: number;
+  valid: number;
+  invalid: number;
+  suppressed: number;
+  duplicate: number;
+  existing: number;
+  update: number;
+}
+
+/**
+ * PreviewReport component props
+ */
+export interface PreviewReportProps {
+  /** Dry-run counts */
+  summary: PreviewSummary;
+  /** Per-row verdicts */
+  rows: RowVerdict[];
+  /** Callback to run the real import */
+  onCommit: () => void;
+  /** Callback to discard the preview */
+  onCancel: () => void;
+  /** Whether the real import is running */
+  isCommitting?: boolean;
+  /** Show the journal each row is routed to (multi-journal imports) */
+  showJournal?: boolean;
+}
+
+/**
+ * Max rows rendered in the table at once
+ */
+const MAX_VISIBLE_ROWS = 200;
+
+const statusInfo: Record<RowStatus, { label: string; variant: BadgeVariant }> = {
+  valid: { label: 'Valid', variant: 'success' },
+  invalid: { label: 'Invalid', variant: 'error' },
+  suppressed: { label: 'Suppressed', variant: 'neutral' },
+  duplicate: { label: 'Duplicate in file', variant: 'warning' },
+  existing: { label: 'Already in journal', variant: 'neutral' },
+  update: { label: 'Will update', variant: 'primary' },
+};
+
+/**
+ * PreviewReport component
+ *
+ * Shows the row-by-row result of an import dry run and lets the user
+ * commit the rows that passed validation.
+ */
+function PreviewReport({
+  summary,
+  rows,
+  onCommit,
+  onCancel,
+  isCommitting = false,
+  showJournal = false,
+}: PreviewReportProps) {
+  const [statusFilter, setStatusFilter] = useState<RowStatus | ''>('');
+
+  const filteredRows = useMemo(
+    () => (statusFilter ? rows.filter((row) => row.status === statusFilter) : rows),
+    [rows, statusFilter],
+  );
+  const visibleRows = filteredRows.slice(0, MAX_VISIBLE_ROWS);
+  const writableRows = summary.valid + summary.update;
+
+  return (
+    <div>
+      <div className={styles.summary}>
+        <div className={styles.summaryItem}>
+          <span className={styles.summaryLabel}>Total Rows</span>
+          <span className={styles.summaryValue}>{formatNumber(summary.total)}</span>
+        </div>
+        <div className={cn(styles.summaryItem, styles.success)}>
+          <span className={styles.summaryLabel}>Valid</span>
+          <span className={styles.summaryValue}>{formatNumber(summary.valid)}</span>
+        </div>
+        <div className={cn(styles.summaryItem, styles.error)}>
+          <span className={styles.summaryLabel}>Invalid</span>
+          <span className={styles.summaryValue}>{formatNumber(summary.invalid)}</span>
+        </div>
+        <div className={styles.summaryItem}>
+          <span className={styles.summaryLabel}>Suppressed</span>
+          <span className={styles.summaryValue}>{formatNumber(summary.suppressed)}</span>
+        </div>
+        <div className={cn(styles.summaryItem, styles.warning)}>
+          <span className={styles.summaryLabel}>Duplicate in File</span>
+          <span className={styles.summaryValue}>{formatNumber(summary.duplicate)}</span>
+        </div>
+        <div className={styles.summaryItem}>
+          <span className={styles.summaryLabel}>Already in Journal</span>
+          <span className={styles.summaryValue}>{formatNumber(summary.existing)}</span>
+        </div>
+        <div className={cn(styles.summaryItem, styles.primary)}>
+          <span className={styles.summaryLabel}>Will Update</span>
+          <span className={styles.summaryValue}>{formatNumber(summary.update)}</span>
+        </div>
+      </div>
+
+      <div className={styles.toolbar}>
+        <Select
+          className={styles.statusFilter}
+          options={[
+            { value: '', label: 'All rows' },
+            ...Object.entries(statusInfo).map(([value, { label }]) => ({ value, label })),
+          ]}
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as RowStatus | '')}
+          aria-label="Filter rows by status"
+        />
+        <span className={styles.rowInfo}>
+          {filteredRows.length > MAX_VISIBLE_ROWS
+            ? `Showing first ${formatNumber(MAX_VISIBLE_ROWS)} of ${formatNumber(filteredRows.length)} rows`
+            : `${formatNumber(filteredRows.length)} rows`}
+        </span>
+      </div>
+
+      <div className={styles.tableContainer}>
+        {visibleRows.length === 0 ? (
+          <p className={styles.empty}>No rows match this filter</p>
+        ) : (
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>Line</th>
+                <th>Name</th>
+                <th>Email</th>
+                {showJournal && <th>Journal</th>}
+                <th>Status</th>
+                <th>Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleRows.map((row) => (
+                <tr key={row.line}>
+                  <td className={styles.lineCell}>{row.line}</td>
+                  <td>{row.name || '-'}</td>
+                  <td>{row.email || '-'}</td>
+                  {showJournal && <td>{row.journal || '-'}</td>}
+                  <td>
+                    <Badge variant={statusInfo[row.status].variant}>
+                      {statusInfo[row.status].label}
+                    </Badge>
+                  </td>
+                  <td className={styles.reasonCell}>{row.reason || '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className={styles.actions}>
+        <Button variant="ghost" onClick={onCancel} disabled={isCommitting}>
+          Back
+        </Button>
+        <Button
+          onClick={onCommit}
+          isLoading={isCommitting}
+          disabled={writableRows === 0}
+        >
+          {isCommitting
+            ? 'Importing...'
+            : `Commit import (${formatNumber(writableRows)} rows)`}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default PreviewReport;
@@ -0,0 +1,2 @@
+export { default as PreviewReport } from './PreviewReport';
+export type { PreviewReportProps, PreviewSummary } from './PreviewReport';
@@ -0,0 +1,8 @@
+/**
+ * Import Components barrel export
+ */
+
+export { ColumnMapper } from './ColumnMapper';
+export { PasteExtractor } from './PasteExtractor';
+export { PreviewReport } from './PreviewReport';
+export type { PreviewSummary } from './PreviewReport';
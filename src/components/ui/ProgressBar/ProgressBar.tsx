@@ -0,0 +1,42 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import styles from './ProgressBar.module.css';
+
+/**
+ * ProgressBar component props
+ */
+export interface ProgressBarProps {
+  /** Progress value between 0 and 100 */
+  value: number;
+  /** Accessible label describing the task */
+  label: string;
+  /** Whether to show the percentage next to the bar */
+  showValue?: boolean;
+  /** Additional class names */
+  className?: string;
+}
+
+/**
+ * ProgressBar component
+ * 
+ * A horizontal progress indicator built on the native progress element.
+ * 
+ * @example
+ * ```tsx
+ * <ProgressBar value={42} label="Import progress" showValue />
+ * ```
+ */
+function ProgressBar({ value, label, showValue = false, className }: ProgressBarProps) {
+  const clamped = Math.min(100, Math.max(0, Math.round(value)));
+
+  return (
+    <div className={cn(styles.wrapper, className)}>
+      <progress className={styles.bar} value={clamped} max={100} aria-label={label}>
+        {clamped}%
+      </progress>
+      {showValue && <span className={styles.value}>{clamped}%</span>}
+    </div>
+  );
+}
+
+export default ProgressBar;
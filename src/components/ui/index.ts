@@ -30,3 +30,6 @@ export type { BadgeProps, BadgeVariant } from './Badge';
 
 export { Spinner } from './Spinner';
 export type { SpinnerProps, SpinnerSize } from './Spinner';
+
+export { ProgressBar } from './ProgressBar';
+export type { ProgressBarProps } from './ProgressBar';
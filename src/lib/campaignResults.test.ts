@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { ParsedFile } from '@/lib/importer';
+import { parseCampaignEvent, readCampaignResultsFile } from '@/lib/campaignResults';
+
+// Reading a results file never touches the database
+vi.mock('@/lib/prisma', () => ({ default: {} }));
+
+/**
+ * Build a parsed CSV file (data rows start on line 2)
+ * @param headers - Header row
+ * @param rows - Data rows, in header order
+ * @returns Parsed file
+ */
+function csv(headers: string[], ...rows: string[][]): ParsedFile {
+  return {
+    headers,
+    rows: rows.map((cells, index) => ({
+      line: index + 2,
+      values: Object.fromEntries(headers.map((header, column) => [header, cells[column] ?? ''])),
+    })),
+    errors: [],
+  };
+}
+
+describe('parseCampaignEvent', () => {
+  it('reads the event names of different providers', () => {
+    expect(parseCampaignEvent('Hard Bounce')).toBe('bounce');
+    expect(parseCampaignEvent('group_unsubscribe')).toBe('unsubscribe');
+    expect(parseCampaignEvent('spamreport')).toBe('complaint');
+    expect(parseCampaignEvent('Opened')).toBe('open');
+  });
+
+  it('returns null for events that change nothing', () => {
+    expect(parseCampaignEvent('delivered')).toBeNull();
+    expect(parseCampaignEvent('')).toBeNull();
+    expect(parseCampaignEvent(null)).toBeNull();
+  });
+});
+
+describe('readCampaignResultsFile', () => {
+  it('requires an email column and an event or counts', () => {
+    expect(readCampaignResultsFile(csv(['Name', 'Event']))).toEqual({ error: 'The file needs an "email" column' });
+    expect(readCampaignResultsFile(csv(['Email Address']))).toEqual({
+      error: 'The file needs an "event" column or "opens"/"clicks" columns, or choose the event of the file',
+    });
+  });
+
+  it('reads one row per event, keeping the most severe status and its reason', () => {
+    const file = csv(
+      ['email', 'event', 'reason'],
+      ['Ada@Example.org', 'bounce', 'Mailbox full'],
+      ['ada@example.org', 'spamreport', 'Marked as spam'],
+      ['ada@example.org', 'unsubscribe', 'Link in footer'],
+      ['ada@example.org', 'open', ''],
+      ['alan@example.org', 'delivered', ''],
+    );
+
+    const result = readCampaignResultsFile(file);
+
+    expect(result).toEqual({
+      addresses: new Map([
+        ['ada@example.org', { status: 'COMPLAINED', reason: 'Marked as spam', opens: 1, clicks: 0 }],
+      ]),
+      ignored: 1,
+      invalid: 0,
+      errors: [],
+    });
+  });
+
+  it('reads opens and clicks count columns', () => {
+    const file = csv(['Email', 'Unique Opens', 'Total Clicks'], ['ada@example.org', '3', '1'], ['alan@example.org', '0', '']);
+
+    const result = readCampaignResultsFile(file);
+
+    expect('addresses' in result && Array.from(result.addresses)).toEqual([
+      ['ada@example.org', { status: null, reason: null, opens: 3, clicks: 1 }],
+    ]);
+    expect('ignored' in result && result.ignored).toBe(1);
+  });
+
+  it('uses the event chosen for a file without an event column', () => {
+    const result = readCampaignResultsFile(csv(['Email Address'], ['ada@example.org']), 'unsubscribe');
+
+    expect('addresses' in result && result.addresses.get('ada@example.org')).toEqual({
+      status: 'UNSUBSCRIBED',
+      reason: null,
+      opens: 0,
+      clicks: 0,
+    });
+  });
+
+  it('rejects rows with an invalid email or count, with their line numbers', () => {
+    const file = csv(
+      ['email', 'opens'],
+      ['not-an-email', '1'],
+      ['', '1'],
+      ['ada@example.org', '-2'],
+      ['alan@example.org', '2'],
+    );
+
+    const result = readCampaignResultsFile(file);
+
+    expect(result).toMatchObject({
+      invalid: 3,
+      errors: ['Line 2: Invalid email: not-an-email', 'Line 3: Missing email', 'Line 4: Invalid count: -2'],
+    });
+    expect('addresses' in result && Array.from(result.addresses.keys())).toEqual(['alan@example.org']);
+  });
+});
@@ -0,0 +1,320 @@
+import type { ContactStatus, Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { isValidEmail } from '@/lib/utils';
+import { getContactStatusLabel, MAX_STATUS_REASON_LENGTH } from '@/lib/contactStatus';
+import type { ParsedFile } from '@/lib/importer';
+
+/**
+ * ESP campaign results
+ *
+ * After a campaign, the email service provider reports bounces,
+ * unsubscribes, spam complaints, opens and clicks per address. Importing
+ * those results updates the status of the matching contacts (so the next
+ * export leaves dead addresses out) and adds to their engagement counters.
+ */
+
+/**
+ * Campaign event reported by an ESP
+ */
+export type CampaignEvent = 'bounce' | 'unsubscribe' | 'complaint' | 'open' | 'click';
+
+/**
+ * Results of one address, combined over all its rows
+ */
+export interface AddressResult {
+  /** Most severe status reported for the address, if any */
+  status: ContactStatus | null;
+  /** Reason given by the ESP for that status (e.g. the bounce message) */
+  reason: string | null;
+  opens: number;
+  clicks: number;
+}
+
+/**
+ * Results read from an uploaded campaign results file
+ */
+export interface CampaignResultsFile {
+  /** Results by lowercase email address */
+  addresses: Map<string, AddressResult>;
+  /** Rows with an event that does not change anything (e.g. "delivered") */
+  ignored: number;
+  /** Number of rows that could not be read */
+  invalid: number;
+  /** First few row errors, e.g. "Line 4: Invalid email: bob@" */
+  errors: string[];
+}
+
+/**
+ * Summary of applying campaign results
+ */
+export interface CampaignResultsSummary {
+  /** Addresses in the file matching at least one contact */
+  matched: number;
+  /** Addresses in the file matching no contact */
+  unmatched: number;
+  /** First unmatched addresses (see MAX_UNMATCHED_LISTED) */
+  unmatchedEmails: string[];
+  /** Contacts matched (an address can be in several journals) */
+  contacts: number;
+  /** Contacts whose status changed, by new status */
+  statusChanges: Record<'BOUNCED' | 'UNSUBSCRIBED' | 'COMPLAINED', number>;
+  /** Opens and clicks added to the matched contacts */
+  opens: number;
+  clicks: number;
+}
+
+/**
+ * Max values per `IN (...)` query against the database
+ */
+const LOOKUP_BATCH_SIZE = 1000;
+
+/**
+ * Number of row error messages returned for an upload
+ */
+const MAX_ERROR_DETAILS = 10;
+
+/**
+ * Number of unmatched addresses returned in the summary
+ */
+export const MAX_UNMATCHED_LISTED = 1000;
+
+/**
+ * Accepted headers of a results file, compared without case, spaces or
+ * punctuation (e.g. "Email Address" from Mailchimp, "event" from Sendgrid)
+ */
+const FILE_HEADERS = {
+  email: ['email', 'emailaddress', 'recipient', 'mail', 'address'],
+  event: ['event', 'eventtype', 'type', 'activity', 'action', 'status'],
+  reason: ['reason', 'bouncereason', 'description', 'message', 'response', 'diagnosticcode'],
+  opens: ['opens', 'opencount', 'uniqueopens', 'totalopens'],
+  clicks: ['clicks', 'clickcount', 'uniqueclicks', 'totalclicks'],
+};
+
+/**
+ * Event names used by ESPs (Mailchimp, Sendgrid, Brevo and others),
+ * compared without case, spaces or punctuation
+ */
+const EVENT_NAMES: Record<CampaignEvent, string[]> = {
+  bounce: ['bounce', 'bounced', 'hardbounce', 'hardbounced', 'invalidemail'],
+  unsubscribe: ['unsubscribe', 'unsubscribed', 'unsub', 'groupunsubscribe', 'optout', 'optedout'],
+  complaint: ['complaint', 'complained', 'spam', 'spamreport', 'abuse', 'abusereport'],
+  open: ['open', 'opened', 'uniqueopen'],
+  click: ['click', 'clicked', 'uniqueclick'],
+};
+
+/**
+ * Status set by each deliverability event
+ */
+const EVENT_STATUS: Partial<Record<CampaignEvent, ContactStatus>> = {
+  bounce: 'BOUNCED',
+  unsubscribe: 'UNSUBSCRIBED',
+  complaint: 'COMPLAINED',
+};
+
+/**
+ * Severity of each status: results never downgrade a contact (a complaint
+ * is not replaced by a later bounce), and engagement never reactivates one
+ */
+const STATUS_SEVERITY: Record<ContactStatus, number> = {
+  ACTIVE: 0,
+  UNSUBSCRIBED: 1,
+  BOUNCED: 2,
+  COMPLAINED: 3,
+};
+
+/**
+ * Read a campaign event name
+ * @param value - Event name as written by the ESP (e.g. "spamreport")
+ * @returns Campaign event, or null for events that change nothing
+ */
+export function parseCampaignEvent(value: string | null | undefined): CampaignEvent | null {
+  const name = value?.toLowerCase().replace(/[^a-z]/g, '');
+  if (!name) return null;
+  const events = Object.keys(EVENT_NAMES) as CampaignEvent[];
+  return events.find((event) => EVENT_NAMES[event].includes(name)) ?? null;
+}
+
+/**
+ * Find a file header among accepted names
+ * @param headers - Headers of the file
+ * @param accepted - Accepted header names (see FILE_HEADERS)
+ * @returns Matching file header, or null
+ */
+function findHeader(headers: string[], accepted: string[]): string | null {
+  return headers.find((header) => accepted.includes(header.toLowerCase().replace(/[^a-z]/g, ''))) ?? null;
+}
+
+/**
+ * Read the results of an uploaded campaign results file
+ * The file needs an email column and either an event column (one row per
+ * event), opens/clicks count columns (one row per address), or an event
+ * chosen for the whole file (e.g. a Mailchimp "bounced" report).
+ * @param file - Parsed CSV file
+ * @param defaultEvent - Event of rows without an event column
+ * @returns Results by address, or an error when the file cannot be used
+ */
+export function readCampaignResultsFile(
+  { headers, rows }: ParsedFile,
+  defaultEvent: CampaignEvent | null = null,
+): CampaignResultsFile | { error: string } {
+  const emailHeader = findHeader(headers, FILE_HEADERS.email);
+  if (!emailHeader) {
+    return { error: 'The file needs an "email" column' };
+  }
+  const eventHeader = findHeader(headers, FILE_HEADERS.event);
+  const reasonHeader = findHeader(headers, FILE_HEADERS.reason);
+  const opensHeader = findHeader(headers, FILE_HEADERS.opens);
+  const clicksHeader = findHeader(headers, FILE_HEADERS.clicks);
+  if (!eventHeader && !opensHeader && !clicksHeader && !defaultEvent) {
+    return { error: 'The file needs an "event" column or "opens"/"clicks" columns, or choose the event of the file' };
+  }
+
+  const result: CampaignResultsFile = { addresses: new Map(), ignored: 0, invalid: 0, errors: [] };
+  const reject = (line: number, reason: string) => {
+    result.invalid += 1;
+    if (result.errors.length < MAX_ERROR_DETAILS) {
+      result.errors.push(`Line ${line}: ${reason}`);
+    }
+  };
+  const readCount = (header: string | null, values: Record<string, string>): number | null => {
+    const text = header ? values[header]?.trim() : '';
+    if (!text) return 0;
+    const count = Number(text);
+    return Number.isInteger(count) && count >= 0 ? count : null;
+  };
+
+  rows.forEach(({ line, values }) => {
+    const email = values[emailHeader]?.trim().toLowerCase() ?? '';
+    if (!isValidEmail(email)) {
+      reject(line, email ? `Invalid email: ${email}` : 'Missing email');
+      return;
+    }
+
+    const eventText = eventHeader ? values[eventHeader]?.trim() : '';
+    const event = eventText ? parseCampaignEvent(eventText) : defaultEvent;
+    const opens = readCount(opensHeader, values);
+    const clicks = readCount(clicksHeader, values);
+    if (opens === null || clicks === null) {
+      reject(line, `Invalid count: ${opens === null ? values[opensHeader!] : values[clicksHeader!]}`);
+      return;
+    }
+
+    const status = event ? EVENT_STATUS[event] ?? null : null;
+    const addedOpens = opens + (event === 'open' ? 1 : 0);
+    const addedClicks = clicks + (event === 'click' ? 1 : 0);
+    if (!status && addedOpens === 0 && addedClicks === 0) {
+      result.ignored += 1;
+      return;
+    }
+
+    const address = result.addresses.get(email) ?? { status: null, reason: null, opens: 0, clicks: 0 };
+    if (status && (!address.status || STATUS_SEVERITY[status] > STATUS_SEVERITY[address.status])) {
+      address.status = status;
+      address.reason = (reasonHeader && values[reasonHeader]?.trim()) || null;
+    }
+    address.opens += addedOpens;
+    address.clicks += addedClicks;
+    result.addresses.set(email, address);
+  });
+
+  return result;
+}
+
+/**
+ * Apply campaign results to the matching contacts
+ * Addresses are matched by email, in every journal (or in the journals of
+ * one brand). Each batch of addresses (statuses, status history and
+ * engagement counters) is written in one transaction. Importing the same
+ * results twice counts their opens and clicks twice.
+ * @param addresses - Results by lowercase email address
+ * @param options - Brand to limit matching to, campaign name (recorded in
+ *   the status history) and the user importing the results
+ * @returns Summary of matched and unmatched addresses and of the changes
+ */
+export async function applyCampaignResults(
+  addresses: Map<string, AddressResult>,
+  { brandId, campaign, changedBy }: { brandId?: string | null; campaign?: string | null; changedBy: string },
+): Promise<CampaignResultsSummary> {
+  const summary: CampaignResultsSummary = {
+    matched: 0,
+    unmatched: 0,
+    unmatchedEmails: [],
+    contacts: 0,
+    statusChanges: { BOUNCED: 0, UNSUBSCRIBED: 0, COMPLAINED: 0 },
+    opens: 0,
+    clicks: 0,
+  };
+  const emails = Array.from(addresses.keys());
+
+  for (let i = 0; i < emails.length; i += LOOKUP_BATCH_SIZE) {
+    const batch = emails.slice(i, i + LOOKUP_BATCH_SIZE);
+    const where: Prisma.EmailContactWhereInput = { email: { in: batch } };
+    if (brandId) where.journal = { brandId };
+    const contacts = await prisma.emailContact.findMany({
+      where,
+      select: { id: true, email: true, status: true },
+    });
+
+    const matched = new Set(contacts.map(({ email }) => email));
+    batch.forEach((email) => {
+      if (matched.has(email)) {
+        summary.matched += 1;
+      } else {
+        summary.unmatched += 1;
+        if (summary.unmatchedEmails.length < MAX_UNMATCHED_LISTED) summary.unmatchedEmails.push(email);
+      }
+    });
+    if (contacts.length === 0) continue;
+
+    // Group the updates so that each distinct change is one query
+    const statusIds = new Map<ContactStatus, string[]>();
+    const history: Prisma.ContactStatusChangeCreateManyInput[] = [];
+    const engagementIds = new Map<string, string[]>();
+    const changedAt = new Date();
+
+    contacts.forEach((contact) => {
+      const result = addresses.get(contact.email)!;
+      if (result.status && STATUS_SEVERITY[result.status] > STATUS_SEVERITY[contact.status]) {
+        statusIds.set(result.status, (statusIds.get(result.status) ?? []).concat(contact.id));
+        const reason = result.reason ?? getContactStatusLabel(result.status);
+        history.push({
+          contactId: contact.id,
+          status: result.status,
+          reason: (campaign ? `${campaign}: ${reason}` : reason).slice(0, MAX_STATUS_REASON_LENGTH),
+          changedBy,
+          createdAt: changedAt,
+        });
+      }
+      if (result.opens > 0 || result.clicks > 0) {
+        const key = `${result.opens}:${result.clicks}`;
+        engagementIds.set(key, (engagementIds.get(key) ?? []).concat(contact.id));
+        summary.opens += result.opens;
+        summary.clicks += result.clicks;
+      }
+    });
+
+    await prisma.$transaction([
+      ...Array.from(statusIds, ([status, ids]) =>
+        prisma.emailContact.updateMany({
+          where: { id: { in: ids } },
+          data: { status, statusChangedAt: changedAt },
+        }),
+      ),
+      prisma.contactStatusChange.createMany({ data: history }),
+      ...Array.from(engagementIds, ([key, ids]) => {
+        const [opens, clicks] = key.split(':').map(Number);
+        return prisma.emailContact.updateMany({
+          where: { id: { in: ids } },
+          data: { opens: { increment: opens }, clicks: { increment: clicks }, lastEngagedAt: changedAt },
+        });
+      }),
+    ]);
+
+    statusIds.forEach((ids, status) => {
+      if (status !== 'ACTIVE') summary.statusChanges[status] += ids.length;
+    });
+    summary.contacts += contacts.length;
+  }
+
+  return summary;
+}
@@ -0,0 +1,264 @@
+import type { ContactStatus, Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { isContactStatus } from '@/lib/contactStatus';
+import { STATUS_BATCH_SIZE, writeStatusChanges } from '@/lib/contactStatusChanges';
+
+/**
+ * Bulk contact actions
+ *
+ * Deletes, moves or changes the status of many contacts at once (selected
+ * rows, or every contact matching a filter). The actions of one request run
+ * in order in a single transaction, so either all of them apply or none.
+ */
+
+/**
+ * What to do with a contact whose email address is already in the target
+ * journal of a move: leave it where it is, or delete it (the address stays
+ * in the target journal)
+ */
+export type MoveConflictMode = 'skip' | 'delete';
+
+/**
+ * Action applied to the selected contacts
+ */
+export type BulkAction =
+  | { type: 'delete' }
+  | { type: 'move'; journalId: string; onConflict: MoveConflictMode }
+  | { type: 'status'; status: ContactStatus; reason: string | null };
+
+/**
+ * Outcome of one action
+ */
+export type BulkActionResult =
+  | { type: 'delete'; deleted: number }
+  | {
+    type: 'move';
+    moved: number;
+    /** Contacts already in the target journal */
+    unchanged: number;
+    /** Contacts whose address was already in the target journal */
+    conflicts: number;
+    /** Conflicting contacts deleted (onConflict "delete") */
+    deleted: number;
+    /** First conflicting addresses (see MAX_CONFLICTS_LISTED) */
+    conflictEmails: string[];
+  }
+  | { type: 'status'; changed: number };
+
+/**
+ * Most contacts one bulk request can change
+ */
+export const MAX_BULK_CONTACTS = 100000;
+
+/**
+ * Most contact IDs one bulk request can list
+ * Each ID is a bind parameter of the selection query, and PostgreSQL
+ * accepts at most 32767 of them; larger selections use filters.
+ */
+export const MAX_BULK_IDS = 10000;
+
+/**
+ * Number of conflicting addresses listed in a move result
+ */
+const MAX_CONFLICTS_LISTED = 20;
+
+/**
+ * Longest a bulk transaction may run
+ */
+const BULK_TRANSACTION_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Read the actions of a bulk request
+ * @param value - `actions` of the request body
+ * @returns Actions, or an error message
+ */
+export function parseBulkActions(value: unknown): BulkAction[] | { error: string } {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: 'actions must be a non-empty list' };
+  }
+
+  const actions: BulkAction[] = [];
+  for (const action of value) {
+    switch (action?.type) {
+      case 'delete':
+        actions.push({ type: 'delete' });
+        break;
+      case 'move':
+        if (typeof action.journalId !== 'string' || !action.journalId) {
+          return { error: 'A move needs a journalId' };
+        }
+        if (action.onConflict !== undefined && action.onConflict !== 'skip' && action.onConflict !== 'delete') {
+          return { error: 'onConflict must be skip or delete' };
+        }
+        actions.push({ type: 'move', journalId: action.journalId, onConflict: action.onConflict ?? 'skip' });
+        break;
+      case 'status':
+        if (!isContactStatus(action.status)) {
+          return { error: 'Status must be ACTIVE, BOUNCED, UNSUBSCRIBED or COMPLAINED' };
+        }
+        actions.push({
+          type: 'status',
+          status: action.status,
+          reason: typeof action.reason === 'string' ? action.reason : null,
+        });
+        break;
+      default:
+        return { error: 'Action type must be delete, move or status' };
+    }
+  }
+  return actions;
+}
+
+/**
+ * Split IDs into batches of `IN (...)` size
+ * @param ids - Contact IDs
+ * @returns Batches of at most STATUS_BATCH_SIZE IDs
+ */
+function toBatches(ids: string[]): string[][] {
+  const batches: string[][] = [];
+  for (let i = 0; i < ids.length; i += STATUS_BATCH_SIZE) {
+    batches.push(ids.slice(i, i + STATUS_BATCH_SIZE));
+  }
+  return batches;
+}
+
+/**
+ * Delete contacts
+ * @param tx - Transaction client
+ * @param ids - Contact IDs
+ * @returns Delete result
+ */
+async function deleteContacts(tx: Prisma.TransactionClient, ids: string[]): Promise<BulkActionResult> {
+  let deleted = 0;
+  for (const batch of toBatches(ids)) {
+    const result = await tx.emailContact.deleteMany({ where: { id: { in: batch } } });
+    deleted += result.count;
+  }
+  return { type: 'delete', deleted };
+}
+
+/**
+ * Move contacts to another journal
+ * An email address is unique per journal, so a contact whose address is
+ * already in the target journal (stored there, or moved there earlier in
+ * the same request) is a conflict: it is left alone or deleted.
+ * @param tx - Transaction client
+ * @param ids - Contact IDs
+ * @param action - Target journal and conflict handling
+ * @returns Move result
+ */
+async function moveContacts(
+  tx: Prisma.TransactionClient,
+  ids: string[],
+  { journalId, onConflict }: { journalId: string; onConflict: MoveConflictMode },
+): Promise<BulkActionResult> {
+  const result = { type: 'move' as const, moved: 0, unchanged: 0, conflicts: 0, deleted: 0, conflictEmails: [] as string[] };
+  const taken = new Set<string>();
+
+  for (const batch of toBatches(ids)) {
+    const contacts = await tx.emailContact.findMany({
+      where: { id: { in: batch } },
+      select: { id: true, email: true, journalId: true },
+    });
+    const existing = await tx.emailContact.findMany({
+      where: { journalId, email: { in: contacts.map(({ email }) => email) } },
+      select: { email: true },
+    });
+    existing.forEach(({ email }) => taken.add(email));
+
+    const moving: string[] = [];
+    const conflicting: string[] = [];
+    contacts.forEach((contact) => {
+      if (contact.journalId === journalId) {
+        result.unchanged += 1;
+      } else if (taken.has(contact.email)) {
+        conflicting.push(contact.id);
+        if (result.conflictEmails.length < MAX_CONFLICTS_LISTED) result.conflictEmails.push(contact.email);
+      } else {
+        moving.push(contact.id);
+        taken.add(contact.email);
+      }
+    });
+
+    if (moving.length > 0) {
+      const moved = await tx.emailContact.updateMany({ where: { id: { in: moving } }, data: { journalId } });
+      result.moved += moved.count;
+    }
+    result.conflicts += conflicting.length;
+    if (onConflict === 'delete' && conflicting.length > 0) {
+      const deleted = await tx.emailContact.deleteMany({ where: { id: { in: conflicting } } });
+      result.deleted += deleted.count;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Change the status of contacts (with history entries)
+ * @param tx - Transaction client
+ * @param ids - Contact IDs
+ * @param action - New status and reason
+ * @param changedBy - User making the change
+ * @returns Status result
+ */
+async function changeStatus(
+  tx: Prisma.TransactionClient,
+  ids: string[],
+  { status, reason }: { status: ContactStatus; reason: string | null },
+  changedBy: string,
+): Promise<BulkActionResult> {
+  let changed = 0;
+  for (const batch of toBatches(ids)) {
+    changed += await writeStatusChanges(tx, batch, status, { reason, changedBy });
+  }
+  return { type: 'status', changed };
+}
+
+/**
+ * Check that a bulk selection is neither empty nor too large
+ * @param where - Selected contacts
+ * @returns Error message, or null when the selection can be changed
+ */
+export async function getBulkSelectionError(where: Prisma.EmailContactWhereInput): Promise<string | null> {
+  const count = await prisma.emailContact.count({ where });
+  if (count === 0) return 'No contacts match the selection';
+  if (count > MAX_BULK_CONTACTS) {
+    return `The selection has ${count} contacts - bulk actions are limited to ${MAX_BULK_CONTACTS}, narrow the filters`;
+  }
+  return null;
+}
+
+/**
+ * Apply bulk actions to the selected contacts
+ * The selection is read once at the start; actions run in order, each on
+ * the selected contacts that still exist (nothing is left to change after
+ * a delete).
+ * @param where - Selected contacts
+ * @param actions - Actions to apply
+ * @param changedBy - User making the changes (recorded in status history)
+ * @returns Number of selected contacts and the result of each action
+ */
+export async function runBulkActions(
+  where: Prisma.EmailContactWhereInput,
+  actions: BulkAction[],
+  changedBy: string,
+): Promise<{ contacts: number; results: BulkActionResult[] }> {
+  return prisma.$transaction(async (tx) => {
+    const selected = await tx.emailContact.findMany({ where, select: { id: true }, orderBy: { id: 'asc' } });
+    const ids = selected.map(({ id }) => id);
+    const results: BulkActionResult[] = [];
+
+    for (const action of actions) {
+      if (action.type === 'delete') {
+        results.push(await deleteContacts(tx, ids));
+      } else if (action.type === 'move') {
+        results.push(await moveContacts(tx, ids, action));
+      } else {
+        results.push(await changeStatus(tx, ids, action, changedBy));
+      }
+    }
+
+    return { contacts: ids.length, results };
+  }, { timeout: BULK_TRANSACTION_TIMEOUT_MS });
+}
@@ -0,0 +1,307 @@
+import type { ContactStatus, Prisma, Status } from '@prisma/client';
+import { parseContactStatusList } from '@/lib/contactStatus';
+
+/**
+ * Contact search filters
+ *
+ * One filter vocabulary shared by the contacts search and the export (and
+ * its live match count), read from the same query parameters everywhere.
+ */
+
+/**
+ * Filters of a contact search or export
+ */
+export interface ContactFilters {
+  /** Only these contacts (e.g. rows selected on the Contacts page) */
+  ids?: string[];
+  /** Text matched against name, email and article title */
+  search?: string | null;
+  /** Only contacts created on or after this date (YYYY-MM-DD) */
+  startDate?: string | null;
+  /** Only contacts created on or before this date (YYYY-MM-DD) */
+  endDate?: string | null;
+  journalId?: string | null;
+  brandId?: string | null;
+  /** Collection year range (inclusive) */
+  yearFrom?: number | null;
+  yearTo?: number | null;
+  /** Email domains to keep (e.g. "example.org" or ".edu") */
+  includeDomains?: string[];
+  /** Email domains to leave out */
+  excludeDomains?: string[];
+  /** Only contacts with (true) or without (false) a phone number */
+  hasPhone?: boolean | null;
+  /** Contact statuses to keep (e.g. only ACTIVE) */
+  statuses?: ContactStatus[];
+  journalStatus?: Status | null;
+  brandStatus?: Status | null;
+}
+
+/**
+ * Read a whole number query parameter
+ * @param value - Raw parameter value
+ * @returns Parsed number, or null when missing or not a number
+ */
+function parseIntParam(value: string | null): number | null {
+  if (!value) return null;
+  const number = parseInt(value, 10);
+  return Number.isNaN(number) ? null : number;
+}
+
+/**
+ * Read a true/false query parameter
+ * @param value - Raw parameter value
+ * @returns Parsed flag, or null when missing
+ */
+function parseBooleanParam(value: string | null): boolean | null {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return null;
+}
+
+/**
+ * Read an ACTIVE/INACTIVE query parameter
+ * @param value - Raw parameter value
+ * @returns Status, or null when missing or unknown
+ */
+function parseStatusParam(value: string | null): Status | null {
+  return value === 'ACTIVE' || value === 'INACTIVE' ? value : null;
+}
+
+/**
+ * Split a comma-separated domain list
+ * A leading "@" is dropped, so "@example.org" and "example.org" are the same.
+ * @param value - Raw parameter value
+ * @returns Lowercase domains
+ */
+export function parseDomainList(value: string | null | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(/[\s,;]+/)
+    .map((domain) => domain.trim().toLowerCase().replace(/^@/, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Split a comma-separated ID list
+ * @param value - Raw parameter value
+ * @returns IDs, without blanks
+ */
+function parseIdList(value: string | null): string[] {
+  if (!value) return [];
+  return value.split(',').map((id) => id.trim()).filter(Boolean);
+}
+
+/**
+ * Read contact filters from query parameters
+ * @param searchParams - Request query parameters
+ * @returns Contact filters
+ */
+export function parseContactFilters(searchParams: URLSearchParams): ContactFilters {
+  return {
+    ids: parseIdList(searchParams.get('ids')),
+    search: searchParams.get('search'),
+    startDate: searchParams.get('startDate'),
+    endDate: searchParams.get('endDate'),
+    journalId: searchParams.get('journalId'),
+    brandId: searchParams.get('brandId') || searchParams.get('brand'),
+    yearFrom: parseIntParam(searchParams.get('yearFrom')),
+    yearTo: parseIntParam(searchParams.get('yearTo')),
+    includeDomains: parseDomainList(searchParams.get('includeDomains')),
+    excludeDomains: parseDomainList(searchParams.get('excludeDomains')),
+    hasPhone: parseBooleanParam(searchParams.get('hasPhone')),
+    statuses: parseContactStatusList(searchParams.get('status')),
+    journalStatus: parseStatusParam(searchParams.get('journalStatus')),
+    brandStatus: parseStatusParam(searchParams.get('brandStatus')),
+  };
+}
+
+/**
+ * Write contact filters as query parameters (empty filters are left out)
+ * @param filters - Contact filters
+ * @returns Query parameters
+ */
+export function toContactFilterParams(filters: ContactFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string | number | boolean | null | undefined) => {
+    if (value !== null && value !== undefined && value !== '') params.set(key, String(value));
+  };
+
+  set('ids', filters.ids?.join(','));
+  set('search', filters.search?.trim());
+  set('startDate', filters.startDate);
+  set('endDate', filters.endDate);
+  set('journalId', filters.journalId);
+  set('brandId', filters.brandId);
+  set('yearFrom', filters.yearFrom);
+  set('yearTo', filters.yearTo);
+  set('includeDomains', filters.includeDomains?.join(','));
+  set('excludeDomains', filters.excludeDomains?.join(','));
+  set('hasPhone', filters.hasPhone);
+  set('status', filters.statuses?.join(','));
+  set('journalStatus', filters.journalStatus);
+  set('brandStatus', filters.brandStatus);
+  return params;
+}
+
+/**
+ * Labels of the contact filter query parameters
+ */
+const FILTER_LABELS: Record<string, string> = {
+  ids: 'Selected contacts',
+  search: 'Search',
+  startDate: 'Added from',
+  endDate: 'Added to',
+  journalId: 'Journal',
+  brandId: 'Brand',
+  yearFrom: 'Year from',
+  yearTo: 'Year to',
+  includeDomains: 'Domains',
+  excludeDomains: 'Excluding',
+  hasPhone: 'Has phone',
+  status: 'Status',
+  journalStatus: 'Journal status',
+  brandStatus: 'Brand status',
+};
+
+/**
+ * Describe stored filter query parameters (e.g. of a logged or scheduled export)
+ * @param params - Contact filter query parameters
+ * @param names - Journal and brand names by ID
+ * @returns e.g. "Brand: Acme; Year from: 2023", or "All contacts"
+ */
+export function describeContactFilters(params: Record<string, string>, names: Record<string, string> = {}): string {
+  const parts = Object.entries(params).map(([key, value]) => {
+    const label = FILTER_LABELS[key] ?? key;
+    if (key === 'ids') return `${label}: ${value.split(',').length}`;
+    return `${label}: ${key === 'journalId' || key === 'brandId' ? names[value] ?? value : value}`;
+  });
+  return parts.length > 0 ? parts.join('; ') : 'All contacts';
+}
+
+/**
+ * Email filter for one domain
+ * ".edu" matches every address ending in .edu; "example.org" matches the
+ * domain and its subdomains (e.g. mail.example.org).
+ * @param domain - Lowercase domain
+ * @returns Prisma where clause
+ */
+export function domainWhere(domain: string): Prisma.EmailContactWhereInput {
+  if (domain.startsWith('.')) {
+    return { email: { endsWith: domain, mode: 'insensitive' } };
+  }
+  return {
+    OR: [
+      { email: { endsWith: `@${domain}`, mode: 'insensitive' } },
+      { email: { endsWith: `.${domain}`, mode: 'insensitive' } },
+    ],
+  };
+}
+
+/**
+ * Build the Prisma filter for a contact search or export
+ * @param filters - Contact filters
+ * @returns Prisma where clause
+ */
+export function buildContactWhere(filters: ContactFilters): Prisma.EmailContactWhereInput {
+  const {
+    ids = [],
+    search,
+    startDate,
+    endDate,
+    journalId,
+    brandId,
+    yearFrom,
+    yearTo,
+    includeDomains = [],
+    excludeDomains = [],
+    hasPhone,
+    statuses = [],
+    journalStatus,
+    brandStatus,
+  } = filters;
+  const conditions: Prisma.EmailContactWhereInput[] = [];
+
+  if (ids.length > 0) {
+    conditions.push({ id: { in: ids } });
+  }
+
+  if (search?.trim()) {
+    const text = search.trim();
+    conditions.push({
+      OR: [
+        { name: { contains: text, mode: 'insensitive' } },
+        { email: { contains: text, mode: 'insensitive' } },
+        { articleTitle: { contains: text, mode: 'insensitive' } },
+      ],
+    });
+  }
+
+  if (startDate || endDate) {
+    const createdAt: Prisma.DateTimeFilter = {};
+    if (startDate) {
+      // Start of the day (00:00:00.000)
+      createdAt.gte = new Date(startDate);
+    }
+    if (endDate) {
+      // End of the day (23:59:59.999) to include all records created on that day
+      const endOfDay = new Date(endDate);
+      endOfDay.setHours(23, 59, 59, 999);
+      createdAt.lte = endOfDay;
+    }
+    conditions.push({ createdAt });
+  }
+
+  if (journalId) {
+    conditions.push({ journalId });
+  }
+
+  if (yearFrom !== null && yearFrom !== undefined) {
+    conditions.push({ year: { gte: yearFrom } });
+  }
+  if (yearTo !== null && yearTo !== undefined) {
+    conditions.push({ year: { lte: yearTo } });
+  }
+
+  if (includeDomains.length > 0) {
+    conditions.push({ OR: includeDomains.map(domainWhere) });
+  }
+  if (excludeDomains.length > 0) {
+    conditions.push({ NOT: excludeDomains.map(domainWhere) });
+  }
+
+  if (hasPhone === true) {
+    conditions.push({ phone: { not: null } }, { NOT: { phone: '' } });
+  } else if (hasPhone === false) {
+    conditions.push({ OR: [{ phone: null }, { phone: '' }] });
+  }
+
+  if (statuses.length > 0) {
+    conditions.push({ status: { in: statuses } });
+  }
+
+  const journal: Prisma.JournalWhereInput = {};
+  if (brandId) journal.brandId = brandId;
+  if (journalStatus) journal.status = journalStatus;
+  if (brandStatus) journal.brand = { status: brandStatus };
+  if (Object.keys(journal).length > 0) {
+    conditions.push({ journal });
+  }
+
+  return conditions.length > 0 ? { AND: conditions } : {};
+}
+
+/**
+ * Build the Prisma filter for an export
+ * Same as the contact search, except that suppressed contacts are always
+ * left out (see suppressions), and that only active contacts are exported
+ * unless statuses are chosen explicitly (so bounced, unsubscribed and
+ * complained addresses drop out of the next export).
+ * @param filters - Contact filters
+ * @returns Prisma where clause
+ */
+export function buildExportWhere(filters: ContactFilters): Prisma.EmailContactWhereInput {
+  const conditions: Prisma.EmailContactWhereInput[] = [buildContactWhere(filters), { suppressed: false }];
+  if (!filters.statuses?.length) conditions.push({ status: 'ACTIVE' });
+  return { AND: conditions };
+}
@@ -0,0 +1,56 @@
+import type { ContactStatus } from '@prisma/client';
+
+/**
+ * Contact lifecycle status
+ *
+ * Every contact has a deliverability status (active, bounced, unsubscribed
+ * or complained). Each change is recorded as a ContactStatusChange with its
+ * reason, so the history of an address can be traced (see
+ * contactStatusChanges for the writes; this module is safe to use in pages).
+ */
+
+/**
+ * Statuses in display order, with labels
+ */
+export const CONTACT_STATUSES: Array<{ status: ContactStatus; label: string; description: string }> = [
+  { status: 'ACTIVE', label: 'Active', description: 'Deliverable as far as we know' },
+  { status: 'BOUNCED', label: 'Bounced', description: 'Hard bounce: the address does not exist or rejects mail' },
+  { status: 'UNSUBSCRIBED', label: 'Unsubscribed', description: 'Asked not to receive mail' },
+  { status: 'COMPLAINED', label: 'Complained', description: 'Marked a message as spam' },
+];
+
+/**
+ * Longest reason stored with a status change
+ */
+export const MAX_STATUS_REASON_LENGTH = 500;
+
+/**
+ * Check whether a value is a contact status
+ * @param value - Value to check
+ * @returns Whether the value is a ContactStatus
+ */
+export function isContactStatus(value: unknown): value is ContactStatus {
+  return CONTACT_STATUSES.some(({ status }) => status === value);
+}
+
+/**
+ * Label of a contact status
+ * @param status - Contact status
+ * @returns e.g. "Unsubscribed"
+ */
+export function getContactStatusLabel(status: ContactStatus): string {
+  return CONTACT_STATUSES.find((s) => s.status === status)?.label ?? status;
+}
+
+/**
+ * Split a comma-separated status list
+ * @param value - Raw parameter value (e.g. "BOUNCED,COMPLAINED")
+ * @returns Known statuses (unknown values are dropped)
+ */
+export function parseContactStatusList(value: string | null | undefined): ContactStatus[] {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map((status) => status.trim().toUpperCase())
+    .filter(isContactStatus);
+}
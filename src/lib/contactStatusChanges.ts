@@ -0,0 +1,85 @@
+import type { ContactStatus, Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { MAX_STATUS_REASON_LENGTH } from '@/lib/contactStatus';
+
+/**
+ * Contact status changes
+ *
+ * Writes status changes together with their ContactStatusChange history
+ * entries, for single contacts and for bulk changes over a contact filter.
+ */
+
+/**
+ * Contacts whose status is changed per transaction
+ */
+export const STATUS_BATCH_SIZE = 1000;
+
+/**
+ * Change the status of the given contacts and record the change
+ * Contacts that already have the status are left alone. Meant to run
+ * inside a transaction, with at most STATUS_BATCH_SIZE IDs.
+ * @param tx - Transaction client
+ * @param ids - Contact IDs
+ * @param status - New status
+ * @param options - Reason for the change and the user making it
+ * @returns Number of contacts whose status changed
+ */
+export async function writeStatusChanges(
+  tx: Prisma.TransactionClient,
+  ids: string[],
+  status: ContactStatus,
+  { reason, changedBy }: { reason?: string | null; changedBy: string },
+): Promise<number> {
+  const contacts = await tx.emailContact.findMany({
+    where: { id: { in: ids }, status: { not: status } },
+    select: { id: true },
+  });
+  if (contacts.length === 0) return 0;
+
+  const pending = contacts.map(({ id }) => id);
+  const note = reason?.trim().slice(0, MAX_STATUS_REASON_LENGTH) || null;
+  const changedAt = new Date();
+  const updated = await tx.emailContact.updateMany({
+    where: { id: { in: pending } },
+    data: { status, statusChangedAt: changedAt },
+  });
+  await tx.contactStatusChange.createMany({
+    data: pending.map((contactId) => ({ contactId, status, reason: note, changedBy, createdAt: changedAt })),
+  });
+  return updated.count;
+}
+
+/**
+ * Change the status of contacts and record the change in their history
+ * Contacts that already have the status are left alone. Contacts are
+ * updated in batches; each batch (status and history) is one transaction.
+ * @param where - Contacts to change (a single ID, or any contact filter)
+ * @param status - New status
+ * @param options - Reason for the change and the user making it
+ * @returns Number of contacts whose status changed
+ */
+export async function changeContactStatus(
+  where: Prisma.EmailContactWhereInput,
+  status: ContactStatus,
+  options: { reason?: string | null; changedBy: string },
+): Promise<number> {
+  const pending: Prisma.EmailContactWhereInput = { AND: [where, { status: { not: status } }] };
+  let changed = 0;
+
+  // Changed contacts no longer match, so each query returns the next batch
+  for (;;) {
+    const contacts = await prisma.emailContact.findMany({
+      where: pending,
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: STATUS_BATCH_SIZE,
+    });
+    if (contacts.length === 0) break;
+
+    const ids = contacts.map(({ id }) => id);
+    changed += await prisma.$transaction((tx) => writeStatusChanges(tx, ids, status, options));
+    if (contacts.length < STATUS_BATCH_SIZE) break;
+  }
+
+  return changed;
+}
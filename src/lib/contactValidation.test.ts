@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { validateContact } from '@/lib/contactValidation';
+
+describe('validateContact', () => {
+  it('trims the fields and lowercases the email address', () => {
+    expect(validateContact({
+      name: ' Ada Lovelace ',
+      email: 'Ada@Example.org',
+      journalId: 'j1',
+      phone: '',
+      year: '2023',
+    })).toEqual({
+      contact: {
+        name: 'Ada Lovelace',
+        email: 'ada@example.org',
+        phone: null,
+        articleTitle: null,
+        journalId: 'j1',
+        year: 2023,
+      },
+    });
+  });
+
+  it('rejects years that are not whole numbers in range', () => {
+    const contact = { name: 'Ada', email: 'ada@example.org', journalId: 'j1' };
+    ['2023abc', '2023.9', '1800'].forEach((year) => {
+      expect(validateContact({ ...contact, year })).toEqual({
+        errors: { year: 'Year must be between 1900 and 2100' },
+      });
+    });
+  });
+
+  it('reports every required field for a body that is not an object', () => {
+    const errors = {
+      name: 'Name is required',
+      email: 'Email is required',
+      journalId: 'Journal is required',
+    };
+    expect(validateContact(null as never)).toEqual({ errors });
+    expect(validateContact(['Ada'] as never)).toEqual({ errors });
+  });
+});
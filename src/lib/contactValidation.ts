@@ -0,0 +1,104 @@
+import { isValidEmail } from '@/lib/utils';
+
+/**
+ * Contact validation
+ *
+ * Checks the fields of a contact created or edited by hand, the same way in
+ * the contacts API and in the contact form (so errors can be shown next to
+ * each field before anything is sent).
+ */
+
+/**
+ * Contact fields as entered
+ */
+export interface ContactInput {
+  name?: unknown;
+  email?: unknown;
+  phone?: unknown;
+  articleTitle?: unknown;
+  journalId?: unknown;
+  year?: unknown;
+}
+
+/**
+ * Error message per field, e.g. { email: 'Invalid email format' }
+ */
+export type ContactFieldErrors = Partial<Record<keyof ContactInput, string>>;
+
+/**
+ * Validated contact fields
+ */
+export interface ContactData {
+  name: string;
+  /** Lowercase email address */
+  email: string;
+  phone: string | null;
+  articleTitle: string | null;
+  journalId: string;
+  /** Collection year; undefined when not given (left unchanged on update) */
+  year: number | null | undefined;
+}
+
+/**
+ * Accepted collection years (same range as imports)
+ */
+export const MIN_CONTACT_YEAR = 1900;
+export const MAX_CONTACT_YEAR = 2100;
+
+/**
+ * Read an optional text field
+ * @param value - Raw value
+ * @returns Trimmed text, or null when empty
+ */
+function readText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Validate the fields of a contact
+ * @param input - Contact fields (a request body or form values)
+ * @returns Validated fields, or an error message per invalid field
+ */
+export function validateContact(input: ContactInput): { contact: ContactData } | { errors: ContactFieldErrors } {
+  // A request body can be any JSON value; one that is not an object has no fields
+  const fields: ContactInput = input && typeof input === 'object' && !Array.isArray(input) ? input : {};
+  const errors: ContactFieldErrors = {};
+  const name = readText(fields.name);
+  const email = readText(fields.email)?.toLowerCase() ?? null;
+  const journalId = readText(fields.journalId);
+
+  if (!name) errors.name = 'Name is required';
+  if (!email) {
+    errors.email = 'Email is required';
+  } else if (!isValidEmail(email)) {
+    errors.email = 'Invalid email format';
+  }
+  if (!journalId) errors.journalId = 'Journal is required';
+
+  let year: number | null | undefined;
+  if (fields.year === undefined) {
+    year = undefined;
+  } else if (fields.year === null || fields.year === '') {
+    year = null;
+  } else {
+    year = typeof fields.year === 'number' ? fields.year : Number(String(fields.year).trim());
+    if (!Number.isInteger(year) || year < MIN_CONTACT_YEAR || year > MAX_CONTACT_YEAR) {
+      errors.year = `Year must be between ${MIN_CONTACT_YEAR} and ${MAX_CONTACT_YEAR}`;
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { errors };
+  }
+
+  return {
+    contact: {
+      name: name as string,
+      email: email as string,
+      phone: readText(fields.phone),
+      articleTitle: readText(fields.articleTitle),
+      journalId: journalId as string,
+      year,
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { getCronError, getNextCronRun } from '@/lib/cron';
+
+/**
+ * Next run as an ISO string, for readable assertions
+ * @param expression - Cron expression
+ * @param after - UTC time to search from
+ * @returns Next run time, or null
+ */
+function nextRun(expression: string, after: string): string | null {
+  return getNextCronRun(expression, new Date(after))?.toISOString() ?? null;
+}
+
+describe('getNextCronRun', () => {
+  it('returns the next matching minute, strictly after the given time', () => {
+    expect(nextRun('*/15 * * * *', '2026-10-19T10:07:30Z')).toBe('2026-10-19T10:15:00.000Z');
+    expect(nextRun('*/15 * * * *', '2026-10-19T10:15:00Z')).toBe('2026-10-19T10:30:00.000Z');
+  });
+
+  it('rolls over to the next day, month and year', () => {
+    expect(nextRun('@daily', '2026-10-19T23:59:00Z')).toBe('2026-10-20T00:00:00.000Z');
+    expect(nextRun('@monthly', '2026-10-19T06:00:00Z')).toBe('2026-11-01T00:00:00.000Z');
+    expect(nextRun('30 6 1 JAN *', '2026-10-19T06:00:00Z')).toBe('2027-01-01T06:30:00.000Z');
+  });
+
+  it('accepts ranges, lists, steps and names', () => {
+    expect(nextRun('0 9-17/4 * * MON-FRI', '2026-10-19T13:00:00Z')).toBe('2026-10-19T17:00:00.000Z');
+    expect(nextRun('0 9,12 * * SAT', '2026-10-19T13:00:00Z')).toBe('2026-10-24T09:00:00.000Z');
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect(nextRun('0 0 * * 7', '2026-10-19T00:00:00Z')).toBe('2026-10-25T00:00:00.000Z');
+  });
+
+  it('runs on days matching either day field when both are restricted', () => {
+    // Friday the 2nd comes before the 13th
+    expect(nextRun('0 0 13 * FRI', '2026-10-01T00:00:00Z')).toBe('2026-10-02T00:00:00.000Z');
+    // Tuesday the 13th is not a Friday, but matches the day of month
+    expect(nextRun('0 0 13 * FRI', '2026-10-10T00:00:00Z')).toBe('2026-10-13T00:00:00.000Z');
+  });
+
+  it('only uses the other day field when one of them is "*"', () => {
+    expect(nextRun('0 0 * * FRI', '2026-10-02T00:00:00Z')).toBe('2026-10-09T00:00:00.000Z');
+    expect(nextRun('0 0 13 * *', '2026-10-02T00:00:00Z')).toBe('2026-10-13T00:00:00.000Z');
+  });
+
+  it('finds leap days and gives up on dates that never occur', () => {
+    expect(nextRun('0 0 29 2 *', '2026-10-19T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+    expect(nextRun('0 0 30 2 *', '2026-10-19T00:00:00Z')).toBeNull();
+  });
+});
+
+describe('getCronError', () => {
+  it('accepts valid expressions and shorthands', () => {
+    expect(getCronError('0 6 * * 1')).toBeNull();
+    expect(getCronError(' @Weekly ')).toBeNull();
+  });
+
+  it('explains what is wrong', () => {
+    expect(getCronError('0 6 * *')).toBe('A schedule needs 5 fields: minute hour day-of-month month day-of-week');
+    expect(getCronError('60 * * * *')).toBe('Invalid minute: 60');
+    expect(getCronError('0 18-9 * * *')).toBe('Invalid hour: 18-9');
+    expect(getCronError('*/0 * * * *')).toBe('Invalid minute: */0');
+    expect(getCronError('0 0 * FOO *')).toBe('Invalid month: FOO');
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Cron schedule helpers
+ *
+ * Standard 5-field cron expressions ("minute hour day-of-month month
+ * day-of-week"), evaluated in UTC. Fields accept "*", numbers, ranges
+ * ("1-5"), steps ("*\/15", "0-30/10"), lists ("1,15") and month and weekday
+ * names ("JAN", "MON"); "@hourly", "@daily", "@weekly" and "@monthly" are
+ * shorthands. As in cron, when both day fields are restricted a day matches
+ * if either of them does. Used by the Export page (to preview the next run)
+ * and by scheduled exports.
+ */
+
+/**
+ * Parsed cron expression
+ */
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0 = Sunday */
+  daysOfWeek: Set<number>;
+  /** Whether the day-of-month field is "*" */
+  anyDayOfMonth: boolean;
+  /** Whether the day-of-week field is "*" */
+  anyDayOfWeek: boolean;
+}
+
+const SHORTHANDS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+/**
+ * Fields of an expression in order: name, range and value names
+ */
+const FIELD_SPECS: Array<{ name: string; min: number; max: number; names?: string[]; nameOffset?: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  // 7 is also Sunday
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+];
+
+/**
+ * Furthest ahead the next run is searched for
+ */
+const MAX_SEARCH_YEARS = 5;
+
+/**
+ * Parse one field of a cron expression
+ * @param field - Field text (e.g. "1-5", "*\/10", "MON,WED")
+ * @param spec - Allowed range and value names
+ * @returns Matching values
+ * @throws Error with a readable message when the field is invalid
+ */
+function parseField(field: string, spec: typeof FIELD_SPECS[number]): Set<number> {
+  const values = new Set<number>();
+  const toNumber = (text: string): number => {
+    const index = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+    const value = index >= 0 ? index + (spec.nameOffset ?? 0) : /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+    if (Number.isNaN(value) || value < spec.min || value > spec.max) {
+      throw new Error(`Invalid ${spec.name}: ${text}`);
+    }
+    return value;
+  };
+
+  field.split(',').forEach((part) => {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (!range || Number.isNaN(step) || step < 1 || (stepText !== undefined && !/^\d+$/.test(stepText))) {
+      throw new Error(`Invalid ${spec.name}: ${part}`);
+    }
+
+    let start = spec.min;
+    let end = spec.max;
+    if (range !== '*') {
+      const [from, to] = range.split('-');
+      start = toNumber(from);
+      end = to === undefined ? (stepText === undefined ? start : spec.max) : toNumber(to);
+      if (end < start) {
+        throw new Error(`Invalid ${spec.name}: ${part}`);
+      }
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  });
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ * @param expression - Cron expression
+ * @returns Parsed fields
+ * @throws Error with a readable message when the expression is invalid
+ */
+function parseCron(expression: string): CronFields {
+  const text = expression.trim();
+  const fields = (SHORTHANDS[text.toLowerCase()] ?? text).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('A schedule needs 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELD_SPECS[i]));
+  if (daysOfWeek.has(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+}
+
+/**
+ * Validate a cron expression
+ * @param expression - Cron expression
+ * @returns Error message, or null when the expression is valid
+ */
+export function getCronError(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid schedule';
+  }
+}
+
+/**
+ * Check whether a (UTC) day matches the day fields of an expression
+ * @param cron - Parsed expression
+ * @param date - Day to check
+ * @returns Whether the expression runs on that day
+ */
+function matchesDay(cron: CronFields, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+  if (cron.anyDayOfMonth || cron.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * Next time a cron expression runs
+ * @param expression - Cron expression (UTC)
+ * @param after - Time to search from (the result is strictly later)
+ * @returns Next run time, or null when there is none in the next few years
+ * (e.g. "0 0 30 2 *")
+ * @throws Error when the expression is invalid
+ */
+export function getNextCronRun(expression: string, after: Date = new Date()): Date | null {
+  const cron = parseCron(expression);
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createTextDecoder,
+  decodeText,
+  describeCsvFormat,
+  detectCsvFormat,
+  detectDelimiter,
+  detectEncoding,
+} from '@/lib/csvFormat';
+
+const text = 'email;name\nada@example.org;Ada Müller\nalan@example.org;Alan Turing\n';
+
+/**
+ * Encode text as UTF-16
+ * @param value - Text
+ * @param byteOrder - Byte order
+ * @returns Encoded bytes (without a byte order mark)
+ */
+function utf16(value: string, byteOrder: 'le' | 'be'): Uint8Array {
+  const bytes = Buffer.from(value, 'utf16le');
+  return byteOrder === 'le' ? bytes : bytes.swap16();
+}
+
+describe('detectEncoding', () => {
+  it('uses the byte order mark', () => {
+    expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x61]))).toBe('utf-8');
+    expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x61, 0x00]))).toBe('utf-16le');
+    expect(detectEncoding(new Uint8Array([0xfe, 0xff, 0x00, 0x61]))).toBe('utf-16be');
+  });
+
+  it('recognizes UTF-16 without a byte order mark by its zero bytes', () => {
+    expect(detectEncoding(utf16(text, 'le'))).toBe('utf-16le');
+    expect(detectEncoding(utf16(text, 'be'))).toBe('utf-16be');
+  });
+
+  it('reads valid UTF-8 as UTF-8 and anything else as Windows-1252', () => {
+    expect(detectEncoding(new TextEncoder().encode(text))).toBe('utf-8');
+    expect(detectEncoding(new Uint8Array([0x4d, 0xfc, 0x6c, 0x6c, 0x65, 0x72]))).toBe('windows-1252');
+  });
+
+  it('accepts a UTF-8 character cut off at the end of the sample', () => {
+    const bytes = new TextEncoder().encode('name\nMüller');
+    expect(detectEncoding(bytes.subarray(0, bytes.indexOf(0xc3) + 1))).toBe('utf-8');
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('prefers a delimiter used the same number of times on every line', () => {
+    expect(detectDelimiter('email;name\nada@example.org;Lovelace, Ada\n')).toBe(';');
+    expect(detectDelimiter('email\tname\nada@example.org\tAda\n')).toBe('\t');
+  });
+
+  it('ignores delimiters inside quotes and the cut-off last line', () => {
+    expect(detectDelimiter('email|name\n"a,b@example.org"|Ada\nalan@example.org,')).toBe('|');
+  });
+
+  it('falls back to a comma', () => {
+    expect(detectDelimiter('email\nada@example.org\n')).toBe(',');
+  });
+});
+
+describe('detectCsvFormat', () => {
+  it('detects the encoding and delimiter together', () => {
+    expect(detectCsvFormat(utf16(text, 'le'))).toEqual({ encoding: 'utf-16le', delimiter: ';' });
+  });
+
+  it('keeps the values chosen by the user', () => {
+    expect(detectCsvFormat(new TextEncoder().encode(text), { delimiter: ',' })).toEqual({
+      encoding: 'utf-8',
+      delimiter: ',',
+    });
+  });
+});
+
+describe('decodeText', () => {
+  it('drops the byte order mark', () => {
+    expect(decodeText(new Uint8Array([0xef, 0xbb, 0xbf, 0x61]), 'utf-8')).toBe('a');
+    expect(decodeText(new Uint8Array([0xfe, 0xff, 0x00, 0xfc]), 'utf-16be')).toBe('ü');
+  });
+
+  it('decodes Windows-1252 punctuation and symbols', () => {
+    expect(decodeText(new Uint8Array([0x4d, 0xfc, 0x80, 0x93, 0x96, 0x94]), 'windows-1252')).toBe('Mü€“–”');
+  });
+});
+
+describe('createTextDecoder', () => {
+  it('keeps characters split across chunks together', () => {
+    const decoder = createTextDecoder('utf-8');
+    const bytes = new TextEncoder().encode('Müller');
+    expect(decoder.decode(bytes.subarray(0, 2), { stream: true }) + decoder.decode(bytes.subarray(2))).toBe('Müller');
+  });
+});
+
+describe('describeCsvFormat', () => {
+  it('names the encoding and delimiter', () => {
+    expect(describeCsvFormat({ encoding: 'utf-8', delimiter: ';' })).toBe('UTF-8, semicolon-separated');
+  });
+});
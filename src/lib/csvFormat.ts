@@ -0,0 +1,216 @@
+/**
+ * CSV encoding and delimiter detection
+ *
+ * Used by the Import page (to read headers and show what was detected) and
+ * by the import API (to decode the upload). Detection only looks at the
+ * start of the file; the user can override both values.
+ */
+
+/**
+ * Text encodings an uploaded CSV can be read with
+ */
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+/**
+ * Field delimiters an uploaded CSV can use
+ */
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+/**
+ * Encoding and delimiter of a CSV file
+ */
+export interface CsvFormat {
+  encoding: CsvEncoding;
+  delimiter: CsvDelimiter;
+}
+
+export const CSV_ENCODINGS: Array<{ encoding: CsvEncoding; label: string }> = [
+  { encoding: 'utf-8', label: 'UTF-8' },
+  { encoding: 'utf-16le', label: 'UTF-16 LE' },
+  { encoding: 'utf-16be', label: 'UTF-16 BE' },
+  { encoding: 'windows-1252', label: 'Windows-1252 (Western European)' },
+];
+
+export const CSV_DELIMITERS: Array<{ delimiter: CsvDelimiter; label: string }> = [
+  { delimiter: ',', label: 'Comma' },
+  { delimiter: ';', label: 'Semicolon' },
+  { delimiter: '\t', label: 'Tab' },
+  { delimiter: '|', label: 'Pipe' },
+];
+
+/**
+ * Format assumed when nothing is detected or chosen
+ */
+export const DEFAULT_CSV_FORMAT: CsvFormat = { encoding: 'utf-8', delimiter: ',' };
+
+/**
+ * Bytes read from the start of a file for detection
+ */
+export const FORMAT_SAMPLE_BYTES = 64 * 1024;
+
+/**
+ * Share of zero bytes at even or odd positions that marks BOM-less UTF-16
+ */
+const UTF16_ZERO_RATIO = 0.3;
+
+/**
+ * Windows-1252 characters of the bytes 0x80-0x9f (unassigned bytes keep
+ * their code point)
+ */
+const WINDOWS_1252_HIGH_BYTES = '€\x81‚ƒ„…†‡ˆ‰Š‹Œ\x8dŽ\x8f\x90‘’“”•–—˜™š›œ\x9džŸ';
+
+/**
+ * Decodes file bytes, optionally chunk by chunk (like TextDecoder)
+ */
+export interface CsvTextDecoder {
+  decode(bytes?: Uint8Array, options?: { stream?: boolean }): string;
+}
+
+/**
+ * Check whether a value is a supported encoding
+ * @param value - Value to check (e.g. a form field)
+ * @returns Whether the value is a CsvEncoding
+ */
+export function isCsvEncoding(value: unknown): value is CsvEncoding {
+  return CSV_ENCODINGS.some(({ encoding }) => encoding === value);
+}
+
+/**
+ * Check whether a value is a supported delimiter
+ * @param value - Value to check (e.g. a form field)
+ * @returns Whether the value is a CsvDelimiter
+ */
+export function isCsvDelimiter(value: unknown): value is CsvDelimiter {
+  return CSV_DELIMITERS.some(({ delimiter }) => delimiter === value);
+}
+
+/**
+ * Detect the text encoding from the start of a file
+ * A byte order mark wins; otherwise UTF-16 is recognized by its zero bytes,
+ * and anything that is not valid UTF-8 is read as Windows-1252.
+ * @param bytes - Start of the file
+ * @returns Detected encoding
+ */
+export function detectEncoding(bytes: Uint8Array): CsvEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  const sample = bytes.subarray(0, 1024);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  sample.forEach((byte, index) => {
+    if (byte !== 0) return;
+    if (index % 2 === 0) evenZeros += 1;
+    else oddZeros += 1;
+  });
+  const half = sample.length / 2;
+  if (half > 0 && oddZeros / half > UTF16_ZERO_RATIO) return 'utf-16le';
+  if (half > 0 && evenZeros / half > UTF16_ZERO_RATIO) return 'utf-16be';
+
+  try {
+    // stream: true so a character cut off at the end of the sample is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+/**
+ * Count a delimiter in a line, ignoring quoted text
+ * @param line - Line of the file
+ * @param delimiter - Delimiter to count
+ * @returns Number of occurrences
+ */
+function countDelimiter(line: string, delimiter: CsvDelimiter): number {
+  let count = 0;
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (char === delimiter && !quoted) count += 1;
+  }
+  return count;
+}
+
+/**
+ * Detect the delimiter from the first lines of a file
+ * Prefers the delimiter that appears the same number of times on every
+ * line, then the one that appears most often.
+ * @param text - Decoded start of the file
+ * @returns Detected delimiter (comma when nothing else fits)
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const lines = text.split(/\r\n|\n|\r/).filter((line) => line.trim()).slice(0, 10);
+  // The last line of a sample may be cut off
+  if (lines.length > 1) lines.pop();
+
+  let best: { delimiter: CsvDelimiter; consistent: boolean; average: number } | null = null;
+  for (const { delimiter } of CSV_DELIMITERS) {
+    const counts = lines.map((line) => countDelimiter(line, delimiter));
+    const average = counts.reduce((sum, count) => sum + count, 0) / Math.max(counts.length, 1);
+    if (average === 0) continue;
+    const consistent = counts.every((count) => count === counts[0]);
+    if (
+      !best
+      || (consistent && !best.consistent)
+      || (consistent === best.consistent && average > best.average)
+    ) {
+      best = { delimiter, consistent, average };
+    }
+  }
+
+  return best?.delimiter ?? ',';
+}
+
+/**
+ * Create a decoder for an encoding (a leading byte order mark is dropped)
+ * Node's TextDecoder reads windows-1252 as ISO-8859-1, which turns the
+ * euro sign, curly quotes and dashes into control characters, so those
+ * bytes are mapped here.
+ * @param encoding - Text encoding
+ * @returns Text decoder
+ */
+export function createTextDecoder(encoding: CsvEncoding): CsvTextDecoder {
+  const decoder = new TextDecoder(encoding);
+  if (encoding !== 'windows-1252') return decoder;
+  return {
+    decode: (bytes, options) => decoder.decode(bytes, options).replace(
+      /[\x80-\x9f]/g,
+      (char) => WINDOWS_1252_HIGH_BYTES[char.charCodeAt(0) - 0x80],
+    ),
+  };
+}
+
+/**
+ * Decode file contents (a leading byte order mark is dropped)
+ * @param bytes - File contents
+ * @param encoding - Text encoding
+ * @returns Decoded text
+ */
+export function decodeText(bytes: Uint8Array, encoding: CsvEncoding): string {
+  return createTextDecoder(encoding).decode(bytes);
+}
+
+/**
+ * Detect the encoding and delimiter of a file, keeping any values the user chose
+ * @param sample - Start of the file
+ * @param overrides - Values chosen by the user
+ * @returns Format to read the file with
+ */
+export function detectCsvFormat(sample: Uint8Array, overrides: Partial<CsvFormat> = {}): CsvFormat {
+  const encoding = overrides.encoding || detectEncoding(sample);
+  const delimiter = overrides.delimiter || detectDelimiter(decodeText(sample, encoding));
+  return { encoding, delimiter };
+}
+
+/**
+ * Describe a format for display, e.g. "UTF-8, semicolon-separated"
+ * @param format - CSV format
+ * @returns Readable description
+ */
+export function describeCsvFormat({ encoding, delimiter }: CsvFormat): string {
+  const encodingLabel = CSV_ENCODINGS.find((e) => e.encoding === encoding)?.label ?? encoding;
+  const delimiterLabel = CSV_DELIMITERS.find((d) => d.delimiter === delimiter)?.label ?? delimiter;
+  return `${encodingLabel}, ${delimiterLabel.toLowerCase()}-separated`;
+}
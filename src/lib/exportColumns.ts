@@ -0,0 +1,385 @@
+/**
+ * Export column definitions
+ *
+ * Shared by the Export page (column editor and profiles) and the export API
+ * (to build the file). An export is an ordered list of columns, each with an
+ * optional custom header label.
+ */
+
+/**
+ * Fields that can be exported
+ */
+export type ExportColumn =
+  | 'id'
+  | 'name'
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'phone'
+  | 'articleTitle'
+  | 'year'
+  | 'journal'
+  | 'issn'
+  | 'brand'
+  | 'brandCode'
+  | 'tags'
+  | 'createdAt';
+
+/**
+ * A column of an export with its header label
+ * (a type alias so column lists can be stored as JSON on an ExportProfile)
+ */
+export type ExportColumnConfig = {
+  column: ExportColumn;
+  /** Header label in the file (defaults to the column's header) */
+  label?: string;
+};
+
+/**
+ * Available export columns
+ * `header` is the default header label in the exported file.
+ */
+export const EXPORT_COLUMNS: Array<{ column: ExportColumn; label: string; header: string }> = [
+  { column: 'name', label: 'Name', header: 'name' },
+  { column: 'firstName', label: 'First Name', header: 'first_name' },
+  { column: 'lastName', label: 'Last Name', header: 'last_name' },
+  { column: 'email', label: 'Email', header: 'email' },
+  { column: 'phone', label: 'Phone', header: 'phone' },
+  { column: 'articleTitle', label: 'Article Title', header: 'article_title' },
+  { column: 'year', label: 'Year', header: 'year' },
+  { column: 'journal', label: 'Journal Name', header: 'journal' },
+  { column: 'issn', label: 'Journal ISSN', header: 'issn' },
+  { column: 'brand', label: 'Brand Name', header: 'brand' },
+  { column: 'brandCode', label: 'Brand Code', header: 'brand_code' },
+  { column: 'tags', label: 'Tags (brand and journal)', header: 'tags' },
+  { column: 'createdAt', label: 'Created At', header: 'created_at' },
+  { column: 'id', label: 'Contact ID', header: 'id' },
+];
+
+/**
+ * Columns exported when none are chosen
+ */
+export const DEFAULT_EXPORT_COLUMNS: ExportColumnConfig[] = [
+  { column: 'name' },
+  { column: 'email' },
+  { column: 'phone' },
+  { column: 'articleTitle' },
+  { column: 'year' },
+];
+
+/**
+ * Built-in export presets for email service provider (ESP) audience imports
+ */
+export type ExportPreset = 'mailchimp' | 'sendgrid' | 'brevo';
+
+/**
+ * Available ESP presets
+ * Each preset uses the provider's header names, splits names into first and
+ * last name, carries the brand and journal (as tags, or as custom fields
+ * where the provider has no tag column) and leaves out fields the provider
+ * would reject. Presets only export unique people as CSV, since providers
+ * key their audiences by email address and import CSV files; the export API
+ * rejects a preset with another mode or format.
+ */
+export const EXPORT_PRESETS: Array<{
+  preset: ExportPreset;
+  label: string;
+  description: string;
+  columns: ExportColumnConfig[];
+}> = [
+  {
+    preset: 'mailchimp',
+    label: 'Mailchimp',
+    description: 'Audience import: brand and journal become tags. Phone numbers are imported as the Phone Number field.',
+    columns: [
+      { column: 'email', label: 'Email Address' },
+      { column: 'firstName', label: 'First Name' },
+      { column: 'lastName', label: 'Last Name' },
+      { column: 'phone', label: 'Phone Number' },
+      { column: 'tags', label: 'Tags' },
+    ],
+  },
+  {
+    preset: 'sendgrid',
+    label: 'Sendgrid',
+    description: 'Marketing contacts import: brand and journal are custom fields - create text fields named brand and journal in Sendgrid first.',
+    columns: [
+      { column: 'email', label: 'email' },
+      { column: 'firstName', label: 'first_name' },
+      { column: 'lastName', label: 'last_name' },
+      { column: 'phone', label: 'phone_number' },
+      { column: 'brand', label: 'brand' },
+      { column: 'journal', label: 'journal' },
+    ],
+  },
+  {
+    preset: 'brevo',
+    label: 'Brevo',
+    description: 'Contact import: brand and journal are BRAND and JOURNAL attributes. Phone numbers are left out, as Brevo rejects SMS numbers without a country code.',
+    columns: [
+      { column: 'email', label: 'EMAIL' },
+      { column: 'firstName', label: 'FIRSTNAME' },
+      { column: 'lastName', label: 'LASTNAME' },
+      { column: 'brand', label: 'BRAND' },
+      { column: 'journal', label: 'JOURNAL' },
+    ],
+  },
+];
+
+/**
+ * Check whether a value is an ESP preset
+ * @param value - Value to check (e.g. a query parameter)
+ * @returns Whether the value is an ExportPreset
+ */
+export function isExportPreset(value: unknown): value is ExportPreset {
+  return EXPORT_PRESETS.some(({ preset }) => preset === value);
+}
+
+/**
+ * Row granularity of an export
+ * - contacts: one row per contact (a person linked to several journals
+ *   appears once per journal)
+ * - people: one row per email address, with the person's journals and
+ *   article titles combined into list columns
+ */
+export type ExportMode = 'contacts' | 'people';
+
+/**
+ * Available export modes
+ */
+export const EXPORT_MODES: Array<{ mode: ExportMode; label: string; description: string }> = [
+  {
+    mode: 'contacts',
+    label: 'One row per contact',
+    description: 'A person linked to several journals appears once per journal',
+  },
+  {
+    mode: 'people',
+    label: 'Unique people (one row per email)',
+    description: 'Journals, ISSNs, brands and article titles are combined into lists separated by "; ". Name and phone come from the most recently added contact that has one; year is the latest collection year.',
+  },
+];
+
+/**
+ * Check whether a value is an export mode
+ * @param value - Value to check (e.g. a query parameter)
+ * @returns Whether the value is an ExportMode
+ */
+export function isExportMode(value: unknown): value is ExportMode {
+  return EXPORT_MODES.some(({ mode }) => mode === value);
+}
+
+/**
+ * Sampling of an export's rows (a type alias so it can be stored as JSON on
+ * an ExportLog)
+ * Without a seed the rows keep their usual order (newest contacts first,
+ * people by email address) and the first ones are taken; with a seed they
+ * are taken in a random order that the same seed always reproduces.
+ */
+export type ExportSampling = {
+  /** Most rows in the export */
+  limit?: number | null;
+  /** Most contacts per journal (one row per contact only) */
+  perJournalLimit?: number | null;
+  /** Seed of a random sample */
+  seed?: string | null;
+};
+
+/**
+ * Max length of a sample seed
+ */
+const MAX_SEED_LENGTH = 100;
+
+/**
+ * Read the sampling options of an export from query parameters
+ * @param searchParams - URL search parameters (limit, perJournalLimit, seed)
+ * @returns Sampling options (empty when none are set), or the errors
+ */
+export function parseExportSampling(searchParams: URLSearchParams): { sampling: ExportSampling; errors: string[] } {
+  const errors: string[] = [];
+  const readLimit = (key: string, label: string): number | null => {
+    const value = searchParams.get(key)?.trim();
+    if (!value) return null;
+    if (!/^\d+$/.test(value) || parseInt(value, 10) < 1) {
+      errors.push(`${label} must be a positive whole number`);
+      return null;
+    }
+    return parseInt(value, 10);
+  };
+
+  const limit = readLimit('limit', 'Row limit');
+  const perJournalLimit = readLimit('perJournalLimit', 'Per-journal limit');
+  const seed = searchParams.get('seed')?.trim() || null;
+  if (seed && seed.length > MAX_SEED_LENGTH) {
+    errors.push(`Seed must be at most ${MAX_SEED_LENGTH} characters`);
+  }
+
+  return {
+    sampling: {
+      ...(limit !== null && { limit }),
+      ...(perJournalLimit !== null && { perJournalLimit }),
+      ...(seed && { seed }),
+    },
+    errors,
+  };
+}
+
+/**
+ * Query parameters of sampling options
+ * @param sampling - Sampling options
+ * @returns Entries to add to an export query
+ */
+export function toExportSamplingParams(sampling: ExportSampling): Array<[string, string]> {
+  const params: Array<[string, string]> = [];
+  if (sampling.limit) params.push(['limit', sampling.limit.toString()]);
+  if (sampling.perJournalLimit) params.push(['perJournalLimit', sampling.perJournalLimit.toString()]);
+  if (sampling.seed) params.push(['seed', sampling.seed]);
+  return params;
+}
+
+/**
+ * Check that sampling options fit the rows and files of an export
+ * @param sampling - Sampling options
+ * @param options - Row mode and per-journal split
+ * @returns Error message, or null when they can be combined
+ */
+export function getExportSamplingError(
+  sampling: ExportSampling,
+  { mode, split }: { mode: ExportMode; split?: string | null },
+): string | null {
+  if (sampling.perJournalLimit && mode === 'people') {
+    return 'Per-journal limits need one row per contact - choose the contacts mode';
+  }
+  if (sampling.limit && split) {
+    return 'Per-journal files cannot have a total row limit - use a per-journal limit';
+  }
+  return null;
+}
+
+/**
+ * File format of an export
+ */
+export type ExportFormat = 'csv' | 'xlsx' | 'ndjson';
+
+/**
+ * Available export formats
+ */
+export const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string; extension: string; contentType: string }> = [
+  { format: 'csv', label: 'CSV', extension: 'csv', contentType: 'text/csv' },
+  {
+    format: 'xlsx',
+    label: 'Excel (.xlsx)',
+    extension: 'xlsx',
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  },
+  { format: 'ndjson', label: 'JSON Lines (.ndjson)', extension: 'ndjson', contentType: 'application/x-ndjson' },
+];
+
+/**
+ * Most data rows an Excel export can hold (1,048,576 sheet rows minus the header)
+ */
+export const XLSX_MAX_ROWS = 1048575;
+
+/**
+ * Check whether a value is an export format
+ * @param value - Value to check (e.g. a query parameter)
+ * @returns Whether the value is an ExportFormat
+ */
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.some(({ format }) => format === value);
+}
+
+/**
+ * File name of an export
+ * @param format - File format
+ * @param mode - Row mode
+ * @param date - Export date (defaults to now)
+ * @returns e.g. "email-contacts-2026-10-19.csv"
+ */
+export function getExportFilename(format: ExportFormat, mode: ExportMode, date: Date = new Date()): string {
+  const extension = EXPORT_FORMATS.find((f) => f.format === format)?.extension ?? format;
+  return `${mode === 'people' ? 'email-people' : 'email-contacts'}-${date.toISOString().split('T')[0]}.${extension}`;
+}
+
+/**
+ * File name of a per-journal ZIP export
+ * @param date - Export date (defaults to now)
+ * @returns e.g. "email-contacts-by-journal-2026-10-19.zip"
+ */
+export function getJournalArchiveFilename(date: Date = new Date()): string {
+  return `email-contacts-by-journal-${date.toISOString().split('T')[0]}.zip`;
+}
+
+/**
+ * Content type of an export file
+ * @param format - File format
+ * @param split - "journal" for per-journal ZIP archives
+ * @returns MIME type
+ */
+export function getExportContentType(format: ExportFormat, split?: string | null): string {
+  if (split) return 'application/zip';
+  return EXPORT_FORMATS.find((f) => f.format === format)?.contentType ?? 'application/octet-stream';
+}
+
+/**
+ * Max length of a custom header label
+ */
+const MAX_LABEL_LENGTH = 100;
+
+/**
+ * Check whether a value is an export column
+ * @param value - Value to check
+ * @returns Whether the value is an ExportColumn
+ */
+export function isExportColumn(value: unknown): value is ExportColumn {
+  return EXPORT_COLUMNS.some(({ column }) => column === value);
+}
+
+/**
+ * Header label of a column in the exported file
+ * @param config - Column and optional custom label
+ * @returns Custom label, or the column's default header
+ */
+export function getColumnHeader({ column, label }: ExportColumnConfig): string {
+  return label?.trim() || EXPORT_COLUMNS.find((c) => c.column === column)?.header || column;
+}
+
+/**
+ * Validate a column list (e.g. from a request or a saved profile)
+ * @param value - Parsed JSON value
+ * @returns Error messages (empty when the list is valid)
+ */
+export function getColumnErrors(value: unknown): string[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    return ['Choose at least one column'];
+  }
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  value.forEach((entry) => {
+    const column = entry?.column;
+    if (!isExportColumn(column)) {
+      errors.push(`Unknown column: ${String(column)}`);
+      return;
+    }
+    if (seen.has(column)) {
+      errors.push(`Column is listed more than once: ${column}`);
+    }
+    seen.add(column);
+    if (entry.label !== undefined && typeof entry.label !== 'string') {
+      errors.push(`Label of ${column} must be text`);
+    } else if (entry.label && entry.label.length > MAX_LABEL_LENGTH) {
+      errors.push(`Label of ${column} must be at most ${MAX_LABEL_LENGTH} characters`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Keep only the column and a non-empty label of each entry
+ * @param columns - Validated column list
+ * @returns Column list ready to be stored or used
+ */
+export function normalizeColumns(columns: ExportColumnConfig[]): ExportColumnConfig[] {
+  return columns.map(({ column, label }) => (label?.trim() ? { column, label: label.trim() } : { column }));
+}
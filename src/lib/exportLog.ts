@@ -0,0 +1,73 @@
+import prisma from '@/lib/prisma';
+import type { ExportColumnConfig, ExportFormat, ExportMode, ExportSampling } from '@/lib/exportColumns';
+import type { ExportOutcome } from '@/lib/exporter';
+
+/**
+ * Export audit log
+ *
+ * Every export run through /api/export is recorded in an ExportLog when the
+ * download starts, and completed with the row count and file checksum (or
+ * the failure) when the stream ends. The stored settings are enough to run
+ * the same export again.
+ */
+
+/**
+ * Settings of an export run, as stored on its ExportLog
+ */
+export interface ExportLogSettings {
+  /** Contact filter query parameters (empty filters left out) */
+  filters: Record<string, string>;
+  columns: ExportColumnConfig[];
+  /** Export profile the columns came from */
+  profileName?: string | null;
+  mode: ExportMode;
+  format: ExportFormat;
+  /** "journal" for per-journal ZIP archives */
+  split?: string | null;
+  /** Row limits and random sample seed (sampled exports only) */
+  sampling?: ExportSampling | null;
+  /** Schedule of a scheduled run */
+  scheduleId?: string | null;
+}
+
+/**
+ * Record the start of an export
+ * @param createdBy - User who ran the export
+ * @param settings - Export settings
+ * @returns Created log entry
+ */
+export async function startExportLog(createdBy: string, settings: ExportLogSettings) {
+  return prisma.exportLog.create({
+    data: {
+      createdBy,
+      filters: settings.filters,
+      columns: settings.columns,
+      profileName: settings.profileName ?? null,
+      mode: settings.mode,
+      format: settings.format,
+      split: settings.split ?? null,
+      ...(settings.sampling && { sampling: settings.sampling }),
+      scheduleId: settings.scheduleId ?? null,
+    },
+  });
+}
+
+/**
+ * Record how an export ended
+ * @param id - Log entry ID
+ * @param outcome - Row count and checksum, or why the file is incomplete
+ */
+export async function finishExportLog(id: string, outcome: ExportOutcome): Promise<void> {
+  await prisma.exportLog.update({
+    where: { id },
+    data: {
+      status: outcome.status,
+      finishedAt: new Date(),
+      ...(outcome.status === 'COMPLETED' && { rowCount: outcome.rows, checksum: outcome.checksum }),
+      ...(outcome.status === 'FAILED' && {
+        failureReason: outcome.error instanceof Error ? outcome.error.message : 'Export failed',
+      }),
+      ...(outcome.status === 'CANCELLED' && { failureReason: 'Download cancelled' }),
+    },
+  });
+}
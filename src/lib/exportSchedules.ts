@@ -0,0 +1,391 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import type { ExportDestination, ExportProfile, ExportSchedule, ExportLogStatus } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { buildExportWhere, parseContactFilters } from '@/lib/contactFilters';
+import { getCronError, getNextCronRun } from '@/lib/cron';
+import {
+  EXPORT_FORMATS,
+  getExportContentType,
+  isExportFormat,
+  isExportMode,
+  type ExportColumnConfig,
+  type ExportFormat,
+  type ExportMode,
+} from '@/lib/exportColumns';
+import {
+  createExportStream,
+  createJournalZipStream,
+  getExportSizeError,
+  type ExportOutcome,
+} from '@/lib/exporter';
+import { finishExportLog, startExportLog } from '@/lib/exportLog';
+import { sendMail } from '@/lib/smtp';
+import { isValidEmail } from '@/lib/utils';
+
+/**
+ * Scheduled exports
+ *
+ * A schedule is a saved set of contact filters, an export profile (the
+ * columns), file settings, a cron expression (UTC) and a destination: a
+ * directory on the server (or a mounted share) or email recipients. Due
+ * schedules are run by POST /api/export/schedules/run, which an external
+ * scheduler (e.g. system cron) calls every few minutes. Every run is
+ * recorded in the export log.
+ *
+ * Directory destinations must be absolute paths inside EXPORT_DIRECTORY_ROOT;
+ * without it they are refused, so requests cannot write files anywhere on
+ * the server.
+ */
+
+/**
+ * Schedule with the profile it exports
+ */
+export type ExportScheduleWithProfile = ExportSchedule & { profile: ExportProfile };
+
+/**
+ * Validated schedule fields, ready to be stored
+ */
+export interface ExportScheduleInput {
+  name: string;
+  profileId: string;
+  filters: Record<string, string>;
+  mode: ExportMode;
+  format: ExportFormat;
+  split: string | null;
+  cron: string;
+  destination: ExportDestination;
+  directory: string | null;
+  recipients: string[];
+  enabled: boolean;
+}
+
+/**
+ * How a run ended, as returned to the caller
+ */
+export interface ExportScheduleRunResult {
+  scheduleId: string;
+  name: string;
+  logId: string | null;
+  status: ExportLogStatus;
+  rows: number | null;
+  error: string | null;
+}
+
+/**
+ * Max length of a schedule name
+ */
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Check whether a path is inside a directory (or is the directory)
+ * @param root - Directory
+ * @param directory - Path to check
+ * @returns Whether the path does not lead outside the directory
+ */
+function isInsideDirectory(root: string, directory: string): boolean {
+  const relative = path.relative(path.resolve(root), path.resolve(directory));
+  return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+/**
+ * Check whether a directory may receive scheduled exports
+ * @param directory - Directory path
+ * @returns Error message, or null when the path is allowed
+ */
+function getDirectoryError(directory: string): string | null {
+  const root = process.env.EXPORT_DIRECTORY_ROOT;
+  if (!root) {
+    return 'Directory exports are not configured (set EXPORT_DIRECTORY_ROOT)';
+  }
+  if (!path.isAbsolute(directory)) {
+    return 'Directory must be an absolute path';
+  }
+  if (!isInsideDirectory(root, directory)) {
+    return `Directory must be inside ${root}`;
+  }
+  return null;
+}
+
+/**
+ * Read and validate the fields of a schedule from a request body
+ * Missing fields are taken from `current` (for updates).
+ * @param body - Parsed request body
+ * @param current - Schedule being updated (omit when creating)
+ * @returns Validated fields, or the error messages
+ */
+export function parseScheduleInput(
+  body: Record<string, unknown>,
+  current?: ExportSchedule,
+): { input: ExportScheduleInput; errors: [] } | { input: null; errors: string[] } {
+  const errors: string[] = [];
+  const pick = (key: string, fallback: unknown): unknown => (body[key] === undefined ? fallback : body[key]);
+  const text = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+  const name = text(pick('name', current?.name));
+  const profileId = text(pick('profileId', current?.profileId));
+  const filters = pick('filters', current?.filters ?? {});
+  const mode = pick('mode', current?.mode ?? 'contacts');
+  const format = pick('format', current?.format ?? 'csv');
+  const split = text(pick('split', current?.split)) || null;
+  const cron = text(pick('cron', current?.cron));
+  const destination = pick('destination', current?.destination);
+  const directory = text(pick('directory', current?.directory)) || null;
+  const rawRecipients = pick('recipients', current?.recipients ?? []);
+  const enabled = pick('enabled', current?.enabled ?? true) !== false;
+
+  const recipients = (Array.isArray(rawRecipients) ? rawRecipients.map(String) : String(rawRecipients).split(/[\s,;]+/))
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (!name) {
+    errors.push('Schedule name is required');
+  } else if (name.length > MAX_NAME_LENGTH) {
+    errors.push(`Schedule name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  if (!profileId) {
+    errors.push('Choose the export profile with the columns to export');
+  }
+  const validFilters = typeof filters === 'object' && filters !== null && !Array.isArray(filters)
+    && Object.values(filters).every((value) => typeof value === 'string');
+  if (!validFilters) {
+    errors.push('Filters must be an object of query parameters');
+  }
+  if (!isExportMode(mode)) {
+    errors.push('Mode must be contacts or people');
+  }
+  if (!isExportFormat(format)) {
+    errors.push('Format must be csv, xlsx or ndjson');
+  }
+  if (split && split !== 'journal') {
+    errors.push('Split must be journal');
+  } else if (split && mode === 'people') {
+    errors.push('Per-journal exports have one row per contact - choose the contacts mode');
+  }
+
+  const cronError = cron ? getCronError(cron) : 'Schedule is required';
+  if (cronError) {
+    errors.push(cronError);
+  } else if (!getNextCronRun(cron)) {
+    errors.push('Schedule never runs');
+  }
+
+  if (destination === 'DIRECTORY') {
+    const directoryError = directory ? getDirectoryError(directory) : 'Directory is required';
+    if (directoryError) errors.push(directoryError);
+  } else if (destination === 'EMAIL') {
+    if (recipients.length === 0) {
+      errors.push('At least one recipient is required');
+    }
+    recipients.filter((email) => !isValidEmail(email)).forEach((email) => {
+      errors.push(`Invalid recipient: ${email}`);
+    });
+  } else {
+    errors.push('Destination must be DIRECTORY or EMAIL');
+  }
+
+  if (errors.length > 0) {
+    return { input: null, errors };
+  }
+  return {
+    input: {
+      name,
+      profileId,
+      filters: filters as Record<string, string>,
+      mode: mode as ExportMode,
+      format: format as ExportFormat,
+      split,
+      cron,
+      destination: destination as ExportDestination,
+      directory: destination === 'DIRECTORY' ? directory : null,
+      recipients: destination === 'EMAIL' ? recipients : [],
+      enabled,
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Next run time of a schedule
+ * @param cron - Cron expression
+ * @param enabled - Whether the schedule is enabled
+ * @param after - Time to search from (defaults to now)
+ * @returns Next run, or null when disabled
+ */
+export function getScheduleNextRun(cron: string, enabled: boolean, after: Date = new Date()): Date | null {
+  return enabled ? getNextCronRun(cron, after) : null;
+}
+
+/**
+ * File name of a scheduled export
+ * @param schedule - Export schedule
+ * @param date - Run time
+ * @returns e.g. "weekly-acme-list-2026-10-19-0600.csv"
+ */
+function getScheduleFilename(schedule: ExportSchedule, date: Date): string {
+  const slug = schedule.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'export';
+  const stamp = date.toISOString().slice(0, 16).replace('T', '-').replace(':', '');
+  const extension = schedule.split
+    ? 'zip'
+    : EXPORT_FORMATS.find((f) => f.format === schedule.format)?.extension ?? schedule.format;
+  return `${slug}-${stamp}.${extension}`;
+}
+
+/**
+ * Read a whole stream into memory
+ * @param stream - Export stream
+ * @returns Stream bytes
+ */
+async function readStream(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return Buffer.concat(parts);
+    parts.push(value);
+  }
+}
+
+/**
+ * Run a schedule once: write the export, deliver it and record the outcome
+ * @param schedule - Schedule with its profile
+ * @param createdBy - User who started the run ('scheduler' for due runs)
+ * @returns How the run ended
+ */
+export async function runExportSchedule(
+  schedule: ExportScheduleWithProfile,
+  createdBy: string,
+): Promise<ExportScheduleRunResult> {
+  const startedAt = new Date();
+  const mode: ExportMode = isExportMode(schedule.mode) ? schedule.mode : 'contacts';
+  const format: ExportFormat = isExportFormat(schedule.format) ? schedule.format : 'csv';
+  const filters = schedule.filters as Record<string, string>;
+  const columns = schedule.profile.columns as ExportColumnConfig[];
+  const where = buildExportWhere(parseContactFilters(new URLSearchParams(filters)));
+
+  let logId: string | null = null;
+  let outcome: ExportOutcome;
+  try {
+    const sizeError = await getExportSizeError(where, { mode, format, split: schedule.split });
+    if (sizeError) {
+      throw new Error(sizeError);
+    }
+
+    const log = await startExportLog(createdBy, {
+      filters,
+      columns,
+      profileName: schedule.profile.name,
+      mode,
+      format,
+      split: schedule.split,
+      scheduleId: schedule.id,
+    });
+    logId = log.id;
+
+    // Set by the stream once the whole file has been produced
+    const written: { outcome: ExportOutcome } = { outcome: { status: 'CANCELLED' } };
+    const options = {
+      columns,
+      mode,
+      format,
+      onFinish: (result: ExportOutcome) => {
+        written.outcome = result;
+      },
+    };
+    const stream = schedule.split ? createJournalZipStream(where, options) : createExportStream(where, options);
+    const filename = getScheduleFilename(schedule, startedAt);
+
+    if (schedule.destination === 'DIRECTORY') {
+      const directory = schedule.directory ?? '';
+      const directoryError = getDirectoryError(directory);
+      if (directoryError) throw new Error(directoryError);
+
+      // Symbolic links must not lead outside the root either
+      await fs.promises.mkdir(directory, { recursive: true });
+      const root = process.env.EXPORT_DIRECTORY_ROOT as string;
+      if (!isInsideDirectory(await fs.promises.realpath(root), await fs.promises.realpath(directory))) {
+        throw new Error(`Directory must be inside ${root}`);
+      }
+
+      // Write to a temporary name first so readers never see a partial file
+      const filePath = path.join(directory, filename);
+      const partialPath = `${filePath}.partial`;
+      try {
+        await pipeline(Readable.fromWeb(stream as WebReadableStream<Uint8Array>), fs.createWriteStream(partialPath));
+        await fs.promises.rename(partialPath, filePath);
+      } catch (error) {
+        await fs.promises.rm(partialPath, { force: true });
+        throw error;
+      }
+    } else {
+      const content = await readStream(stream);
+      const rows = written.outcome.status === 'COMPLETED' ? written.outcome.rows : 0;
+      await sendMail({
+        to: schedule.recipients,
+        subject: `Scheduled export: ${schedule.name}`,
+        text: [
+          `The scheduled export "${schedule.name}" ran on ${startedAt.toISOString()}.`,
+          '',
+          `Rows: ${rows}`,
+          `Profile: ${schedule.profile.name}`,
+          `File: ${filename}`,
+        ].join('\n'),
+        attachments: [{ filename, contentType: getExportContentType(format, schedule.split), content }],
+      });
+    }
+    outcome = written.outcome;
+  } catch (error) {
+    console.error(`Scheduled export "${schedule.name}" error:`, error);
+    outcome = { status: 'FAILED', error };
+  }
+
+  if (logId) {
+    await finishExportLog(logId, outcome);
+  }
+  const errorMessage = outcome.status === 'FAILED'
+    ? (outcome.error instanceof Error ? outcome.error.message : 'Export failed')
+    : null;
+  await prisma.exportSchedule.update({
+    where: { id: schedule.id },
+    data: { lastRunAt: startedAt, lastStatus: outcome.status, lastError: errorMessage },
+  });
+
+  return {
+    scheduleId: schedule.id,
+    name: schedule.name,
+    logId,
+    status: outcome.status,
+    rows: outcome.status === 'COMPLETED' ? outcome.rows : null,
+    error: errorMessage,
+  };
+}
+
+/**
+ * Run every enabled schedule whose next run time has passed
+ * Each schedule is claimed by moving its next run time forward before it
+ * runs, so overlapping calls never run the same schedule twice.
+ * @param now - Current time
+ * @returns How each run ended
+ */
+export async function runDueExportSchedules(now: Date = new Date()): Promise<ExportScheduleRunResult[]> {
+  const due = await prisma.exportSchedule.findMany({
+    where: { enabled: true, nextRunAt: { lte: now } },
+    include: { profile: true },
+    orderBy: { nextRunAt: 'asc' },
+  });
+
+  const results: ExportScheduleRunResult[] = [];
+  for (const schedule of due) {
+    const claimed = await prisma.exportSchedule.updateMany({
+      where: { id: schedule.id, nextRunAt: schedule.nextRunAt },
+      data: { nextRunAt: getScheduleNextRun(schedule.cron, true, now) },
+    });
+    if (claimed.count === 1) {
+      results.push(await runExportSchedule(schedule, 'scheduler'));
+    }
+  }
+  return results;
+}
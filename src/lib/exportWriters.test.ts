@@ -0,0 +1,61 @@
+import ExcelJS from 'exceljs';
+import { describe, expect, it } from 'vitest';
+import { createExportWriter } from '@/lib/exportWriters';
+import type { ExportColumnConfig } from '@/lib/exportColumns';
+import type { ExportRow } from '@/lib/exporter';
+
+const columns: ExportColumnConfig[] = [
+  { column: 'email', label: 'Email Address' },
+  { column: 'year' },
+  { column: 'createdAt' },
+];
+
+const rows = [
+  { email: 'ada@example.org', year: 2024, createdAt: new Date(Date.UTC(2024, 2, 5, 9, 30)) },
+  { email: 'alan@example.org', year: null, createdAt: new Date(Date.UTC(2024, 3, 1)) },
+] as unknown as ExportRow[];
+
+/**
+ * Write rows with an export writer
+ * @param format - File format
+ * @returns File contents
+ */
+async function writeFile(format: 'csv' | 'xlsx' | 'ndjson'): Promise<Uint8Array> {
+  const writer = createExportWriter(format, columns);
+  const parts = [writer.start(), writer.write(rows), await writer.end()].filter(
+    (part): part is Uint8Array => part !== null,
+  );
+  return new Uint8Array(Buffer.concat(parts));
+}
+
+describe('createExportWriter', () => {
+  it('writes CSV with a header row and ISO dates', async () => {
+    expect(new TextDecoder().decode(await writeFile('csv'))).toBe(
+      'Email Address,year,created_at\r\n'
+      + 'ada@example.org,2024,2024-03-05T09:30:00.000Z\r\n'
+      + 'alan@example.org,,2024-04-01T00:00:00.000Z\r\n',
+    );
+  });
+
+  it('writes one JSON object per line', async () => {
+    const lines = new TextDecoder().decode(await writeFile('ndjson')).trim().split('\n');
+    expect(JSON.parse(lines[1])).toEqual({
+      'Email Address': 'alan@example.org',
+      year: null,
+      created_at: '2024-04-01T00:00:00.000Z',
+    });
+  });
+
+  it('writes an Excel sheet with a frozen header row and date cells', async () => {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(new Uint8Array(await writeFile('xlsx')).buffer);
+    const sheet = workbook.getWorksheet('Contacts');
+
+    expect(sheet?.views[0]).toMatchObject({ state: 'frozen', ySplit: 1 });
+    expect(sheet?.getRow(1).values).toEqual([undefined, 'Email Address', 'year', 'created_at']);
+    expect(sheet?.getCell('B2').value).toBe(2024);
+    expect(sheet?.getCell('C2').value).toEqual(new Date(Date.UTC(2024, 2, 5, 9, 30)));
+    expect(sheet?.getCell('C2').numFmt).toBe('yyyy-mm-dd hh:mm:ss');
+    expect(sheet?.getCell('B3').value).toBeNull();
+  });
+});
@@ -0,0 +1,152 @@
+import Papa from 'papaparse';
+import ExcelJS from 'exceljs';
+import { getColumnHeader, type ExportColumnConfig, type ExportFormat } from '@/lib/exportColumns';
+import type { ExportRow, ExportValue } from '@/lib/exporter';
+
+/**
+ * Export file writers
+ *
+ * Turn chunks of export rows into the bytes of a CSV, Excel or JSON Lines
+ * file. CSV and JSON Lines are written chunk by chunk; Excel files can only
+ * be written as a whole, so the rows are collected and the workbook is built
+ * when the last chunk has been read.
+ */
+
+/**
+ * Sheet name of an Excel export
+ */
+const XLSX_SHEET_NAME = 'Contacts';
+
+/**
+ * Excel number format of date columns
+ */
+const XLSX_DATE_FORMAT = 'yyyy-mm-dd hh:mm:ss';
+
+/**
+ * Widest Excel column (in characters) set from the column contents
+ */
+const XLSX_MAX_COLUMN_WIDTH = 50;
+
+/**
+ * Writes the rows of an export to a file
+ * Each method returns the bytes to append to the file (null for none).
+ */
+export interface ExportWriter {
+  /** Bytes at the start of the file (e.g. the CSV header row) */
+  start(): Uint8Array | null;
+  /** Bytes of a chunk of rows */
+  write(rows: ExportRow[]): Uint8Array | null;
+  /** Bytes at the end of the file */
+  end(): Promise<Uint8Array | null>;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * CSV text of a value (dates as ISO 8601, missing values as empty cells)
+ * @param value - Row value
+ * @returns Cell value
+ */
+function toCsvValue(value: ExportValue): string | number {
+  if (value === null) return '';
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * CSV writer: header row first, then one line per row
+ * @param columns - Ordered columns with their header labels
+ * @returns Export writer
+ */
+function createCsvWriter(columns: ExportColumnConfig[]): ExportWriter {
+  const fields = columns.map(getColumnHeader);
+  return {
+    start: () => encoder.encode(`${Papa.unparse([fields])}\r\n`),
+    write: (rows) => encoder.encode(
+      `${Papa.unparse(rows.map((row) => columns.map(({ column }) => toCsvValue(row[column]))))}\r\n`,
+    ),
+    end: async () => null,
+  };
+}
+
+/**
+ * JSON Lines writer: one JSON object per row, keyed by the header labels
+ * Dates are written as ISO 8601 strings and missing values as null.
+ * @param columns - Ordered columns with their header labels
+ * @returns Export writer
+ */
+function createNdjsonWriter(columns: ExportColumnConfig[]): ExportWriter {
+  const fields = columns.map(getColumnHeader);
+  const toObject = (row: ExportRow) => Object.fromEntries(
+    columns.map(({ column }, index) => [fields[index], row[column]]),
+  );
+  return {
+    start: () => null,
+    write: (rows) => encoder.encode(rows.map((row) => `${JSON.stringify(toObject(row))}\n`).join('')),
+    end: async () => null,
+  };
+}
+
+/**
+ * Excel writer: collects the rows and writes one sheet at the end
+ * Dates become Excel date cells and numbers stay numeric; the header row is
+ * frozen.
+ * @param columns - Ordered columns with their header labels
+ * @returns Export writer
+ */
+function createXlsxWriter(columns: ExportColumnConfig[]): ExportWriter {
+  const fields = columns.map(getColumnHeader);
+  const data: ExportValue[][] = [];
+  return {
+    start: () => null,
+    write: (rows) => {
+      rows.forEach((row) => data.push(columns.map(({ column }) => row[column])));
+      return null;
+    },
+    end: async () => {
+      const workbook = new ExcelJS.Workbook();
+      const sheet = workbook.addWorksheet(XLSX_SHEET_NAME, {
+        views: [{ state: 'frozen', ySplit: 1 }],
+      });
+
+      sheet.addRow(fields);
+      data.forEach((values) => {
+        const row = sheet.addRow(values);
+        values.forEach((value, index) => {
+          if (value instanceof Date) {
+            row.getCell(index + 1).numFmt = XLSX_DATE_FORMAT;
+          }
+        });
+      });
+      fields.forEach((field, index) => {
+        sheet.getColumn(index + 1).width = Math.min(
+          XLSX_MAX_COLUMN_WIDTH,
+          data.reduce((width, values) => {
+            const value = values[index];
+            const length = value instanceof Date ? XLSX_DATE_FORMAT.length : String(value ?? '').length;
+            return Math.max(width, length);
+          }, field.length),
+        );
+      });
+
+      return new Uint8Array(await workbook.xlsx.writeBuffer());
+    },
+  };
+}
+
+/**
+ * Create the writer of an export file format
+ * @param format - File format
+ * @param columns - Ordered columns with their header labels
+ * @returns Export writer
+ */
+export function createExportWriter(format: ExportFormat, columns: ExportColumnConfig[]): ExportWriter {
+  switch (format) {
+    case 'xlsx':
+      return createXlsxWriter(columns);
+    case 'ndjson':
+      return createNdjsonWriter(columns);
+    case 'csv':
+    default:
+      return createCsvWriter(columns);
+  }
+}
@@ -0,0 +1,905 @@
+import { createHash } from 'crypto';
+import Papa from 'papaparse';
+import type { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  type ExportColumn,
+  type ExportColumnConfig,
+  type ExportFormat,
+  type ExportMode,
+  type ExportSampling,
+  XLSX_MAX_ROWS,
+} from '@/lib/exportColumns';
+import { createExportWriter } from '@/lib/exportWriters';
+import { createZipArchive } from '@/lib/zipArchive';
+
+/**
+ * Contact export helpers
+ *
+ * Exports are streamed: contacts are read in keyset-paginated chunks
+ * (newest first, by createdAt and id) and written to the response as they
+ * are read, so memory use stays constant however many contacts match and
+ * the download starts with the first chunk.
+ *
+ * In "people" mode the rows are collapsed to one per email address (see
+ * toPersonRow for how the values are combined). Rows are turned into file
+ * bytes by the writers in exportWriters.ts. Split exports write one file
+ * per journal into a ZIP archive.
+ *
+ * Sampled exports (see ExportSampling) take the first rows, or the first
+ * rows per journal, in the usual order. Random samples order the rows by a
+ * hash of the seed and the contact ID (or email address in "people" mode),
+ * so the same seed and filters always give the same rows; only the IDs and
+ * hashes of the matching rows are held in memory while the sample is drawn.
+ */
+
+/**
+ * Contacts read per database query
+ */
+export const EXPORT_CHUNK_SIZE = 1000;
+
+/**
+ * Contact fields read for an export
+ * (createdAt and id are the keyset pagination cursor)
+ */
+const exportSelect = {
+  id: true,
+  createdAt: true,
+  name: true,
+  email: true,
+  phone: true,
+  articleTitle: true,
+  year: true,
+  journal: {
+    select: {
+      name: true,
+      issn: true,
+      brand: { select: { name: true, code: true } },
+    },
+  },
+} satisfies Prisma.EmailContactSelect;
+
+/**
+ * Contact as read for an export
+ */
+export type ExportContact = Prisma.EmailContactGetPayload<{ select: typeof exportSelect }>;
+
+/**
+ * Value of an exported cell (null when the contact has no value)
+ */
+export type ExportValue = string | number | Date | null;
+
+/**
+ * Values of one exported row by column
+ */
+export type ExportRow = Record<ExportColumn, ExportValue>;
+
+/**
+ * Separator between the values of a list column in "people" mode
+ */
+export const LIST_SEPARATOR = '; ';
+
+/**
+ * Separator between tags (as email service providers read a tag column)
+ */
+const TAG_SEPARATOR = ', ';
+
+/**
+ * Longest tag accepted by email service providers
+ */
+const MAX_TAG_LENGTH = 100;
+
+/**
+ * Titles left out of first names ("Dr. Jane Doe" -> "Jane")
+ */
+const NAME_TITLES = /^(dr|prof|professor|mr|mrs|ms|miss|mx|sir|dame)\.?$/i;
+
+/**
+ * Suffixes left out of last names ("Jane Doe PhD" -> "Doe")
+ */
+const NAME_SUFFIXES = /^(jr|sr|ii|iii|iv|phd|ph\.d|md|msc|bsc|ma|mba)\.?$/i;
+
+/**
+ * Email addresses read per grouping query in "people" mode
+ */
+const PEOPLE_CHUNK_SIZE = 500;
+
+/**
+ * Email addresses read per query when counting people
+ */
+const PEOPLE_COUNT_CHUNK_SIZE = 10000;
+
+/**
+ * Contact IDs read per query when drawing a random sample
+ */
+const SAMPLE_KEY_CHUNK_SIZE = 10000;
+
+/**
+ * Name of the manifest file in a per-journal ZIP archive
+ */
+export const MANIFEST_FILENAME = 'manifest.csv';
+
+/**
+ * Journal with matching contacts, as written to a per-journal export
+ */
+export interface ExportJournal {
+  id: string;
+  name: string;
+  issn: string | null;
+  brandName: string;
+  brandCode: string;
+  /** Number of matching contacts of the journal */
+  count: number;
+}
+
+/**
+ * Read the matching contacts in chunks, newest first
+ * Each query continues after the last contact of the previous chunk
+ * (keyset pagination on the createdAt/id index), so late chunks are as
+ * fast as early ones.
+ * @param where - Contact filter
+ * @returns Async generator of contact chunks
+ */
+export async function* readContactChunks(where: Prisma.EmailContactWhereInput): AsyncGenerator<ExportContact[]> {
+  let last: ExportContact | null = null;
+  for (;;) {
+    const chunk: ExportContact[] = await prisma.emailContact.findMany({
+      where: last
+        ? {
+          AND: [
+            where,
+            {
+              OR: [
+                { createdAt: { lt: last.createdAt } },
+                { createdAt: last.createdAt, id: { lt: last.id } },
+              ],
+            },
+          ],
+        }
+        : where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: EXPORT_CHUNK_SIZE,
+      select: exportSelect,
+    });
+
+    if (chunk.length > 0) yield chunk;
+    if (chunk.length < EXPORT_CHUNK_SIZE) return;
+    last = chunk[chunk.length - 1];
+  }
+}
+
+/**
+ * Split a full name into first and last name
+ * "Last, First" is swapped; otherwise the last word is the last name.
+ * Titles and suffixes (Dr., PhD, Jr.) are left out. A single word is a
+ * first name, or a last name after a title.
+ * @param name - Full name
+ * @returns First and last name (null when empty)
+ */
+export function splitName(name: string): { firstName: string | null; lastName: string | null } {
+  const commaIndex = name.indexOf(',');
+  const ordered = commaIndex > 0 && !NAME_SUFFIXES.test(name.slice(commaIndex + 1).trim())
+    ? `${name.slice(commaIndex + 1)} ${name.slice(0, commaIndex)}`
+    : name.replace(/,/g, ' ');
+  const words = ordered.split(/\s+/).filter(Boolean);
+
+  while (words.length > 1 && NAME_SUFFIXES.test(words[words.length - 1])) words.pop();
+  let hasTitle = false;
+  while (words.length > 1 && NAME_TITLES.test(words[0])) {
+    words.shift();
+    hasTitle = true;
+  }
+
+  if (words.length === 0) return { firstName: null, lastName: null };
+  // "Dr. Smith" has only a last name
+  if (words.length === 1) return hasTitle ? { firstName: null, lastName: words[0] } : { firstName: words[0], lastName: null };
+  return { firstName: words.slice(0, -1).join(' '), lastName: words[words.length - 1] };
+}
+
+/**
+ * Tag list of brand and journal names
+ * Commas would split a tag in two, so they are replaced by spaces.
+ * @param values - Brand and journal names
+ * @returns Distinct tags joined with TAG_SEPARATOR (null when there are none)
+ */
+function toTags(values: string[]): string | null {
+  const tags = values
+    .map((value) => value.replace(/,/g, ' ').replace(/\s+/g, ' ').trim().slice(0, MAX_TAG_LENGTH))
+    .filter(Boolean);
+  const distinct = Array.from(new Set(tags));
+  return distinct.length > 0 ? distinct.join(TAG_SEPARATOR) : null;
+}
+
+/**
+ * Export values of a single contact
+ * @param contact - Exported contact
+ * @returns Row values
+ */
+export function toExportRow(contact: ExportContact): ExportRow {
+  return {
+    id: contact.id,
+    name: contact.name,
+    ...splitName(contact.name),
+    email: contact.email,
+    phone: contact.phone || null,
+    articleTitle: contact.articleTitle || null,
+    year: contact.year,
+    journal: contact.journal.name,
+    issn: contact.journal.issn || null,
+    brand: contact.journal.brand.name,
+    brandCode: contact.journal.brand.code,
+    tags: toTags([contact.journal.brand.name, contact.journal.name]),
+    createdAt: contact.createdAt,
+  };
+}
+
+/**
+ * Join the distinct non-empty values of a list column
+ * @param values - Values in row order
+ * @returns Values joined with LIST_SEPARATOR (null when there are none)
+ */
+function joinDistinct(values: Array<string | null>): string | null {
+  const distinct = Array.from(new Set(values.filter((value): value is string => Boolean(value))));
+  return distinct.length > 0 ? distinct.join(LIST_SEPARATOR) : null;
+}
+
+/**
+ * Export values of one person (all contacts sharing an email address)
+ * Rule for single values: name and phone come from the most recently added
+ * contact (by createdAt, then id) that has one; year is the latest
+ * collection year; createdAt is when the person was most recently added.
+ * Journals, ISSNs, brands, article titles and contact IDs become lists
+ * (most recent first, each value once).
+ * @param contacts - Contacts of the person, most recently added first
+ * @returns Row values
+ */
+export function toPersonRow(contacts: ExportContact[]): ExportRow {
+  const [latest] = contacts;
+  const years = contacts.map((c) => c.year).filter((year): year is number => year !== null);
+  const name = contacts.find((c) => c.name.trim())?.name ?? latest.name;
+
+  return {
+    id: joinDistinct(contacts.map((c) => c.id)),
+    name,
+    ...splitName(name),
+    email: latest.email,
+    phone: contacts.find((c) => c.phone?.trim())?.phone ?? null,
+    articleTitle: joinDistinct(contacts.map((c) => c.articleTitle)),
+    year: years.length > 0 ? Math.max(...years) : null,
+    journal: joinDistinct(contacts.map((c) => c.journal.name)),
+    issn: joinDistinct(contacts.map((c) => c.journal.issn)),
+    brand: joinDistinct(contacts.map((c) => c.journal.brand.name)),
+    brandCode: joinDistinct(contacts.map((c) => c.journal.brand.code)),
+    tags: toTags([...contacts.map((c) => c.journal.brand.name), ...contacts.map((c) => c.journal.name)]),
+    createdAt: latest.createdAt,
+  };
+}
+
+/**
+ * Read the next distinct email addresses of the matching contacts
+ * @param where - Contact filter
+ * @param after - Last email address of the previous page (null for the first)
+ * @param take - Number of addresses to read
+ * @returns Email addresses in ascending order
+ */
+async function readEmailPage(
+  where: Prisma.EmailContactWhereInput,
+  after: string | null,
+  take: number,
+): Promise<string[]> {
+  const groups = await prisma.emailContact.groupBy({
+    by: ['email'],
+    where: after ? { AND: [where, { email: { gt: after } }] } : where,
+    orderBy: { email: 'asc' },
+    take,
+  });
+  return groups.map((group) => group.email);
+}
+
+/**
+ * Read the person rows of some email addresses
+ * @param where - Contact filter
+ * @param emails - Email addresses, in row order
+ * @returns Person rows in the order of the addresses
+ */
+async function readPeopleRows(where: Prisma.EmailContactWhereInput, emails: string[]): Promise<ExportRow[]> {
+  const contacts = await prisma.emailContact.findMany({
+    where: { AND: [where, { email: { in: emails } }] },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    select: exportSelect,
+  });
+
+  const byEmail = new Map<string, ExportContact[]>();
+  contacts.forEach((contact) => {
+    const list = byEmail.get(contact.email);
+    if (list) {
+      list.push(contact);
+    } else {
+      byEmail.set(contact.email, [contact]);
+    }
+  });
+  return emails
+    .map((email) => byEmail.get(email))
+    .filter((list): list is ExportContact[] => Boolean(list))
+    .map(toPersonRow);
+}
+
+/**
+ * Read the matching people in chunks, ordered by email address
+ * Each chunk groups the next PEOPLE_CHUNK_SIZE email addresses (keyset
+ * pagination on email) and then reads all their matching contacts, so
+ * memory use depends on the chunk size, not on the export size.
+ * @param where - Contact filter
+ * @returns Async generator of person row chunks
+ */
+export async function* readPeopleChunks(where: Prisma.EmailContactWhereInput): AsyncGenerator<ExportRow[]> {
+  let lastEmail: string | null = null;
+  for (;;) {
+    const emails = await readEmailPage(where, lastEmail, PEOPLE_CHUNK_SIZE);
+    if (emails.length === 0) return;
+
+    yield await readPeopleRows(where, emails);
+
+    if (emails.length < PEOPLE_CHUNK_SIZE) return;
+    lastEmail = emails[emails.length - 1];
+  }
+}
+
+/**
+ * Check whether an export is sampled
+ * @param sampling - Sampling options
+ * @returns Whether any sampling option is set
+ */
+export function isSampled(sampling: ExportSampling = {}): boolean {
+  return Boolean(sampling.limit || sampling.perJournalLimit || sampling.seed);
+}
+
+/**
+ * Position of a value in the random order of a seed
+ * @param seed - Sample seed
+ * @param value - Contact ID or email address
+ * @returns Sort key (the first 48 bits of a SHA-256 hash)
+ */
+function getSampleKey(seed: string, value: string): number {
+  return createHash('sha256').update(`${seed}:${value}`).digest().readUIntBE(0, 6);
+}
+
+/**
+ * Compare two sampled values by their sort key (ties by value)
+ */
+function compareSampleKeys(a: { key: number; value: string }, b: { key: number; value: string }): number {
+  return a.key - b.key || (a.value < b.value ? -1 : a.value > b.value ? 1 : 0);
+}
+
+/**
+ * Keeps the values with the lowest sort keys
+ * Values are sorted and cut back to the limit whenever twice as many have
+ * been added, so memory use depends on the limit rather than the number of
+ * values added.
+ * @param limit - Number of values to keep (null keeps all)
+ * @returns Sample with add() and the kept values in key order
+ */
+function createSample(limit: number | null) {
+  let entries: Array<{ key: number; value: string }> = [];
+  const trim = () => {
+    entries.sort(compareSampleKeys);
+    if (limit !== null) entries = entries.slice(0, limit);
+  };
+
+  return {
+    add(key: number, value: string) {
+      entries.push({ key, value });
+      if (limit !== null && entries.length >= limit * 2) trim();
+    },
+    values(): string[] {
+      trim();
+      return entries.map((entry) => entry.value);
+    },
+  };
+}
+
+/**
+ * ID, journal and pagination cursor of a contact (as read to draw a sample)
+ */
+interface ContactKey {
+  id: string;
+  journalId: string;
+  createdAt: Date;
+}
+
+/**
+ * Read the IDs and journals of the matching contacts in chunks
+ * @param where - Contact filter
+ * @returns Async generator of contact key chunks
+ */
+async function* readContactKeys(
+  where: Prisma.EmailContactWhereInput,
+): AsyncGenerator<ContactKey[]> {
+  let last: ContactKey | null = null;
+  for (;;) {
+    const chunk: ContactKey[] = await prisma.emailContact.findMany({
+      where: last
+        ? {
+          AND: [
+            where,
+            {
+              OR: [
+                { createdAt: { lt: last.createdAt } },
+                { createdAt: last.createdAt, id: { lt: last.id } },
+              ],
+            },
+          ],
+        }
+        : where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: SAMPLE_KEY_CHUNK_SIZE,
+      select: { id: true, journalId: true, createdAt: true },
+    });
+
+    if (chunk.length > 0) yield chunk;
+    if (chunk.length < SAMPLE_KEY_CHUNK_SIZE) return;
+    last = chunk[chunk.length - 1];
+  }
+}
+
+/**
+ * Draw a random sample of the matching contacts
+ * @param where - Contact filter
+ * @param sampling - Sampling options with a seed
+ * @param seed - Sample seed
+ * @returns IDs of the sampled contacts, in sample order
+ */
+async function drawContactSample(
+  where: Prisma.EmailContactWhereInput,
+  sampling: ExportSampling,
+  seed: string,
+): Promise<string[]> {
+  const limit = sampling.limit ?? null;
+  const perJournalLimit = sampling.perJournalLimit ?? null;
+  const sample = createSample(limit);
+  const journalSamples = new Map<string, ReturnType<typeof createSample>>();
+
+  for await (const chunk of readContactKeys(where)) {
+    chunk.forEach(({ id, journalId }) => {
+      if (perJournalLimit === null) {
+        sample.add(getSampleKey(seed, id), id);
+        return;
+      }
+      let journalSample = journalSamples.get(journalId);
+      if (!journalSample) {
+        journalSample = createSample(perJournalLimit);
+        journalSamples.set(journalId, journalSample);
+      }
+      journalSample.add(getSampleKey(seed, id), id);
+    });
+  }
+
+  journalSamples.forEach((journalSample) => {
+    journalSample.values().forEach((id) => sample.add(getSampleKey(seed, id), id));
+  });
+  return sample.values();
+}
+
+/**
+ * Draw a random sample of the matching people
+ * @param where - Contact filter
+ * @param limit - Number of people (null for all, in random order)
+ * @param seed - Sample seed
+ * @returns Email addresses of the sampled people, in sample order
+ */
+async function drawPeopleSample(
+  where: Prisma.EmailContactWhereInput,
+  limit: number | null,
+  seed: string,
+): Promise<string[]> {
+  const sample = createSample(limit);
+  let lastEmail: string | null = null;
+  for (;;) {
+    const emails = await readEmailPage(where, lastEmail, PEOPLE_COUNT_CHUNK_SIZE);
+    emails.forEach((email) => sample.add(getSampleKey(seed, email), email));
+    if (emails.length < PEOPLE_COUNT_CHUNK_SIZE) return sample.values();
+    lastEmail = emails[emails.length - 1];
+  }
+}
+
+/**
+ * Read sampled contacts in chunks, in sample order
+ * @param where - Contact filter
+ * @param ids - Sampled contact IDs
+ * @returns Async generator of contact row chunks
+ */
+async function* readSampledContacts(
+  where: Prisma.EmailContactWhereInput,
+  ids: string[],
+): AsyncGenerator<ExportRow[]> {
+  for (let i = 0; i < ids.length; i += EXPORT_CHUNK_SIZE) {
+    const chunkIds = ids.slice(i, i + EXPORT_CHUNK_SIZE);
+    const contacts = await prisma.emailContact.findMany({
+      where: { AND: [where, { id: { in: chunkIds } }] },
+      select: exportSelect,
+    });
+    const byId = new Map(contacts.map((contact) => [contact.id, contact]));
+    const rows = chunkIds
+      .map((id) => byId.get(id))
+      .filter((contact): contact is ExportContact => Boolean(contact))
+      .map(toExportRow);
+    // Every sampled contact in the chunk may have been deleted since it was drawn
+    if (rows.length > 0) yield rows;
+  }
+}
+
+/**
+ * Read the first contacts of each journal (by brand code and journal name)
+ * @param where - Contact filter
+ * @param perJournalLimit - Most contacts per journal
+ * @returns Async generator of contact row chunks
+ */
+async function* readFirstContactsPerJournal(
+  where: Prisma.EmailContactWhereInput,
+  perJournalLimit: number,
+): AsyncGenerator<ExportRow[]> {
+  for (const journal of await readExportJournals(where)) {
+    yield* takeRows(readContactRows({ AND: [where, { journalId: journal.id }] }), perJournalLimit);
+  }
+}
+
+/**
+ * Read the matching contacts as rows in chunks, newest first
+ * @param where - Contact filter
+ * @returns Async generator of contact row chunks
+ */
+async function* readContactRows(where: Prisma.EmailContactWhereInput): AsyncGenerator<ExportRow[]> {
+  for await (const chunk of readContactChunks(where)) {
+    yield chunk.map(toExportRow);
+  }
+}
+
+/**
+ * Take the first rows of a chunked read (later chunks are not read)
+ * @param chunks - Async generator of row chunks
+ * @param limit - Number of rows
+ * @returns Async generator of row chunks
+ */
+async function* takeRows(chunks: AsyncGenerator<ExportRow[]>, limit: number): AsyncGenerator<ExportRow[]> {
+  let remaining = limit;
+  for await (const chunk of chunks) {
+    yield chunk.slice(0, remaining);
+    remaining -= chunk.length;
+    if (remaining <= 0) return;
+  }
+}
+
+/**
+ * Read the rows of an export in chunks
+ * @param where - Contact filter
+ * @param mode - One row per contact, or one per email address
+ * @param sampling - Row limits and random sample seed
+ * @returns Async generator of row chunks
+ */
+export async function* readExportRows(
+  where: Prisma.EmailContactWhereInput,
+  mode: ExportMode = 'contacts',
+  sampling: ExportSampling = {},
+): AsyncGenerator<ExportRow[]> {
+  const limit = sampling.limit ?? null;
+
+  let rows: AsyncGenerator<ExportRow[]>;
+  if (mode === 'people') {
+    if (sampling.seed) {
+      const emails = await drawPeopleSample(where, limit, sampling.seed);
+      for (let i = 0; i < emails.length; i += PEOPLE_CHUNK_SIZE) {
+        const people = await readPeopleRows(where, emails.slice(i, i + PEOPLE_CHUNK_SIZE));
+        if (people.length > 0) yield people;
+      }
+      return;
+    }
+    rows = readPeopleChunks(where);
+  } else if (sampling.seed) {
+    rows = readSampledContacts(where, await drawContactSample(where, sampling, sampling.seed));
+  } else if (sampling.perJournalLimit) {
+    rows = readFirstContactsPerJournal(where, sampling.perJournalLimit);
+  } else {
+    rows = readContactRows(where);
+  }
+
+  yield* limit === null || sampling.seed ? rows : takeRows(rows, limit);
+}
+
+/**
+ * Count the rows an export would contain
+ * People are counted in chunks of email addresses, since Prisma cannot
+ * count distinct values directly.
+ * @param where - Contact filter
+ * @param mode - One row per contact, or one per email address
+ * @param sampling - Row limits (a seed does not change the count)
+ * @returns Number of rows
+ */
+export async function countExportRows(
+  where: Prisma.EmailContactWhereInput,
+  mode: ExportMode = 'contacts',
+  sampling: ExportSampling = {},
+): Promise<number> {
+  const limit = sampling.limit ?? Infinity;
+
+  if (mode !== 'people') {
+    if (sampling.perJournalLimit) {
+      const perJournalLimit = sampling.perJournalLimit;
+      const journals = await readExportJournals(where);
+      return Math.min(limit, journals.reduce((sum, journal) => sum + Math.min(journal.count, perJournalLimit), 0));
+    }
+    return Math.min(limit, await prisma.emailContact.count({ where }));
+  }
+
+  let total = 0;
+  let lastEmail: string | null = null;
+  for (;;) {
+    const emails = await readEmailPage(where, lastEmail, PEOPLE_COUNT_CHUNK_SIZE);
+    total += emails.length;
+    if (emails.length < PEOPLE_COUNT_CHUNK_SIZE || total >= limit) return Math.min(limit, total);
+    lastEmail = emails[emails.length - 1];
+  }
+}
+
+/**
+ * Settings of an export file
+ */
+export interface ExportFileOptions {
+  /** Ordered columns with their header labels */
+  columns?: ExportColumnConfig[];
+  /** One row per contact, or one per email address */
+  mode?: ExportMode;
+  format?: ExportFormat;
+  /** Row limits and random sample seed */
+  sampling?: ExportSampling;
+}
+
+/**
+ * How a streamed export ended (the status names match ExportLogStatus)
+ */
+export type ExportOutcome =
+  | { status: 'COMPLETED'; rows: number; checksum: string }
+  | { status: 'FAILED'; error: unknown }
+  | { status: 'CANCELLED' };
+
+/**
+ * Options of a streamed export
+ */
+export interface ExportStreamOptions extends ExportFileOptions {
+  /** Called once when the file has been sent, has failed or was cancelled */
+  onFinish?: (outcome: ExportOutcome) => Promise<void> | void;
+}
+
+/**
+ * Write the matching contacts as one export file
+ * CSV and JSON Lines bytes are produced chunk by chunk (the CSV header row
+ * first); Excel files are produced once all rows have been read.
+ * @param where - Contact filter
+ * @param options - Columns, mode and format
+ * @returns Async generator of file bytes, returning the number of rows
+ */
+async function* writeExportFile(
+  where: Prisma.EmailContactWhereInput,
+  { columns = DEFAULT_EXPORT_COLUMNS, mode = 'contacts', format = 'csv', sampling = {} }: ExportFileOptions = {},
+): AsyncGenerator<Uint8Array, number> {
+  const writer = createExportWriter(format, columns);
+  let rows = 0;
+
+  const start = writer.start();
+  if (start) yield start;
+  for await (const chunk of readExportRows(where, mode, sampling)) {
+    rows += chunk.length;
+    const bytes = writer.write(chunk);
+    if (bytes) yield bytes;
+  }
+  const end = await writer.end();
+  if (end) yield end;
+  return rows;
+}
+
+/**
+ * Turn generated file bytes into a response stream
+ * Each part is only generated when the client is ready for it. The SHA-256
+ * checksum of the sent bytes is reported to onFinish with the row count.
+ * @param file - Async generator of file bytes, returning the number of rows
+ * @param onFinish - Called once with how the export ended
+ * @returns Stream of file bytes
+ */
+function toExportStream(
+  file: AsyncGenerator<Uint8Array, number>,
+  onFinish?: (outcome: ExportOutcome) => Promise<void> | void,
+): ReadableStream<Uint8Array> {
+  const hash = createHash('sha256');
+  const finish = async (outcome: ExportOutcome) => {
+    try {
+      await onFinish?.(outcome);
+    } catch (error) {
+      console.error('Export finish handler error:', error);
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await file.next();
+        if (done) {
+          controller.close();
+          await finish({ status: 'COMPLETED', rows: value, checksum: hash.digest('hex') });
+          return;
+        }
+        hash.update(value);
+        controller.enqueue(value);
+      } catch (error) {
+        console.error('Export stream error:', error);
+        controller.error(error);
+        await finish({ status: 'FAILED', error });
+      }
+    },
+    async cancel() {
+      await file.return(0);
+      await finish({ status: 'CANCELLED' });
+    },
+  });
+}
+
+/**
+ * Stream the matching contacts as an export file
+ * CSV and JSON Lines bytes are sent as each chunk is read (the CSV header
+ * row immediately), and each further chunk is only read from the database
+ * when the client is ready for it. Excel files are sent once all rows have
+ * been read.
+ * @param where - Contact filter
+ * @param options - Columns, mode, format and finish handler
+ * @returns Stream of file bytes
+ */
+export function createExportStream(
+  where: Prisma.EmailContactWhereInput,
+  { onFinish, ...options }: ExportStreamOptions = {},
+): ReadableStream<Uint8Array> {
+  return toExportStream(writeExportFile(where, options), onFinish);
+}
+
+/**
+ * Check that an export fits its file format
+ * Excel sheets hold at most XLSX_MAX_ROWS rows, so Excel exports (or, for
+ * per-journal archives, their largest journal) must not have more.
+ * @param where - Contact filter
+ * @param options - Mode, format and split of the export
+ * @returns Error message, or null when the export can be written
+ */
+export async function getExportSizeError(
+  where: Prisma.EmailContactWhereInput,
+  { mode = 'contacts', format = 'csv', split = null, sampling = {} }: ExportFileOptions & { split?: string | null },
+): Promise<string | null> {
+  if (format !== 'xlsx') return null;
+
+  const perJournalLimit = sampling.perJournalLimit ?? Infinity;
+  const largestFile = split
+    ? Math.max(0, ...(await readExportJournals(where)).map((journal) => Math.min(journal.count, perJournalLimit)))
+    : await countExportRows(where, mode, sampling);
+  return largestFile > XLSX_MAX_ROWS
+    ? `Excel files hold at most ${XLSX_MAX_ROWS.toLocaleString('en-US')} rows - narrow the filters or export CSV or JSON Lines`
+    : null;
+}
+
+/**
+ * Read the journals that have matching contacts, by brand code and name
+ * @param where - Contact filter
+ * @returns Journals with their number of matching contacts
+ */
+export async function readExportJournals(where: Prisma.EmailContactWhereInput): Promise<ExportJournal[]> {
+  const groups = await prisma.emailContact.groupBy({
+    by: ['journalId'],
+    where,
+    _count: { _all: true },
+  });
+  const counts = new Map(groups.map((group) => [group.journalId, group._count._all]));
+
+  const journals = await prisma.journal.findMany({
+    where: { id: { in: Array.from(counts.keys()) } },
+    select: { id: true, name: true, issn: true, brand: { select: { name: true, code: true } } },
+    orderBy: [{ brand: { code: 'asc' } }, { name: 'asc' }],
+  });
+
+  return journals.map((journal) => ({
+    id: journal.id,
+    name: journal.name,
+    issn: journal.issn,
+    brandName: journal.brand.name,
+    brandCode: journal.brand.code,
+    count: counts.get(journal.id) ?? 0,
+  }));
+}
+
+/**
+ * File name of a journal in a per-journal ZIP archive
+ * Characters that are not allowed in file names are replaced, and a number
+ * is added when two journals would get the same name.
+ * @param journal - Exported journal
+ * @param extension - File extension (e.g. "csv")
+ * @param used - Lowercase file names already in the archive (updated)
+ * @returns e.g. "ABC - Journal of Testing.csv"
+ */
+function getJournalFilename(journal: ExportJournal, extension: string, used: Set<string>): string {
+  const base = `${journal.brandCode} - ${journal.name}`
+    .replace(/\s+/g, ' ')
+    .replace(/[\\/:*?"<>|]+/g, '_')
+    .trim();
+
+  let name = `${base}.${extension}`;
+  for (let n = 2; used.has(name.toLowerCase()) || name.toLowerCase() === MANIFEST_FILENAME; n += 1) {
+    name = `${base} (${n}).${extension}`;
+  }
+  used.add(name.toLowerCase());
+  return name;
+}
+
+/**
+ * Collect the bytes of a generated file
+ * @param file - Async generator of file bytes, returning the number of rows
+ * @returns File contents and number of rows
+ */
+async function collectFile(file: AsyncGenerator<Uint8Array, number>): Promise<{ data: Uint8Array; rows: number }> {
+  const parts: Uint8Array[] = [];
+  let result = await file.next();
+  while (!result.done) {
+    parts.push(result.value);
+    result = await file.next();
+  }
+  return { data: Buffer.concat(parts), rows: result.value };
+}
+
+/**
+ * Write the matching contacts as a ZIP archive with one file per journal
+ * @param where - Contact filter
+ * @param options - Columns and format of the journal files
+ * @returns Async generator of ZIP bytes, returning the number of rows
+ */
+async function* writeJournalZip(
+  where: Prisma.EmailContactWhereInput,
+  { columns = DEFAULT_EXPORT_COLUMNS, format = 'csv', sampling = {} }: ExportFileOptions = {},
+): AsyncGenerator<Uint8Array, number> {
+  const archive = createZipArchive();
+  // Each journal file is sampled on its own, up to the per-journal limit
+  const fileSampling: ExportSampling = { limit: sampling.perJournalLimit ?? null, seed: sampling.seed ?? null };
+  const extension = EXPORT_FORMATS.find((f) => f.format === format)?.extension ?? format;
+  const usedNames = new Set<string>();
+  const manifest: Array<Array<string | number>> = [];
+  let total = 0;
+
+  for (const journal of await readExportJournals(where)) {
+    const file = getJournalFilename(journal, extension, usedNames);
+    const { data, rows } = await collectFile(
+      writeExportFile({ AND: [where, { journalId: journal.id }] }, { columns, format, sampling: fileSampling }),
+    );
+    total += rows;
+    manifest.push([file, journal.brandCode, journal.brandName, journal.name, journal.issn || '', rows]);
+    yield archive.addFile(file, data);
+  }
+
+  const manifestCsv = Papa.unparse({
+    fields: ['file', 'brand_code', 'brand', 'journal', 'issn', 'rows'],
+    data: manifest,
+  });
+  yield archive.addFile(MANIFEST_FILENAME, new TextEncoder().encode(`${manifestCsv}\r\n`));
+  yield archive.finish();
+  return total;
+}
+
+/**
+ * Stream the matching contacts as a ZIP archive with one file per journal
+ * Journals are written one at a time (by brand code and journal name), so
+ * the download starts with the first journal and only one journal file is
+ * held in memory. The archive ends with manifest.csv, listing each file with
+ * its journal and number of rows. Rows are always one per contact.
+ * @param where - Contact filter
+ * @param options - Columns, format of the journal files and finish handler
+ * @returns Stream of ZIP bytes
+ */
+export function createJournalZipStream(
+  where: Prisma.EmailContactWhereInput,
+  { onFinish, ...options }: ExportStreamOptions = {},
+): ReadableStream<Uint8Array> {
+  return toExportStream(writeJournalZip(where, options), onFinish);
+}
@@ -0,0 +1,412 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import prisma from '@/lib/prisma';
+import { generateId } from '@/lib/utils';
+import {
+  importContacts,
+  openCsvStream,
+  parseWorkbook,
+  type ImportCounts,
+  type ParsedFile,
+  type SourceRow,
+} from '@/lib/importer';
+import { createJournalResolver, singleJournalResolver } from '@/lib/importJournals';
+import {
+  DEFAULT_CSV_FORMAT,
+  FORMAT_SAMPLE_BYTES,
+  isCsvDelimiter,
+  isCsvEncoding,
+  type CsvFormat,
+} from '@/lib/csvFormat';
+import { isWorkbookFile, type WorkbookOptions } from '@/lib/workbook';
+import type { ColumnMapping } from '@/lib/importMapping';
+
+/**
+ * Background import job runner
+ *
+ * Uploaded files are streamed to the upload directory and stream-parsed in
+ * chunks, so imports of several hundred thousand rows neither hold the whole
+ * file in memory nor run inside the upload request. Jobs are run by the import
+ * worker (`pnpm import:worker`), a separate long-running process that shares
+ * the upload directory with the app. Excel workbooks cannot be streamed and
+ * are parsed in one go instead. Progress is written to the ImportJob row after
+ * every batch, and the final counts to its ImportBatch.
+ */
+
+/**
+ * Directory for uploaded files waiting to be imported
+ * Must be shared by the app and the import worker (IMPORT_UPLOAD_DIR).
+ */
+const UPLOAD_DIR = process.env.IMPORT_UPLOAD_DIR || path.join(os.tmpdir(), 'email-data-imports');
+
+/**
+ * A running job that has written no progress for this long is marked failed
+ * (its worker was stopped or crashed)
+ */
+export const STALE_JOB_TIMEOUT = 15 * 60 * 1000; // 15 minutes
+
+/**
+ * Thrown by saveUpload when the upload is larger than allowed
+ */
+export class UploadTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`File size must be less than ${Math.round(maxBytes / (1024 * 1024))}MB`);
+    this.name = 'UploadTooLargeError';
+  }
+}
+
+/**
+ * Pass-through stream that fails once more than a number of bytes is read
+ * @param maxBytes - Max size
+ * @returns Transform stream
+ */
+function limitBytes(maxBytes: number): Transform {
+  let total = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      total += chunk.length;
+      callback(total > maxBytes ? new UploadTooLargeError(maxBytes) : null, chunk);
+    },
+  });
+}
+
+/**
+ * Stream an uploaded request body to the upload directory
+ * Nothing is held in memory; a partly written file is removed when the
+ * upload fails or is too large.
+ * @param body - Request body
+ * @param fileName - Original file name (for its extension)
+ * @param maxBytes - Max size of the file
+ * @returns Path and size of the stored file
+ */
+export async function saveUpload(
+  body: ReadableStream<Uint8Array>,
+  fileName: string,
+  maxBytes: number,
+): Promise<{ filePath: string; fileSize: number }> {
+  await fs.promises.mkdir(UPLOAD_DIR, { recursive: true });
+  const filePath = path.join(UPLOAD_DIR, `${generateId()}${path.extname(fileName)}`);
+  try {
+    await pipeline(
+      Readable.fromWeb(body as WebReadableStream<Uint8Array>),
+      limitBytes(maxBytes),
+      fs.createWriteStream(filePath),
+    );
+  } catch (error) {
+    await removeUpload(filePath);
+    throw error;
+  }
+  const { size } = await fs.promises.stat(filePath);
+  return { filePath, fileSize: size };
+}
+
+/**
+ * Remove a stored upload
+ * @param filePath - Path returned by saveUpload
+ */
+export async function removeUpload(filePath: string): Promise<void> {
+  await fs.promises.rm(filePath, { force: true });
+}
+
+/**
+ * Parse a stored Excel workbook
+ * @param filePath - Path of the stored file
+ * @param options - Sheet and header row
+ * @returns Parsed headers, rows and parse errors
+ */
+export async function readUploadWorkbook(filePath: string, options: WorkbookOptions): Promise<ParsedFile> {
+  return parseWorkbook(await fs.promises.readFile(filePath), options);
+}
+
+/**
+ * Read the start of a stored file for encoding and delimiter detection
+ * @param filePath - Path of the stored file
+ * @returns Up to FORMAT_SAMPLE_BYTES bytes
+ */
+export async function readUploadSample(filePath: string): Promise<Uint8Array> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(FORMAT_SAMPLE_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, FORMAT_SAMPLE_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Read only the header row of a stored CSV file
+ * @param filePath - Path of the stored file
+ * @param format - Encoding and delimiter of the file
+ * @returns Trimmed headers
+ */
+export async function readUploadHeaders(filePath: string, format: CsvFormat): Promise<string[]> {
+  const input = fs.createReadStream(filePath);
+  try {
+    const { headers } = await openCsvStream(input, format);
+    return headers;
+  } finally {
+    input.destroy();
+  }
+}
+
+/**
+ * Pass-through stream that reports how many bytes have been read
+ * @param onBytes - Called with the size of every chunk
+ * @returns Transform stream
+ */
+function countBytes(onBytes: (bytes: number) => void): Transform {
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      onBytes(chunk.length);
+      callback(null, chunk);
+    },
+  });
+}
+
+/**
+ * Batch counts of an import
+ * @param counts - Rows written so far
+ * @returns ImportBatch fields
+ */
+function batchCounts(counts: ImportCounts) {
+  return {
+    total: counts.total,
+    imported: counts.imported,
+    updated: counts.updated,
+    duplicates: counts.duplicates,
+    suppressed: counts.suppressed,
+    errors: counts.errors,
+    journalCounts: counts.journals,
+  };
+}
+
+/**
+ * Run a pending import job to completion
+ * The job is claimed first, so a job that another worker started or that was
+ * cancelled while pending is skipped. Stops after the current batch when the
+ * job is cancelled or marked failed as stale, and never overwrites either
+ * status. Errors are not thrown but mark the job failed. The stored
+ * upload is removed when the job finishes.
+ * @param jobId - ImportJob ID
+ * @returns Whether the job was run
+ */
+export async function runImportJob(jobId: string): Promise<boolean> {
+  let filePath: string | null = null;
+  let batchId: string | null = null;
+  let input: fs.ReadStream | null = null;
+  let latest: ImportCounts | null = null;
+
+  try {
+    // Only start jobs that are still pending
+    const started = await prisma.importJob.updateMany({
+      where: { id: jobId, status: 'PENDING' },
+      data: { status: 'RUNNING', startedAt: new Date() },
+    });
+    if (started.count === 0) return false;
+
+    const job = await prisma.importJob.findUniqueOrThrow({
+      where: { id: jobId },
+      include: {
+        batch: {
+          select: {
+            mode: true,
+            brandId: true,
+            createJournals: true,
+            journal: { select: { id: true, name: true } },
+          },
+        },
+      },
+    });
+    filePath = job.filePath;
+    batchId = job.batchId;
+
+    let bytesProcessed = 0;
+    const isWorkbook = isWorkbookFile(job.fileName);
+    let rows: SourceRow[] | AsyncGenerator<SourceRow>;
+    let rowCount = 0;
+    if (isWorkbook) {
+      const parsed = await readUploadWorkbook(job.filePath, {
+        sheet: job.sheetName,
+        headerRow: job.headerRow,
+      });
+      if (parsed.errors.length > 0) {
+        throw new Error(parsed.errors[0]);
+      }
+      rows = parsed.rows;
+      rowCount = parsed.rows.length;
+    } else {
+      const counter = countBytes((bytes) => {
+        bytesProcessed += bytes;
+      });
+      input = fs.createReadStream(job.filePath);
+      input.on('error', (err) => counter.destroy(err));
+      ({ rows } = await openCsvStream(input.pipe(counter), {
+        encoding: isCsvEncoding(job.encoding) ? job.encoding : DEFAULT_CSV_FORMAT.encoding,
+        delimiter: isCsvDelimiter(job.delimiter) ? job.delimiter : DEFAULT_CSV_FORMAT.delimiter,
+      }));
+    }
+    const { batch } = job;
+
+    const result = await importContacts(rows, {
+      resolveJournal: batch.journal
+        ? singleJournalResolver(batch.journal)
+        : await createJournalResolver(batch.brandId, { createUnknown: batch.createJournals }),
+      mapping: job.mapping as ColumnMapping,
+      mode: batch.mode,
+      batchId: job.batchId,
+      onBatch: async (counts) => {
+        latest = counts;
+        if (isWorkbook) {
+          // The workbook is already in memory, so estimate progress from the rows
+          bytesProcessed = Math.round((job.fileSize * counts.total) / Math.max(rowCount, 1));
+        }
+        const { status } = await prisma.importJob.update({
+          where: { id: jobId },
+          data: {
+            bytesProcessed: Math.min(bytesProcessed, job.fileSize),
+            rowsProcessed: counts.total,
+            imported: counts.imported,
+            updated: counts.updated,
+            duplicates: counts.duplicates,
+            suppressed: counts.suppressed,
+            errors: counts.errors,
+            errorDetails: counts.errorDetails,
+          },
+          select: { status: true },
+        });
+        return status === 'RUNNING';
+      },
+    });
+
+    // A job cancelled by the user, or marked failed as stale, keeps its status
+    await prisma.$transaction(async (tx) => {
+      const finished = await tx.importJob.updateMany({
+        where: { id: jobId, status: result.stopped ? { in: ['CANCELLED', 'FAILED'] } : 'RUNNING' },
+        data: {
+          ...(!result.stopped && { status: 'COMPLETED' as const }),
+          bytesProcessed: result.stopped ? Math.min(bytesProcessed, job.fileSize) : job.fileSize,
+          rowsProcessed: result.total,
+          imported: result.imported,
+          updated: result.updated,
+          duplicates: result.duplicates,
+          suppressed: result.suppressed,
+          errors: result.errors,
+          errorDetails: result.errorDetails,
+          finishedAt: new Date(),
+        },
+      });
+      if (finished.count > 0) {
+        await tx.importBatch.update({
+          where: { id: job.batchId },
+          data: { ...batchCounts(result), finishedAt: new Date() },
+        });
+      }
+    });
+  } catch (error) {
+    console.error(`Import job ${jobId} failed:`, error);
+    // Assigned inside onBatch, which TypeScript does not track
+    const written = latest as ImportCounts | null;
+    try {
+      await prisma.$transaction(async (tx) => {
+        const failed = await tx.importJob.updateMany({
+          where: { id: jobId, status: 'RUNNING' },
+          data: {
+            status: 'FAILED',
+            failureReason: error instanceof Error ? error.message : 'Unknown error',
+            finishedAt: new Date(),
+          },
+        });
+        // Keep the batch counts in line with the rows written before the failure
+        if (batchId) {
+          await tx.importBatch.update({
+            where: { id: batchId },
+            data: { ...(failed.count > 0 && written && batchCounts(written)), finishedAt: new Date() },
+          });
+        }
+      });
+    } catch (updateError) {
+      // Left running; failStaleImportJobs marks it failed later
+      console.error(`Failed to mark import job ${jobId} as failed:`, updateError);
+    }
+  } finally {
+    input?.destroy();
+    if (filePath) {
+      await removeUpload(filePath);
+    }
+  }
+  return true;
+}
+
+/**
+ * Run the oldest pending import job
+ * @returns Whether a pending job was found
+ */
+export async function runNextImportJob(): Promise<boolean> {
+  const next = await prisma.importJob.findFirst({
+    where: { status: 'PENDING' },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true },
+  });
+  if (!next) return false;
+
+  await runImportJob(next.id);
+  return true;
+}
+
+/**
+ * Mark running jobs that have written no progress for STALE_JOB_TIMEOUT as
+ * failed, e.g. after their worker was restarted
+ * Jobs cancelled while running whose worker never stopped are finished the
+ * same way, keeping their status. The batch keeps the counts of the rows
+ * written before the job stopped, and can then be rolled back.
+ * @param now - Current time
+ * @returns Number of jobs marked failed
+ */
+export async function failStaleImportJobs(now: Date = new Date()): Promise<number> {
+  const stale = await prisma.importJob.findMany({
+    where: {
+      updatedAt: { lt: new Date(now.getTime() - STALE_JOB_TIMEOUT) },
+      OR: [
+        { status: 'RUNNING' },
+        { status: 'CANCELLED', batch: { finishedAt: null } },
+      ],
+    },
+  });
+
+  let failed = 0;
+  for (const job of stale) {
+    // Skip jobs that wrote progress (or finished) since they were read
+    const marked = await prisma.importJob.updateMany({
+      where: { id: job.id, status: job.status, updatedAt: job.updatedAt },
+      data: job.status === 'RUNNING'
+        ? {
+          status: 'FAILED',
+          failureReason: 'The import stopped unexpectedly and was not resumed',
+          finishedAt: now,
+        }
+        : { finishedAt: now },
+    });
+    if (marked.count === 0) continue;
+
+    await prisma.importBatch.update({
+      where: { id: job.batchId },
+      data: {
+        total: job.rowsProcessed,
+        imported: job.imported,
+        updated: job.updated,
+        duplicates: job.duplicates,
+        suppressed: job.suppressed,
+        errors: job.errors,
+        finishedAt: now,
+      },
+    });
+    await removeUpload(job.filePath);
+    if (job.status === 'RUNNING') failed++;
+  }
+  return failed;
+}
@@ -0,0 +1,126 @@
+import prisma from '@/lib/prisma';
+
+/**
+ * Journal routing for contact imports
+ *
+ * A single-journal import writes every row to the selected journal. A
+ * multi-journal import reads a journal name or ISSN from each row and routes
+ * it to the matching journal of the selected brand, optionally creating
+ * journals it does not know yet.
+ */
+
+/**
+ * Journal a row is written to
+ */
+export interface ResolvedJournal {
+  id: string;
+  name: string;
+  /** Whether the journal was created by this import */
+  created: boolean;
+}
+
+/**
+ * Resolve the journal value of a row
+ * Returns null when the row cannot be routed (missing or unknown journal).
+ */
+export type JournalResolver = (value: string) => Promise<ResolvedJournal | null>;
+
+/**
+ * Options for a multi-journal resolver
+ */
+export interface JournalResolverOptions {
+  /** Create journals that do not exist under the brand yet */
+  createUnknown: boolean;
+  /** Report journals that would be created without writing them */
+  dryRun?: boolean;
+}
+
+/**
+ * ISSN format: 4 digits, optional hyphen, 3 digits and a check digit
+ */
+const ISSN_PATTERN = /^(\d{4})-?(\d{3}[\dX])$/;
+
+/**
+ * Normalize an ISSN to the NNNN-NNNC form
+ * @param value - Raw ISSN text
+ * @returns Normalized ISSN, or null when the value is not an ISSN
+ */
+export function normalizeIssn(value: string): string | null {
+  const match = value.trim().toUpperCase().match(ISSN_PATTERN);
+  return match ? `${match[1]}-${match[2]}` : null;
+}
+
+/**
+ * Normalize a journal name for matching (case and extra spaces are ignored)
+ * @param value - Raw journal name
+ * @returns Lookup key
+ */
+function nameKey(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Resolver that sends every row to the same journal
+ * @param journal - Selected journal
+ * @returns Journal resolver
+ */
+export function singleJournalResolver(journal: { id: string; name: string }): JournalResolver {
+  const resolved: ResolvedJournal = { id: journal.id, name: journal.name, created: false };
+  return async () => resolved;
+}
+
+/**
+ * Resolver that routes rows by journal name or ISSN within a brand
+ * The brand's journals are loaded once; created journals are cached so each
+ * unknown journal is only created once per import.
+ * @param brandId - Brand the journals belong to
+ * @param options - Whether unknown journals are created
+ * @returns Journal resolver
+ */
+export async function createJournalResolver(
+  brandId: string,
+  { createUnknown, dryRun = false }: JournalResolverOptions,
+): Promise<JournalResolver> {
+  const journals = await prisma.journal.findMany({
+    where: { brandId },
+    select: { id: true, name: true, issn: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const byName = new Map<string, ResolvedJournal>();
+  const byIssn = new Map<string, ResolvedJournal>();
+  journals.forEach(({ id, name, issn }) => {
+    const journal = { id, name, created: false };
+    if (!byName.has(nameKey(name))) byName.set(nameKey(name), journal);
+    const normalizedIssn = issn && normalizeIssn(issn);
+    if (normalizedIssn && !byIssn.has(normalizedIssn)) byIssn.set(normalizedIssn, journal);
+  });
+
+  return async (value: string) => {
+    const name = value.trim().replace(/\s+/g, ' ');
+    if (!name) return null;
+
+    const issn = normalizeIssn(name);
+    const known = issn ? byIssn.get(issn) : byName.get(nameKey(name));
+    if (known) return known;
+    if (!createUnknown) return null;
+
+    let journal: ResolvedJournal;
+    if (dryRun) {
+      journal = { id: `new:${issn || nameKey(name)}`, name: issn || name, created: true };
+    } else {
+      const created = await prisma.journal.create({
+        data: { name: issn || name, issn, brandId },
+        select: { id: true, name: true },
+      });
+      journal = { ...created, created: true };
+    }
+
+    if (issn) {
+      byIssn.set(issn, journal);
+    } else {
+      byName.set(nameKey(name), journal);
+    }
+    return journal;
+  };
+}
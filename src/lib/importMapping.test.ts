@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyMapping,
+  getMappingErrors,
+  parseColumnMapping,
+  suggestField,
+  suggestMapping,
+} from '@/lib/importMapping';
+
+describe('suggestField', () => {
+  it('matches aliases regardless of case, spaces and punctuation', () => {
+    expect(suggestField('E-mail Address')).toBe('email');
+    expect(suggestField('  Full_Name ')).toBe('name');
+    expect(suggestField('Publication Title')).toBe('articleTitle');
+    expect(suggestField('eISSN')).toBe('journal');
+  });
+
+  it('returns an empty string for unknown headers', () => {
+    expect(suggestField('Affiliation')).toBe('');
+  });
+});
+
+describe('suggestMapping', () => {
+  it('maps each field to the first matching header only', () => {
+    expect(suggestMapping(['Email', 'Name', 'E-mail', 'Notes'])).toEqual({
+      Email: 'email',
+      Name: 'name',
+      'E-mail': '',
+      Notes: '',
+    });
+  });
+});
+
+describe('getMappingErrors', () => {
+  it('accepts a mapping with the required fields', () => {
+    expect(getMappingErrors({ Name: 'name', Email: 'email' }, ['Name', 'Email'])).toEqual([]);
+  });
+
+  it('reports missing, duplicated and unknown columns', () => {
+    const errors = getMappingErrors(
+      { Name: 'name', Author: 'name', Mail: 'email' },
+      ['Name', 'Author'],
+      ['journal'],
+    );
+    expect(errors).toEqual([
+      'Mapped columns not found in file: Mail',
+      'Missing required columns: Email, Journal / ISSN',
+      'Fields mapped more than once: Name',
+    ]);
+  });
+});
+
+describe('parseColumnMapping', () => {
+  it('accepts an object of contact fields and ignored columns', () => {
+    const mapping = { Name: 'name', Email: 'email', Notes: '' };
+    expect(parseColumnMapping(mapping)).toEqual(mapping);
+  });
+
+  it('rejects values that are not a mapping', () => {
+    expect(parseColumnMapping(null)).toBeNull();
+    expect(parseColumnMapping('name')).toBeNull();
+    expect(parseColumnMapping(['name', 'email'])).toBeNull();
+    expect(parseColumnMapping({ Name: 'fullName' })).toBeNull();
+    expect(parseColumnMapping({ Name: 1 })).toBeNull();
+  });
+});
+
+describe('applyMapping', () => {
+  it('keys row values by contact field and drops ignored columns', () => {
+    const row = { Author: 'Ada Lovelace', Mail: 'ada@example.org', Notes: 'n/a' };
+    expect(applyMapping(row, { Author: 'name', Mail: 'email', Notes: '' })).toEqual({
+      name: 'Ada Lovelace',
+      email: 'ada@example.org',
+    });
+  });
+
+  it('leaves out fields whose column is missing from the row', () => {
+    expect(applyMapping({ Author: 'Ada' }, { Author: 'name', Phone: 'phone' })).toEqual({ name: 'Ada' });
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Column mapping helpers for contact imports
+ *
+ * Shared by the Import page (to suggest a mapping for the detected headers)
+ * and the import API (to turn raw file rows into EmailContact fields),
+ * along with the import modes both of them offer.
+ */
+
+/**
+ * EmailContact fields that a file column can be mapped to
+ */
+export type ContactField = 'name' | 'email' | 'phone' | 'articleTitle' | 'year' | 'journal';
+
+/**
+ * Mapping of file header -> contact field ('' means the column is ignored)
+ */
+export type ColumnMapping = Record<string, ContactField | ''>;
+
+/**
+ * Contact field metadata for the mapping UI
+ */
+export interface ContactFieldInfo {
+  field: ContactField;
+  label: string;
+  required: boolean;
+}
+
+export const CONTACT_FIELDS: ContactFieldInfo[] = [
+  { field: 'name', label: 'Name', required: true },
+  { field: 'email', label: 'Email', required: true },
+  { field: 'phone', label: 'Phone', required: false },
+  { field: 'articleTitle', label: 'Article Title', required: false },
+  { field: 'year', label: 'Year', required: false },
+  // Only used by multi-journal imports, where it routes each row
+  { field: 'journal', label: 'Journal / ISSN', required: false },
+];
+
+/**
+ * Known header aliases per field, compared after normalization
+ * (case, spaces and punctuation are ignored)
+ */
+const FIELD_ALIASES: Record<ContactField, string[]> = {
+  name: [
+    'name',
+    'full name',
+    'author',
+    'author name',
+    'contact name',
+    'corresponding author',
+    'researcher',
+  ],
+  email: [
+    'email',
+    'e-mail',
+    'email address',
+    'e-mail address',
+    'email id',
+    'mail',
+    'author email',
+    'corresponding email',
+  ],
+  phone: [
+    'phone',
+    'phone number',
+    'telephone',
+    'tel',
+    'mobile',
+    'mobile number',
+    'contact number',
+  ],
+  articleTitle: [
+    'article_title',
+    'article title',
+    'article',
+    'paper title',
+    'paper',
+    'publication_title',
+    'publication title',
+    'manuscript title',
+    'title',
+  ],
+  year: ['year', 'publication year', 'pub year', 'collection year'],
+  journal: [
+    'journal',
+    'journal name',
+    'journal title',
+    'source title',
+    'issn',
+    'eissn',
+    'print issn',
+    'online issn',
+  ],
+};
+
+/**
+ * Normalize a header for alias comparison
+ * @param header - Raw header text
+ * @returns Lowercase header with everything but letters and digits removed
+ */
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Suggest the contact field for a single header
+ * @param header - Raw header text
+ * @returns Matching field, or '' when the header is not recognized
+ */
+export function suggestField(header: string): ContactField | '' {
+  const normalized = normalizeHeader(header);
+  const match = CONTACT_FIELDS.find(({ field }) =>
+    FIELD_ALIASES[field].some((alias) => normalizeHeader(alias) === normalized),
+  );
+  return match ? match.field : '';
+}
+
+/**
+ * Suggest a mapping for all detected headers
+ * Each field is assigned to at most one header (the first that matches).
+ * @param headers - Headers detected in the file
+ * @returns Suggested column mapping
+ */
+export function suggestMapping(headers: string[]): ColumnMapping {
+  const used = new Set<ContactField>();
+  return headers.reduce((mapping, header) => {
+    const field = suggestField(header);
+    if (field && !used.has(field)) {
+      used.add(field);
+      mapping[header] = field;
+    } else {
+      mapping[header] = '';
+    }
+    return mapping;
+  }, {} as ColumnMapping);
+}
+
+/**
+ * Read a column mapping sent by a client (e.g. the `mapping` form field)
+ * @param value - Parsed JSON value
+ * @returns Column mapping, or null unless it is an object whose values are
+ *   all contact fields (or '' for ignored columns)
+ */
+export function parseColumnMapping(value: unknown): ColumnMapping | null {
+  if (!value || typeof value !== 'object' || Object.getPrototypeOf(value) !== Object.prototype) {
+    return null;
+  }
+  const fields = Object.values(value);
+  const isKnown = (field: unknown) => field === '' || CONTACT_FIELDS.some((info) => info.field === field);
+  return fields.every(isKnown) ? (value as ColumnMapping) : null;
+}
+
+/**
+ * Validate a mapping against the detected headers
+ * @param mapping - Column mapping to validate
+ * @param headers - Headers detected in the file
+ * @param requiredFields - Optional fields that must be mapped as well (e.g. journal)
+ * @returns List of problems (empty when the mapping is usable)
+ */
+export function getMappingErrors(
+  mapping: ColumnMapping,
+  headers: string[],
+  requiredFields: ContactField[] = [],
+): string[] {
+  const errors: string[] = [];
+  const mappedFields = Object.entries(mapping)
+    .filter(([header, field]) => field && headers.includes(header))
+    .map(([, field]) => field);
+
+  const unknownHeaders = Object.keys(mapping).filter(
+    (header) => mapping[header] && !headers.includes(header),
+  );
+  if (unknownHeaders.length > 0) {
+    errors.push(`Mapped columns not found in file: ${unknownHeaders.join(', ')}`);
+  }
+
+  const missing = CONTACT_FIELDS
+    .filter(({ field, required }) => (required || requiredFields.includes(field)) && !mappedFields.includes(field))
+    .map(({ label }) => label);
+  if (missing.length > 0) {
+    errors.push(`Missing required columns: ${missing.join(', ')}`);
+  }
+
+  const duplicated = CONTACT_FIELDS
+    .filter(({ field }) => mappedFields.filter((f) => f === field).length > 1)
+    .map(({ label }) => label);
+  if (duplicated.length > 0) {
+    errors.push(`Fields mapped more than once: ${duplicated.join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Apply a mapping to a raw row
+ * @param row - Raw row keyed by file header
+ * @param mapping - Column mapping
+ * @returns Row values keyed by contact field
+ */
+export function applyMapping(
+  row: Record<string, string | undefined>,
+  mapping: ColumnMapping,
+): Partial<Record<ContactField, string>> {
+  const mapped: Partial<Record<ContactField, string>> = {};
+  Object.entries(mapping).forEach(([header, field]) => {
+    if (field && row[header] !== undefined) {
+      mapped[field] = row[header];
+    }
+  });
+  return mapped;
+}
+
+/**
+ * How an import treats rows whose email already exists in the journal
+ * (matches the ImportMode database enum)
+ * - SKIP: leave the existing contact untouched
+ * - FILL: set fields that are empty on the existing contact
+ * - OVERWRITE: replace fields with the non-empty values from the file
+ */
+export type ImportMode = 'SKIP' | 'FILL' | 'OVERWRITE';
+
+/**
+ * Import mode metadata for the Import page
+ */
+export interface ImportModeInfo {
+  mode: ImportMode;
+  label: string;
+  description: string;
+}
+
+export const IMPORT_MODES: ImportModeInfo[] = [
+  {
+    mode: 'SKIP',
+    label: 'Skip existing',
+    description: 'Rows whose email already exists in the journal are skipped',
+  },
+  {
+    mode: 'FILL',
+    label: 'Fill blanks only',
+    description: 'Existing contacts get values only for the fields they are missing',
+  },
+  {
+    mode: 'OVERWRITE',
+    label: 'Overwrite',
+    description: 'Existing contacts are updated with every non-empty value from the file',
+  },
+];
+
+/**
+ * Check whether a value is a known import mode
+ * @param value - Value to check (e.g. a form field)
+ * @returns Whether the value is an ImportMode
+ */
+export function isImportMode(value: unknown): value is ImportMode {
+  return IMPORT_MODES.some(({ mode }) => mode === value);
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it, vi } from 'vitest';
+import { validateRow } from '@/lib/importer';
+import type { ColumnMapping } from '@/lib/importMapping';
+
+// Validating a row never touches the database
+vi.mock('@/lib/prisma', () => ({ default: {} }));
+
+const mapping: ColumnMapping = { Name: 'name', Email: 'email', Year: 'year' };
+
+describe('validateRow', () => {
+  it('normalizes a valid row', () => {
+    expect(validateRow({ Name: ' Ada ', Email: 'Ada@Example.org', Year: ' 2023 ' }, mapping)).toEqual({
+      valid: true,
+      contact: { name: 'Ada', email: 'ada@example.org', phone: null, articleTitle: null, year: 2023 },
+    });
+  });
+
+  it('accepts rows without a year', () => {
+    expect(validateRow({ Name: 'Ada', Email: 'ada@example.org', Year: '' }, mapping)).toMatchObject({
+      valid: true,
+      contact: { year: null },
+    });
+  });
+
+  it('rejects years the contact form rejects', () => {
+    ['2023abc', '2023.9', '1899', '2101'].forEach((year) => {
+      expect(validateRow({ Name: 'Ada', Email: 'ada@example.org', Year: year }, mapping)).toEqual({
+        valid: false,
+        reason: `Invalid year: ${year}`,
+      });
+    });
+  });
+});
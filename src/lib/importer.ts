@@ -0,0 +1,646 @@
+import { Transform, type Readable } from 'stream';
+import Papa from 'papaparse';
+import prisma from '@/lib/prisma';
+import { isValidEmail } from '@/lib/utils';
+import { MAX_CONTACT_YEAR, MIN_CONTACT_YEAR } from '@/lib/contactValidation';
+import { createTextDecoder, DEFAULT_CSV_FORMAT, type CsvDelimiter, type CsvEncoding, type CsvFormat } from '@/lib/csvFormat';
+import { applyMapping, type ColumnMapping, type ImportMode } from '@/lib/importMapping';
+import type { JournalResolver, ResolvedJournal } from '@/lib/importJournals';
+import { getSheetRows, readWorkbook, type WorkbookOptions } from '@/lib/workbook';
+import { describeSuppression, loadSuppressionMatcher } from '@/lib/suppressions';
+
+/**
+ * Contact import helpers
+ *
+ * Parsing (CSV and Excel), row validation and batched writes shared by the
+ * import API (real and dry-run modes) and the background import job runner.
+ */
+
+/**
+ * A data row of the uploaded file with its 1-based line number
+ * (the header is line 1)
+ */
+export interface SourceRow {
+  line: number;
+  values: Record<string, string>;
+}
+
+/**
+ * Parsed file contents
+ */
+export interface ParsedFile {
+  headers: string[];
+  rows: SourceRow[];
+  errors: string[];
+}
+
+/**
+ * Contact data ready to be written
+ */
+export interface ContactInput {
+  name: string;
+  email: string;
+  phone: string | null;
+  articleTitle: string | null;
+  year: number | null;
+}
+
+/**
+ * Result of validating a single row
+ */
+export type RowValidation =
+  | { valid: true; contact: ContactInput }
+  | { valid: false; reason: string };
+
+/**
+ * Dry-run verdict for a single row
+ * ('update' is an existing contact the row would change in FILL or OVERWRITE mode,
+ * 'suppressed' an address on the suppression list)
+ */
+export type RowStatus = 'valid' | 'invalid' | 'suppressed' | 'duplicate' | 'existing' | 'update';
+
+export interface RowVerdict {
+  line: number;
+  name: string;
+  email: string;
+  /** Journal the row is routed to */
+  journal?: string;
+  status: RowStatus;
+  reason?: string;
+}
+
+/**
+ * Streaming view of a CSV file
+ */
+export interface CsvStream {
+  headers: string[];
+  rows: AsyncGenerator<SourceRow>;
+}
+
+/**
+ * Per-journal totals of an import
+ * (a type alias so it can be stored as JSON on the ImportBatch)
+ */
+export type JournalCounts = {
+  journalId: string;
+  name: string;
+  /** Whether the journal was created by the import */
+  created: boolean;
+  imported: number;
+  updated: number;
+  duplicates: number;
+};
+
+/**
+ * Running totals of an import
+ */
+export interface ImportCounts {
+  total: number;
+  imported: number;
+  updated: number;
+  duplicates: number;
+  /** Rows rejected because the address is on the suppression list */
+  suppressed: number;
+  errors: number;
+  errorDetails: string[];
+  journals: JournalCounts[];
+}
+
+/**
+ * Options for a batched import
+ */
+export interface ImportOptions {
+  /** Picks the journal of each row (see importJournals) */
+  resolveJournal: JournalResolver;
+  mapping: ColumnMapping;
+  /** How rows matching an existing contact are handled (default SKIP) */
+  mode?: ImportMode;
+  /** ImportBatch the created contacts and rejected rows are linked to */
+  batchId?: string;
+  /**
+   * Called after every written batch with the running totals.
+   * Returning false stops the import after the current batch.
+   */
+  onBatch?: (counts: ImportCounts) => Promise<boolean | void>;
+}
+
+/**
+ * Contact already stored in the journal
+ */
+type ExistingContact = ContactInput & { id: string };
+
+/**
+ * Contact fields an import may change on an existing contact
+ */
+const UPDATABLE_FIELDS = ['name', 'phone', 'articleTitle', 'year'] as const;
+
+/**
+ * Max emails per `IN (...)` lookup against the database
+ */
+const LOOKUP_BATCH_SIZE = 1000;
+
+/**
+ * Rows per `createMany` batch
+ */
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * Number of row error messages kept in the summary
+ */
+const MAX_ERROR_DETAILS = 10;
+
+/**
+ * Turn a parsed CSV record into a source row
+ * @param headers - Trimmed header row
+ * @param cells - Cells of the record
+ * @param line - 1-based line number of the record
+ * @returns Source row, or null for blank lines
+ */
+function toSourceRow(headers: string[], cells: string[], line: number): SourceRow | null {
+  if (cells.every((cell) => !cell.trim())) return null;
+  const values: Record<string, string> = {};
+  headers.forEach((header, column) => {
+    if (header) {
+      values[header] = cells[column] ?? '';
+    }
+  });
+  return { line, values };
+}
+
+/**
+ * Parse CSV text into headers and rows with line numbers
+ * Blank lines are skipped but still counted, so line numbers match the file.
+ * @param text - Decoded CSV file contents
+ * @param delimiter - Field delimiter (default comma)
+ * @returns Parsed headers, rows and parse errors
+ */
+export function parseCsv(text: string, delimiter: CsvDelimiter = DEFAULT_CSV_FORMAT.delimiter): ParsedFile {
+  const result = Papa.parse<string[]>(text, { skipEmptyLines: false, delimiter });
+  const [headerRow = [], ...dataRows] = result.data;
+  const headers = headerRow.map((header) => header.trim());
+
+  const rows: SourceRow[] = [];
+  dataRows.forEach((cells, index) => {
+    const row = toSourceRow(headers, cells, index + 2);
+    if (row) rows.push(row);
+  });
+
+  return {
+    headers: headers.filter(Boolean),
+    rows,
+    errors: result.errors.map((e) => (e.row !== undefined ? `Line ${e.row + 1}: ${e.message}` : e.message)),
+  };
+}
+
+/**
+ * Parse a sheet of an Excel workbook into headers and rows with line numbers
+ * Line numbers are the sheet's row numbers, so they match what Excel shows.
+ * @param data - Workbook file contents
+ * @param options - Sheet and header row
+ * @returns Parsed headers, rows and parse errors
+ */
+export async function parseWorkbook(
+  data: ArrayBuffer | Uint8Array,
+  { sheet, headerRow }: WorkbookOptions,
+): Promise<ParsedFile> {
+  let sheetRows;
+  try {
+    sheetRows = getSheetRows(await readWorkbook(data), sheet);
+  } catch (error) {
+    return {
+      headers: [],
+      rows: [],
+      errors: [`Could not read the workbook: ${error instanceof Error ? error.message : 'Unknown error'}`],
+    };
+  }
+
+  if (!sheetRows) {
+    return { headers: [], rows: [], errors: [`Sheet not found: ${sheet}`] };
+  }
+
+  const { firstRow, rows: cells } = sheetRows;
+  const headers = (cells[headerRow - firstRow] ?? []).map((header) => header.trim());
+
+  const rows: SourceRow[] = [];
+  cells.forEach((rowCells, index) => {
+    const line = firstRow + index;
+    if (line <= headerRow) return;
+    const row = toSourceRow(headers, rowCells, line);
+    if (row) rows.push(row);
+  });
+
+  return { headers: headers.filter(Boolean), rows, errors: [] };
+}
+
+/**
+ * Stream that decodes file bytes to UTF-8
+ * Characters split across chunks are kept together.
+ * @param encoding - Encoding of the file
+ * @returns Transform stream
+ */
+function decodeStream(encoding: CsvEncoding): Transform {
+  const decoder = createTextDecoder(encoding);
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      callback(null, decoder.decode(chunk, { stream: true }));
+    },
+    flush(callback) {
+      callback(null, decoder.decode());
+    },
+  });
+}
+
+/**
+ * Parse a CSV stream incrementally
+ * Only the header row is read up front; data rows are parsed as they are
+ * consumed, so memory use does not grow with the file size.
+ * @param input - Readable stream of the CSV file
+ * @param format - Encoding and delimiter of the file (default UTF-8, comma)
+ * @returns Headers and an async generator of data rows
+ */
+export async function openCsvStream(input: Readable, format: CsvFormat = DEFAULT_CSV_FORMAT): Promise<CsvStream> {
+  const decoder = decodeStream(format.encoding);
+  const parser = input
+    .pipe(decoder)
+    .pipe(Papa.parse(Papa.NODE_STREAM_INPUT, { skipEmptyLines: false, delimiter: format.delimiter }));
+  input.on('error', (err) => decoder.destroy(err));
+  decoder.on('error', (err) => parser.destroy(err));
+  const records = (parser as AsyncIterable<string[]>)[Symbol.asyncIterator]();
+
+  const first = await records.next();
+  const headers = first.done ? [] : first.value.map((header) => header.trim());
+
+  async function* rows(): AsyncGenerator<SourceRow> {
+    let line = 1;
+    for (;;) {
+      const record = await records.next();
+      if (record.done) return;
+      line += 1;
+      const row = toSourceRow(headers, record.value, line);
+      if (row) yield row;
+    }
+  }
+
+  return { headers: headers.filter(Boolean), rows: rows() };
+}
+
+/**
+ * Validate a mapped row and normalize its values
+ * @param values - Raw row values keyed by file header
+ * @param mapping - Column mapping
+ * @returns Normalized contact or the rejection reason
+ */
+export function validateRow(values: Record<string, string>, mapping: ColumnMapping): RowValidation {
+  const row = applyMapping(values, mapping);
+  const name = row.name?.trim();
+  const email = row.email?.trim().toLowerCase();
+  const phone = row.phone?.trim() || null;
+  const articleTitle = row.articleTitle?.trim() || null;
+  const yearStr = row.year?.trim();
+  const year = yearStr ? Number(yearStr) : null;
+
+  if (!name && !email) {
+    return { valid: false, reason: 'Missing name and email' };
+  }
+  if (!name) {
+    return { valid: false, reason: 'Missing name' };
+  }
+  if (!email) {
+    return { valid: false, reason: 'Missing email' };
+  }
+  if (!isValidEmail(email)) {
+    return { valid: false, reason: `Invalid email: ${email}` };
+  }
+  if (yearStr && (year === null || !Number.isInteger(year) || year < MIN_CONTACT_YEAR || year > MAX_CONTACT_YEAR)) {
+    return { valid: false, reason: `Invalid year: ${yearStr}` };
+  }
+
+  return {
+    valid: true,
+    contact: { name, email, phone, articleTitle, year },
+  };
+}
+
+/**
+ * Find which of the given emails already exist in a journal
+ * @param journalId - Journal to check
+ * @param emails - Normalized emails
+ * @returns Existing contacts keyed by email
+ */
+export async function findExistingContacts(
+  journalId: string,
+  emails: string[],
+): Promise<Map<string, ExistingContact>> {
+  const existing = new Map<string, ExistingContact>();
+
+  for (let i = 0; i < emails.length; i += LOOKUP_BATCH_SIZE) {
+    const batch = emails.slice(i, i + LOOKUP_BATCH_SIZE);
+    const found = await prisma.emailContact.findMany({
+      where: { journalId, email: { in: batch } },
+      select: { id: true, name: true, email: true, phone: true, articleTitle: true, year: true },
+    });
+    found.forEach((contact) => existing.set(contact.email, contact));
+  }
+
+  return existing;
+}
+
+/**
+ * Work out which fields an import row would change on an existing contact
+ * Empty values in the file never clear stored data.
+ * @param existing - Stored contact
+ * @param contact - Validated row
+ * @param mode - Import mode
+ * @returns Changed fields, or null when nothing would change
+ */
+export function getContactChanges(
+  existing: ContactInput,
+  contact: ContactInput,
+  mode: ImportMode,
+): Partial<ContactInput> | null {
+  if (mode === 'SKIP') return null;
+
+  const changes: Partial<ContactInput> = {};
+  UPDATABLE_FIELDS.forEach((field) => {
+    const value = contact[field];
+    if (value === null || value === existing[field]) return;
+    if (mode === 'OVERWRITE' || existing[field] === null) {
+      Object.assign(changes, { [field]: value });
+    }
+  });
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+/**
+ * Pick the journal of a validated row
+ * @param values - Raw row values keyed by file header
+ * @param mapping - Column mapping
+ * @param resolveJournal - Journal resolver of the import
+ * @returns Target journal or the rejection reason
+ */
+async function routeRow(
+  values: Record<string, string>,
+  mapping: ColumnMapping,
+  resolveJournal: JournalResolver,
+): Promise<{ journal: ResolvedJournal } | { reason: string }> {
+  const value = applyMapping(values, mapping).journal?.trim() || '';
+  const journal = await resolveJournal(value);
+  if (journal) return { journal };
+  return { reason: value ? `Unknown journal: ${value}` : 'Missing journal' };
+}
+
+/**
+ * Run the import validation without writing anything
+ * @param rows - Parsed file rows
+ * @param mapping - Column mapping
+ * @param resolveJournal - Journal resolver (should not create journals)
+ * @param mode - Import mode
+ * @returns Per-row verdicts
+ */
+export async function previewRows(
+  rows: SourceRow[],
+  mapping: ColumnMapping,
+  resolveJournal: JournalResolver,
+  mode: ImportMode = 'SKIP',
+): Promise<RowVerdict[]> {
+  const findSuppression = await loadSuppressionMatcher();
+  // Valid rows per journal, keyed by email
+  const seen = new Map<string, Map<string, ContactInput>>();
+  const journalOf = new Map<number, string>();
+  const verdicts: RowVerdict[] = [];
+
+  for (const { line, values } of rows) {
+    const mapped = applyMapping(values, mapping);
+    const verdict: RowVerdict = {
+      line,
+      name: mapped.name?.trim() || '',
+      email: mapped.email?.trim().toLowerCase() || '',
+      status: 'valid',
+    };
+
+    const validation = validateRow(values, mapping);
+    if (!validation.valid) {
+      verdicts.push({ ...verdict, status: 'invalid', reason: validation.reason });
+      continue;
+    }
+    const suppression = findSuppression(validation.contact.email);
+    if (suppression) {
+      verdicts.push({ ...verdict, status: 'suppressed', reason: describeSuppression(suppression) });
+      continue;
+    }
+    const route = await routeRow(values, mapping, resolveJournal);
+    if ('reason' in route) {
+      verdicts.push({ ...verdict, status: 'invalid', reason: route.reason });
+      continue;
+    }
+
+    const { journal } = route;
+    verdict.journal = journal.created ? `${journal.name} (new)` : journal.name;
+    const journalRows = seen.get(journal.id) ?? new Map<string, ContactInput>();
+    seen.set(journal.id, journalRows);
+    if (journalRows.has(validation.contact.email)) {
+      verdicts.push({ ...verdict, status: 'duplicate', reason: 'Duplicate email within the file' });
+      continue;
+    }
+    journalRows.set(validation.contact.email, validation.contact);
+    journalOf.set(line, journal.id);
+    verdicts.push(verdict);
+  }
+
+  const existing = new Map<string, Map<string, ExistingContact>>();
+  for (const [journalId, journalRows] of Array.from(seen.entries())) {
+    existing.set(journalId, await findExistingContacts(journalId, Array.from(journalRows.keys())));
+  }
+
+  return verdicts.map((verdict) => {
+    const journalId = journalOf.get(verdict.line);
+    if (verdict.status !== 'valid' || !journalId) return verdict;
+    const current = existing.get(journalId)?.get(verdict.email);
+    if (!current) return verdict;
+
+    const changes = getContactChanges(current, seen.get(journalId)!.get(verdict.email)!, mode);
+    return changes
+      ? { ...verdict, status: 'update', reason: `Updates ${Object.keys(changes).join(', ')}` }
+      : { ...verdict, status: 'existing', reason: 'Email already exists in this journal' };
+  });
+}
+
+/**
+ * Write one batch of validated contacts
+ * In FILL and OVERWRITE mode, contacts that already exist are updated in the
+ * same transaction as the inserts.
+ * @param contacts - Validated contacts
+ * @param journalId - Target journal
+ * @param mode - Import mode
+ * @param batchId - ImportBatch the created contacts are linked to
+ * @returns Number of inserted and updated contacts
+ */
+async function writeContacts(
+  contacts: ContactInput[],
+  journalId: string,
+  mode: ImportMode,
+  batchId?: string,
+): Promise<{ inserted: number; updated: number }> {
+  const toCreate = (data: ContactInput[]) => prisma.emailContact.createMany({
+    data: data.map((contact) => ({ ...contact, journalId, importBatchId: batchId })),
+    skipDuplicates: true, // Database handles duplicates via unique constraint
+  });
+
+  if (mode === 'SKIP') {
+    const result = await toCreate(contacts);
+    return { inserted: result.count, updated: 0 };
+  }
+
+  const existing = await findExistingContacts(journalId, contacts.map(({ email }) => email));
+  const inserts: ContactInput[] = [];
+  const updates = [];
+
+  for (const contact of contacts) {
+    const current = existing.get(contact.email);
+    if (!current) {
+      inserts.push(contact);
+      continue;
+    }
+    const changes = getContactChanges(current, contact, mode);
+    if (changes) {
+      updates.push(prisma.emailContact.update({ where: { id: current.id }, data: changes }));
+      // Later rows for the same email compare against the updated values
+      Object.assign(current, changes);
+    }
+  }
+
+  const results = await prisma.$transaction([...updates, toCreate(inserts)]);
+  const created = results[results.length - 1] as { count: number };
+  return { inserted: created.count, updated: updates.length };
+}
+
+/**
+ * Validate rows and write them to their journals in batches
+ * Rows whose email already exists in the journal are updated according to
+ * the import mode, or skipped and counted as duplicates. Rows whose address
+ * is on the suppression list are skipped and counted as suppressed. With a
+ * batchId, every rejected row is stored as an ImportRowError.
+ * @param rows - Source rows (array or stream)
+ * @param options - Journal resolver, column mapping, import mode and progress callback
+ * @returns Final totals and whether the import was stopped early
+ */
+export async function importContacts(
+  rows: Iterable<SourceRow> | AsyncIterable<SourceRow>,
+  { resolveJournal, mapping, mode = 'SKIP', batchId, onBatch }: ImportOptions,
+): Promise<ImportCounts & { stopped: boolean }> {
+  const counts: ImportCounts = {
+    total: 0,
+    imported: 0,
+    updated: 0,
+    duplicates: 0,
+    suppressed: 0,
+    errors: 0,
+    errorDetails: [],
+    journals: [],
+  };
+  const findSuppression = await loadSuppressionMatcher();
+  let batch: Array<{ row: SourceRow; contact: ContactInput; journal: ResolvedJournal }> = [];
+  let rejected: Array<{ row: SourceRow; reason: string }> = [];
+
+  const reject = (row: SourceRow, reason: string) => {
+    counts.errors += 1;
+    if (counts.errorDetails.length < MAX_ERROR_DETAILS) {
+      counts.errorDetails.push(`Line ${row.line}: ${reason}`);
+    }
+    if (batchId) {
+      rejected.push({ row, reason });
+    }
+  };
+
+  // Write the pending contacts journal by journal
+  const writeBatch = async () => {
+    const byJournal = new Map<string, typeof batch>();
+    batch.forEach((item) => {
+      byJournal.set(item.journal.id, [...(byJournal.get(item.journal.id) ?? []), item]);
+    });
+
+    for (const items of Array.from(byJournal.values())) {
+      const { journal } = items[0];
+      try {
+        const { inserted, updated } = await writeContacts(
+          items.map(({ contact }) => contact),
+          journal.id,
+          mode,
+          batchId,
+        );
+        let journalCounts = counts.journals.find((j) => j.journalId === journal.id);
+        if (!journalCounts) {
+          journalCounts = {
+            journalId: journal.id,
+            name: journal.name,
+            created: journal.created,
+            imported: 0,
+            updated: 0,
+            duplicates: 0,
+          };
+          counts.journals.push(journalCounts);
+        }
+        const duplicates = items.length - inserted - updated;
+        journalCounts.imported += inserted;
+        journalCounts.updated += updated;
+        journalCounts.duplicates += duplicates;
+        counts.imported += inserted;
+        counts.updated += updated;
+        counts.duplicates += duplicates;
+      } catch (err: unknown) {
+        const reason = `Batch insert error: ${err instanceof Error ? err.message : 'Unknown error'}`;
+        items.forEach(({ row }) => reject(row, reason));
+      }
+    }
+    batch = [];
+  };
+
+  // Write the pending contacts and rejected rows, then report progress
+  const flush = async (): Promise<boolean> => {
+    if (batch.length > 0) {
+      await writeBatch();
+    }
+
+    if (batchId && rejected.length > 0) {
+      await prisma.importRowError.createMany({
+        data: rejected.map(({ row, reason }) => ({
+          batchId,
+          line: row.line,
+          reason,
+          values: row.values,
+        })),
+      });
+      rejected = [];
+    }
+
+    return onBatch
+      ? (await onBatch({ ...counts, journals: counts.journals.map((j) => ({ ...j })) })) !== false
+      : true;
+  };
+
+  for await (const row of rows) {
+    counts.total += 1;
+    const validation = validateRow(row.values, mapping);
+
+    if (!validation.valid) {
+      reject(row, validation.reason);
+    } else if (findSuppression(validation.contact.email)) {
+      counts.suppressed += 1;
+    } else {
+      const route = await routeRow(row.values, mapping, resolveJournal);
+      if ('reason' in route) {
+        reject(row, route.reason);
+      } else {
+        batch.push({ row, contact: validation.contact, journal: route.journal });
+      }
+    }
+
+    const isFull = batch.length >= INSERT_BATCH_SIZE || rejected.length >= INSERT_BATCH_SIZE;
+    if (isFull && !(await flush())) {
+      return { ...counts, stopped: true };
+    }
+  }
+
+  return { ...counts, stopped: !(await flush()) };
+}
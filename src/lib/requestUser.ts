@@ -0,0 +1,17 @@
+import type { NextRequest } from 'next/server';
+
+/**
+ * Resolve who made a request, for audit fields such as ImportBatch.createdBy
+ *
+ * The app has no login of its own, so the user is taken from the header set
+ * by the authenticating proxy in front of it (if any).
+ * @param request - Incoming request
+ * @returns User identifier, or 'anonymous' when none was forwarded
+ */
+export function getRequestUser(request: NextRequest): string {
+  return (
+    request.headers.get('x-forwarded-user')
+    || request.headers.get('x-forwarded-email')
+    || 'anonymous'
+  );
+}
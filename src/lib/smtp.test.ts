@@ -0,0 +1,95 @@
+import net from 'net';
+import type { AddressInfo } from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { sendMail, type SmtpConfig } from '@/lib/smtp';
+
+/**
+ * Plain-text mail server that offers AUTH but not STARTTLS
+ * Records the commands it receives and accepts every message.
+ */
+function startServer(): Promise<{ server: net.Server; commands: string[]; port: number }> {
+  const commands: string[] = [];
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 test ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      let index = buffer.indexOf('\r\n');
+      while (index >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 queued\r\n');
+          }
+        } else {
+          commands.push(line);
+          const verb = line.split(/[ :]/)[0].toUpperCase();
+          if (verb === 'EHLO') socket.write('250-test\r\n250 AUTH PLAIN LOGIN\r\n');
+          else if (verb === 'DATA') {
+            inData = true;
+            socket.write('354 go ahead\r\n');
+          } else if (verb === 'STARTTLS') socket.write('502 not supported\r\n');
+          else if (verb === 'QUIT') socket.end('221 bye\r\n');
+          else socket.write('250 ok\r\n');
+        }
+        index = buffer.indexOf('\r\n');
+      }
+    });
+  });
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, commands, port: (server.address() as AddressInfo).port });
+    });
+  });
+}
+
+const message = { to: ['ada@example.org'], subject: 'Weekly export', text: 'Attached.' };
+
+let server: net.Server | null = null;
+
+afterEach(() => {
+  server?.close();
+  server = null;
+});
+
+describe('sendMail', () => {
+  it('sends the address of a named sender as the envelope sender', async () => {
+    const started = await startServer();
+    server = started.server;
+    const config: SmtpConfig = {
+      host: '127.0.0.1',
+      port: started.port,
+      secure: false,
+      from: 'Journal Exports <exports@example.org>',
+    };
+
+    await sendMail(message, config);
+
+    expect(started.commands).toContain('MAIL FROM:<exports@example.org>');
+    expect(started.commands).toContain('RCPT TO:<ada@example.org>');
+  });
+
+  it('refuses to log in over a connection without TLS', async () => {
+    const started = await startServer();
+    server = started.server;
+    const config: SmtpConfig = {
+      host: '127.0.0.1',
+      port: started.port,
+      secure: false,
+      user: 'exports',
+      password: 'secret',
+      from: 'exports@example.org',
+    };
+
+    await expect(sendMail(message, config)).rejects.toThrow('STARTTLS');
+    expect(started.commands.some((command) => command.startsWith('AUTH'))).toBe(false);
+    expect(started.commands.some((command) => command.startsWith('MAIL'))).toBe(false);
+  });
+
+  it('requires a configured mail server', async () => {
+    await expect(sendMail(message, null)).rejects.toThrow('Email delivery is not configured');
+  });
+});
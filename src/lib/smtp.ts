@@ -0,0 +1,113 @@
+import os from 'os';
+import nodemailer from 'nodemailer';
+
+/**
+ * Mail delivery for scheduled export emails
+ *
+ * Sends a plain-text message with attachments (through Nodemailer) via the
+ * mail server configured in the environment:
+ * - SMTP_HOST: Mail server host (required to send mail)
+ * - SMTP_PORT: Port (defaults to 465 with SMTP_SECURE, otherwise 587)
+ * - SMTP_SECURE: "true" for implicit TLS; otherwise STARTTLS is used when
+ *   the server offers it
+ * - SMTP_USER, SMTP_PASSWORD: Login (optional). Credentials are only sent
+ *   over TLS: without SMTP_SECURE the server must offer STARTTLS.
+ * - SMTP_FROM: Sender, as an address or `Name <address>` (defaults to SMTP_USER)
+ */
+
+/**
+ * Mail server settings
+ */
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+/**
+ * File attached to a message
+ */
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Uint8Array;
+}
+
+/**
+ * Message to send
+ */
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+/**
+ * Time without server activity before the connection is dropped
+ */
+const SMTP_TIMEOUT_MS = 60000;
+
+/**
+ * Read the mail server settings from the environment
+ * @returns Settings, or null when SMTP_HOST is not set
+ */
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) return null;
+
+  const secure = process.env.SMTP_SECURE === 'true';
+  const user = process.env.SMTP_USER || undefined;
+  return {
+    host,
+    port: parseInt(process.env.SMTP_PORT || (secure ? '465' : '587'), 10),
+    secure,
+    user,
+    password: process.env.SMTP_PASSWORD || undefined,
+    from: process.env.SMTP_FROM || user || `exports@${os.hostname()}`,
+  };
+}
+
+/**
+ * Send a message through the configured mail server
+ * @param message - Message to send
+ * @param config - Mail server settings (defaults to the environment)
+ * @throws Error when mail is not configured, the connection cannot be
+ *   secured before logging in, or the server rejects the message
+ */
+export async function sendMail(message: MailMessage, config: SmtpConfig | null = getSmtpConfig()): Promise<void> {
+  if (!config) {
+    throw new Error('Email delivery is not configured (set SMTP_HOST)');
+  }
+
+  const transport = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    // Fail instead of sending the login over a plain connection
+    requireTLS: !config.secure && Boolean(config.user),
+    auth: config.user ? { user: config.user, pass: config.password ?? '' } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  });
+
+  try {
+    await transport.sendMail({
+      from: config.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      attachments: message.attachments?.map((attachment) => ({
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        content: Buffer.from(attachment.content),
+      })),
+    });
+  } finally {
+    transport.close();
+  }
+}
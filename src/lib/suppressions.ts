@@ -0,0 +1,338 @@
+import type { Prisma, Suppression, SuppressionType } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { isValidEmail } from '@/lib/utils';
+import { domainWhere } from '@/lib/contactFilters';
+import type { ParsedFile } from '@/lib/importer';
+
+/**
+ * Global suppression list
+ *
+ * Email addresses and whole domains (with their subdomains) that must never
+ * be contacted again. Imports reject suppressed addresses, and exports leave
+ * them out. So that exports can filter in the database, every contact
+ * carries a `suppressed` flag that is kept in sync here whenever the list
+ * changes (and set by the contacts API when a contact is created or edited).
+ */
+
+/**
+ * Normalized suppression entry
+ */
+export interface SuppressionEntry {
+  type: SuppressionType;
+  /** Lowercase email address or domain */
+  value: string;
+  reason?: string | null;
+  source?: string | null;
+  /** When the address was suppressed (defaults to now) */
+  suppressedAt?: Date | null;
+}
+
+/**
+ * Finds the suppression matching an email address
+ */
+export type SuppressionMatcher = (email: string) => Suppression | null;
+
+/**
+ * Result of adding suppressions
+ */
+export interface AddSuppressionsResult {
+  /** Entries added to the list */
+  added: number;
+  /** Entries already on the list (left unchanged) */
+  existing: number;
+  /** Contacts newly flagged as suppressed */
+  contacts: number;
+}
+
+/**
+ * Entries read from an uploaded suppression list
+ */
+export interface SuppressionFileEntries {
+  entries: SuppressionEntry[];
+  /** Number of rows that could not be read */
+  invalid: number;
+  /** First few row errors, e.g. "Line 4: Invalid email: bob@" */
+  errors: string[];
+}
+
+/**
+ * Max values per `IN (...)` query against the database
+ */
+const LOOKUP_BATCH_SIZE = 1000;
+
+/**
+ * Number of row error messages returned for an upload
+ */
+const MAX_ERROR_DETAILS = 10;
+
+/**
+ * Accepted headers of an uploaded list, compared without case, spaces or
+ * punctuation (e.g. "Email Address" from a Mailchimp export)
+ */
+const FILE_HEADERS = {
+  value: ['email', 'emailaddress', 'mail', 'domain', 'value', 'address'],
+  reason: ['reason', 'suppressionreason'],
+  source: ['source'],
+  suppressedAt: ['date', 'suppressedat', 'suppresseddate', 'unsubscribedat', 'createdat'],
+};
+
+/**
+ * Domain name, e.g. "example.org" or "mail.example.co.uk"
+ */
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+/**
+ * Work out whether a value is an email address or a domain
+ * @param raw - Email address or domain ("@example.org" is read as a domain)
+ * @returns Type and normalized value, or the reason it is invalid
+ */
+export function parseSuppressionValue(
+  raw: string,
+): { type: SuppressionType; value: string } | { error: string } {
+  const text = raw.trim().toLowerCase();
+  if (!text) {
+    return { error: 'Missing email or domain' };
+  }
+
+  const domain = text.startsWith('@') ? text.slice(1) : null;
+  if (domain === null && text.includes('@')) {
+    return isValidEmail(text) ? { type: 'EMAIL', value: text } : { error: `Invalid email: ${raw.trim()}` };
+  }
+  const value = domain ?? text;
+  return DOMAIN_PATTERN.test(value) ? { type: 'DOMAIN', value } : { error: `Invalid domain: ${raw.trim()}` };
+}
+
+/**
+ * Suppression list values that would match an email address
+ * @param email - Lowercase email address
+ * @returns The address, then its domain and every parent domain
+ * (e.g. a@mail.example.org, mail.example.org, example.org, org)
+ */
+function getMatchingValues(email: string): string[] {
+  const domain = email.slice(email.lastIndexOf('@') + 1);
+  const labels = domain.split('.');
+  return [email, ...labels.map((_, i) => labels.slice(i).join('.'))];
+}
+
+/**
+ * Prisma filter for the contacts a suppression applies to
+ * @param suppression - Suppression type and value
+ * @returns Prisma where clause
+ */
+export function getSuppressedContactsWhere(
+  suppression: Pick<Suppression, 'type' | 'value'>,
+): Prisma.EmailContactWhereInput {
+  return suppression.type === 'EMAIL'
+    ? { email: { equals: suppression.value, mode: 'insensitive' } }
+    : domainWhere(suppression.value);
+}
+
+/**
+ * Load the whole suppression list for checking many addresses
+ * (imports check every row against it)
+ * @returns Function that finds the suppression matching an email address
+ */
+export async function loadSuppressionMatcher(): Promise<SuppressionMatcher> {
+  const suppressions = await prisma.suppression.findMany();
+  const byValue = new Map(suppressions.map((suppression) => [suppression.value, suppression]));
+
+  return (email) => {
+    if (byValue.size === 0) return null;
+    for (const value of getMatchingValues(email.trim().toLowerCase())) {
+      const suppression = byValue.get(value);
+      if (suppression) return suppression;
+    }
+    return null;
+  };
+}
+
+/**
+ * Find the suppression matching a single email address
+ * @param email - Email address
+ * @returns Matching suppression, or null when the address may be contacted
+ */
+export async function findSuppression(email: string): Promise<Suppression | null> {
+  return prisma.suppression.findFirst({
+    where: { value: { in: getMatchingValues(email.trim().toLowerCase()) } },
+  });
+}
+
+/**
+ * Describe why an address is suppressed
+ * @param suppression - Matching suppression
+ * @returns e.g. "Suppressed: Unsubscribed (domain example.org)"
+ */
+export function describeSuppression(suppression: Pick<Suppression, 'type' | 'value' | 'reason'>): string {
+  const reason = suppression.reason ? `Suppressed: ${suppression.reason}` : 'Suppressed';
+  return suppression.type === 'DOMAIN' ? `${reason} (domain ${suppression.value})` : reason;
+}
+
+/**
+ * Flag the contacts a suppression applies to
+ * @param suppressions - Added suppressions
+ * @returns Number of contacts newly flagged
+ */
+async function flagContacts(suppressions: Array<Pick<Suppression, 'type' | 'value'>>): Promise<number> {
+  let flagged = 0;
+  const emails = suppressions.filter(({ type }) => type === 'EMAIL').map(({ value }) => value);
+
+  for (let i = 0; i < emails.length; i += LOOKUP_BATCH_SIZE) {
+    const result = await prisma.emailContact.updateMany({
+      where: { email: { in: emails.slice(i, i + LOOKUP_BATCH_SIZE), mode: 'insensitive' }, suppressed: false },
+      data: { suppressed: true },
+    });
+    flagged += result.count;
+  }
+
+  for (const suppression of suppressions.filter(({ type }) => type === 'DOMAIN')) {
+    const result = await prisma.emailContact.updateMany({
+      where: { AND: [getSuppressedContactsWhere(suppression), { suppressed: false }] },
+      data: { suppressed: true },
+    });
+    flagged += result.count;
+  }
+
+  return flagged;
+}
+
+/**
+ * Add entries to the suppression list and flag the matching contacts
+ * Entries already on the list are left unchanged (the first of repeated
+ * values wins).
+ * @param entries - Normalized entries (see parseSuppressionValue)
+ * @param createdBy - User adding them
+ * @returns Number of added and existing entries and flagged contacts
+ */
+export async function addSuppressions(
+  entries: SuppressionEntry[],
+  createdBy: string,
+): Promise<AddSuppressionsResult> {
+  const unique = new Map<string, SuppressionEntry>();
+  entries.forEach((entry) => {
+    if (!unique.has(entry.value)) unique.set(entry.value, entry);
+  });
+  const values = Array.from(unique.keys());
+
+  const existing = new Set<string>();
+  for (let i = 0; i < values.length; i += LOOKUP_BATCH_SIZE) {
+    const found = await prisma.suppression.findMany({
+      where: { value: { in: values.slice(i, i + LOOKUP_BATCH_SIZE) } },
+      select: { value: true },
+    });
+    found.forEach(({ value }) => existing.add(value));
+  }
+
+  const toAdd = Array.from(unique.values()).filter(({ value }) => !existing.has(value));
+  let added = 0;
+  for (let i = 0; i < toAdd.length; i += LOOKUP_BATCH_SIZE) {
+    const result = await prisma.suppression.createMany({
+      data: toAdd.slice(i, i + LOOKUP_BATCH_SIZE).map((entry) => ({
+        type: entry.type,
+        value: entry.value,
+        reason: entry.reason || null,
+        source: entry.source || null,
+        createdBy,
+        ...(entry.suppressedAt && { suppressedAt: entry.suppressedAt }),
+      })),
+      skipDuplicates: true, // Another upload may have added the same value meanwhile
+    });
+    added += result.count;
+  }
+
+  const contacts = await flagContacts(toAdd);
+  return { added, existing: values.length - toAdd.length, contacts };
+}
+
+/**
+ * Remove an entry from the suppression list
+ * Contacts it applied to are unflagged, unless another entry (e.g. their
+ * domain) still suppresses them.
+ * @param id - Suppression ID
+ * @returns Removed suppression, or null when it does not exist
+ */
+export async function removeSuppression(id: string): Promise<Suppression | null> {
+  const suppression = await prisma.suppression.findUnique({ where: { id } });
+  if (!suppression) return null;
+
+  await prisma.suppression.delete({ where: { id } });
+
+  const affected = await prisma.emailContact.findMany({
+    where: { AND: [getSuppressedContactsWhere(suppression), { suppressed: true }] },
+    select: { id: true, email: true },
+  });
+  if (affected.length > 0) {
+    const matcher = await loadSuppressionMatcher();
+    const ids = affected.filter(({ email }) => !matcher(email)).map(({ id: contactId }) => contactId);
+    for (let i = 0; i < ids.length; i += LOOKUP_BATCH_SIZE) {
+      await prisma.emailContact.updateMany({
+        where: { id: { in: ids.slice(i, i + LOOKUP_BATCH_SIZE) } },
+        data: { suppressed: false },
+      });
+    }
+  }
+
+  return suppression;
+}
+
+/**
+ * Find the file header for a column of an uploaded list
+ * @param headers - File headers
+ * @param accepted - Accepted header names (see FILE_HEADERS)
+ * @returns Matching file header, or null
+ */
+function findHeader(headers: string[], accepted: string[]): string | null {
+  return headers.find((header) => accepted.includes(header.toLowerCase().replace(/[^a-z]/g, ''))) ?? null;
+}
+
+/**
+ * Read the entries of an uploaded suppression list
+ * The file needs an email or domain column; reason, source and date columns
+ * are optional and fall back to the given defaults.
+ * @param file - Parsed CSV file
+ * @param defaults - Reason and source for rows without one
+ * @returns Entries, or an error when the file has no email or domain column
+ */
+export function readSuppressionFile(
+  { headers, rows }: ParsedFile,
+  defaults: { reason?: string | null; source?: string | null } = {},
+): SuppressionFileEntries | { error: string } {
+  const valueHeader = findHeader(headers, FILE_HEADERS.value);
+  if (!valueHeader) {
+    return { error: 'The file needs an "email" or "domain" column' };
+  }
+  const reasonHeader = findHeader(headers, FILE_HEADERS.reason);
+  const sourceHeader = findHeader(headers, FILE_HEADERS.source);
+  const dateHeader = findHeader(headers, FILE_HEADERS.suppressedAt);
+
+  const result: SuppressionFileEntries = { entries: [], invalid: 0, errors: [] };
+  const reject = (line: number, reason: string) => {
+    result.invalid += 1;
+    if (result.errors.length < MAX_ERROR_DETAILS) {
+      result.errors.push(`Line ${line}: ${reason}`);
+    }
+  };
+
+  rows.forEach(({ line, values }) => {
+    const parsed = parseSuppressionValue(values[valueHeader] ?? '');
+    if ('error' in parsed) {
+      reject(line, parsed.error);
+      return;
+    }
+
+    const dateText = dateHeader ? values[dateHeader]?.trim() : '';
+    const suppressedAt = dateText ? new Date(dateText) : null;
+    if (suppressedAt && Number.isNaN(suppressedAt.getTime())) {
+      reject(line, `Invalid date: ${dateText}`);
+      return;
+    }
+
+    result.entries.push({
+      ...parsed,
+      reason: (reasonHeader && values[reasonHeader]?.trim()) || defaults.reason || null,
+      source: (sourceHeader && values[sourceHeader]?.trim()) || defaults.source || null,
+      suppressedAt,
+    });
+  });
+
+  return result;
+}
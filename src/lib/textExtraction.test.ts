@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { contactsToCsv, extractContacts } from '@/lib/textExtraction';
+
+describe('extractContacts', () => {
+  it('reads display names of email headers', () => {
+    expect(extractContacts('To: "Doe, Jane" <Jane.Doe@Example.org>, John Smith <john@example.org>')).toEqual([
+      { name: 'Doe, Jane', email: 'jane.doe@example.org' },
+      { name: 'John Smith', email: 'john@example.org' },
+    ]);
+  });
+
+  it('takes the name cell of a table row, not the affiliation', () => {
+    const text = 'Prof. Ada Lovelace\tUniversity of London\tada@example.org';
+    expect(extractContacts(text)).toEqual([{ name: 'Ada Lovelace', email: 'ada@example.org' }]);
+  });
+
+  it('finds a name on the lines above the address', () => {
+    const text = [
+      'Dr. Alan Turing',
+      'Department of Mathematics',
+      'Email: alan@example.org.',
+    ].join('\n');
+    expect(extractContacts(text)).toEqual([{ name: 'Alan Turing', email: 'alan@example.org' }]);
+  });
+
+  it('does not take a name from above a line with another address', () => {
+    const text = 'Grace Hopper - grace@example.org\nlinus@example.org';
+    expect(extractContacts(text)).toEqual([
+      { name: 'Grace Hopper', email: 'grace@example.org' },
+      { name: '', email: 'linus@example.org' },
+    ]);
+  });
+
+  it('lists each address once and fills in a name found later', () => {
+    const text = 'ada@example.org\nContact: Ada Lovelace (ADA@example.org)';
+    expect(extractContacts(text)).toEqual([{ name: 'Ada Lovelace', email: 'ada@example.org' }]);
+  });
+});
+
+describe('contactsToCsv', () => {
+  it('writes Name and Email columns', () => {
+    expect(contactsToCsv([{ name: ' Doe, Jane ', email: 'jane@example.org' }])).toBe(
+      'Name,Email\r\n"Doe, Jane",jane@example.org',
+    );
+  });
+});
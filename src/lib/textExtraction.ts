@@ -0,0 +1,162 @@
+import Papa from 'papaparse';
+
+/**
+ * Email and name extraction from free text
+ *
+ * Used by the "Paste text" tab of the Import page for text that is not a
+ * clean CSV (editorial board listings, tables copied from a PDF, email
+ * threads). The extracted contacts are edited in the browser and then sent
+ * to the import API as a generated CSV, so they go through the same
+ * server-side validation as an uploaded file.
+ */
+
+/**
+ * Contact found in pasted text
+ */
+export interface ExtractedContact {
+  name: string;
+  email: string;
+}
+
+/**
+ * Headers of the CSV generated from extracted contacts
+ */
+export const EXTRACTED_CSV_HEADERS = { name: 'Name', email: 'Email' } as const;
+
+/**
+ * Email addresses anywhere in a line
+ */
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+
+/**
+ * Whether a line contains an email address
+ */
+const HAS_EMAIL = new RegExp(EMAIL_PATTERN.source, 'i');
+
+/**
+ * Separators between the parts of a line (table cells, list punctuation)
+ */
+const PART_SEPARATOR = /[\t|;,:<>()[\]"]+|\s[-–—]\s/;
+
+/**
+ * Titles stripped from the start of a name
+ */
+const TITLE_PATTERN = /^(?:dr|prof|professor|mr|mrs|ms|miss|sir)\.?\s+/i;
+
+/**
+ * Words that mark an affiliation or label rather than a person's name
+ */
+const NON_NAME_WORDS = /\b(?:university|universit[àéy]|institute|institut|department|dept|college|school|hospital|cent(?:er|re)|faculty|laborator(?:y|ies)|academy|e-?mail|mailto|phone|tel|editor|board|journal)\b/i;
+
+/**
+ * Lines above an email that are searched for a name when its own line has none
+ */
+const NAME_LOOKBACK_LINES = 2;
+
+/**
+ * Check whether a piece of text looks like a person's name
+ * @param value - Candidate text (already trimmed)
+ * @returns Whether it has 1-5 words of letters and no affiliation words
+ */
+function looksLikeName(value: string): boolean {
+  const words = value.split(/\s+/).filter(Boolean);
+  return words.length >= 1
+    && words.length <= 5
+    && /^[\p{L}][\p{L}.'’\- ]*$/u.test(value)
+    && !NON_NAME_WORDS.test(value);
+}
+
+/**
+ * Clean a candidate name (titles, stray punctuation and extra spaces are removed)
+ * @param value - Raw text
+ * @returns Cleaned name
+ */
+function cleanName(value: string): string {
+  return value
+    .replace(/mailto:/gi, '')
+    .replace(/^[\s'"*•·\-–—.]+|[\s'"*•·\-–—]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(TITLE_PATTERN, '')
+    .trim();
+}
+
+/**
+ * Find a name in the text next to an email address
+ * A quoted display name wins (e.g. "Doe, Jane" <jane@x.org>). In a table
+ * row the first name-like cell is used; otherwise the part right before the
+ * email (e.g. Jane Doe <jane@x.org>), then any name-like part of the line.
+ * @param text - Text between the previous email (or line start) and this one
+ * @returns Name, or an empty string
+ */
+function findName(text: string): string {
+  const quoted = text.match(/"([^"]+)"[\s<(]*$/);
+  if (quoted && cleanName(quoted[1])) return cleanName(quoted[1]);
+
+  const parts = text
+    .split(PART_SEPARATOR)
+    .map(cleanName)
+    .filter(Boolean);
+  if (parts.length === 0) return '';
+
+  const last = parts[parts.length - 1];
+  if (!text.includes('\t') && looksLikeName(last)) return last;
+  return parts.find(looksLikeName) ?? '';
+}
+
+/**
+ * Extract email addresses and nearby names from free text
+ * Each address is listed once (case-insensitive); a name found at a later
+ * occurrence fills in a missing one. Addresses without a name nearby are
+ * kept with an empty name so it can be filled in by hand.
+ * @param text - Pasted text
+ * @returns Contacts in the order they appear
+ */
+export function extractContacts(text: string): ExtractedContact[] {
+  const lines = text.split(/\r\n|\n|\r/);
+  const contacts = new Map<string, ExtractedContact>();
+
+  lines.forEach((line, lineIndex) => {
+    let previousEnd = 0;
+    for (const match of line.matchAll(EMAIL_PATTERN)) {
+      const email = match[0].replace(/\.+$/, '').toLowerCase();
+      const start = match.index ?? 0;
+      let name = findName(line.slice(previousEnd, start));
+      const isFirstOnLine = previousEnd === 0;
+      previousEnd = start + match[0].length;
+
+      // Listings often put the name on its own line above the address
+      if (!name && isFirstOnLine) {
+        for (let back = 1; back <= NAME_LOOKBACK_LINES && lineIndex - back >= 0; back += 1) {
+          const above = lines[lineIndex - back];
+          if (HAS_EMAIL.test(above)) break;
+          const candidate = cleanName(above);
+          if (candidate && looksLikeName(candidate)) {
+            name = candidate;
+            break;
+          }
+        }
+      }
+
+      const existing = contacts.get(email);
+      if (!existing) {
+        contacts.set(email, { name, email });
+      } else if (!existing.name && name) {
+        existing.name = name;
+      }
+    }
+  });
+
+  return Array.from(contacts.values());
+}
+
+/**
+ * Write extracted contacts as CSV for the import API
+ * @param contacts - Contacts to import
+ * @returns CSV text with Name and Email columns
+ */
+export function contactsToCsv(contacts: ExtractedContact[]): string {
+  return Papa.unparse({
+    fields: [EXTRACTED_CSV_HEADERS.name, EXTRACTED_CSV_HEADERS.email],
+    data: contacts.map(({ name, email }) => [name.trim(), email.trim()]),
+  });
+}
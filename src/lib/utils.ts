@@ -118,3 +118,17 @@ export function getStatusInfo(status: string): { label: string; colorClass: stri
 export function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
+
+/**
+ * Build a Content-Disposition header for a file download
+ * The plain filename is reduced to safe ASCII for older clients; the full
+ * name is sent UTF-8 encoded in filename*.
+ * @param filename - File name (may contain quotes or non-ASCII characters)
+ * @returns Header value
+ */
+export function attachmentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  const encoded = encodeURIComponent(filename)
+    .replace(/['()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
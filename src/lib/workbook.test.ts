@@ -0,0 +1,74 @@
+import ExcelJS from 'exceljs';
+import { describe, expect, it } from 'vitest';
+import { getSheetRows, isWorkbookFile, readWorkbook } from '@/lib/workbook';
+
+/**
+ * Write a workbook and return its .xlsx bytes
+ * @param build - Adds sheets and cells to the workbook
+ * @returns File contents
+ */
+async function writeWorkbook(build: (workbook: ExcelJS.Workbook) => void): Promise<Uint8Array> {
+  const workbook = new ExcelJS.Workbook();
+  build(workbook);
+  return new Uint8Array(await workbook.xlsx.writeBuffer());
+}
+
+describe('isWorkbookFile', () => {
+  it('accepts .xlsx files only', () => {
+    expect(isWorkbookFile('Contacts.XLSX')).toBe(true);
+    expect(isWorkbookFile('contacts.xls')).toBe(false);
+    expect(isWorkbookFile('contacts.csv')).toBe(false);
+  });
+});
+
+describe('readWorkbook', () => {
+  it('lists the sheets in workbook order', async () => {
+    const data = await writeWorkbook((workbook) => {
+      workbook.addWorksheet('Authors').getCell('A1').value = 'Email';
+      workbook.addWorksheet('Notes');
+    });
+
+    const workbook = await readWorkbook(data);
+
+    expect(workbook.sheetNames).toEqual(['Authors', 'Notes']);
+    expect(getSheetRows(workbook)).toEqual({ firstRow: 1, rows: [['Email']] });
+    expect(getSheetRows(workbook, 'Notes')).toEqual({ firstRow: 1, rows: [] });
+    expect(getSheetRows(workbook, 'Missing')).toBeNull();
+  });
+
+  it('converts cells to text', async () => {
+    const data = await writeWorkbook((workbook) => {
+      const sheet = workbook.addWorksheet('Contacts');
+      sheet.addRow(['Name', 'Phone', 'Collected', 'Email', 'Journal']);
+      sheet.addRow([
+        { richText: [{ text: 'Ada ' }, { text: 'Lovelace', font: { bold: true } }] },
+        919876543210123,
+        new Date(Date.UTC(2024, 2, 5)),
+        { text: 'ada@example.org', hyperlink: 'mailto:ada@example.org' },
+        { formula: 'UPPER("nature")', result: 'NATURE' },
+      ]);
+    });
+
+    const rows = getSheetRows(await readWorkbook(data))?.rows;
+
+    expect(rows?.[1]).toEqual(['Ada Lovelace', '919876543210123', '2024-03-05', 'ada@example.org', 'NATURE']);
+  });
+
+  it('starts at the first used cell and keeps empty rows', async () => {
+    const data = await writeWorkbook((workbook) => {
+      const sheet = workbook.addWorksheet('Contacts');
+      sheet.getCell('B2').value = 'Email';
+      sheet.getCell('C2').value = 'Name';
+      sheet.getCell('B4').value = 'ada@example.org';
+    });
+
+    expect(getSheetRows(await readWorkbook(data))).toEqual({
+      firstRow: 2,
+      rows: [['Email', 'Name'], ['', ''], ['ada@example.org', '']],
+    });
+  });
+
+  it('rejects files that are not workbooks', async () => {
+    await expect(readWorkbook(new TextEncoder().encode('email\nada@example.org'))).rejects.toThrow();
+  });
+});
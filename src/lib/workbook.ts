@@ -0,0 +1,139 @@
+import type { CellValue, Worksheet } from 'exceljs';
+
+/**
+ * Excel workbook helpers for contact imports
+ *
+ * Used by the Import page (to list sheets and detect headers in the browser)
+ * and by the importer (to turn a sheet into rows). Cells are converted to
+ * plain text so workbook rows go through the same validation as CSV rows.
+ * The parser (ExcelJS) is only loaded once a workbook is read, and reads
+ * .xlsx files only; older .xls files must be saved as .xlsx first.
+ */
+
+/**
+ * Workbook file extensions accepted by the import
+ */
+export const WORKBOOK_EXTENSIONS = ['.xlsx'];
+
+/**
+ * Sheet and header row to import from a workbook
+ */
+export interface WorkbookOptions {
+  /** Sheet name (defaults to the first sheet) */
+  sheet?: string | null;
+  /** 1-based row number of the header row */
+  headerRow: number;
+}
+
+/**
+ * Text cells of a sheet
+ */
+export interface SheetRows {
+  /** 1-based row number of the first entry of `rows` */
+  firstRow: number;
+  rows: string[][];
+}
+
+/**
+ * Text cells of every sheet of a workbook
+ */
+export interface Workbook {
+  /** Sheet names, in workbook order */
+  sheetNames: string[];
+  /** Rows of each sheet, by name */
+  sheets: Record<string, SheetRows>;
+}
+
+/**
+ * Check whether a file is an Excel workbook
+ * @param fileName - File name
+ * @returns Whether the extension is .xlsx
+ */
+export function isWorkbookFile(fileName: string): boolean {
+  const name = fileName.toLowerCase();
+  return WORKBOOK_EXTENSIONS.some((extension) => name.endsWith(extension));
+}
+
+/**
+ * Convert a cell value to text
+ * Numbers keep all their digits (long phone numbers are not shortened to
+ * scientific notation), dates become YYYY-MM-DD, formulas give their result
+ * and rich text and hyperlinks their text.
+ * @param value - Cell value
+ * @returns Cell text
+ */
+function cellText(value: CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value !== 'object') return String(value);
+  if ('richText' in value) return value.richText.map((run) => run.text).join('');
+  if ('hyperlink' in value) return cellText(value.text);
+  if ('formula' in value || 'sharedFormula' in value) return cellText(value.result ?? null);
+  if ('error' in value) return value.error;
+  return '';
+}
+
+/**
+ * Read all rows of a worksheet as text
+ * Rows and columns start at the first used cell; empty rows in between are
+ * kept so row numbers stay in line with the sheet.
+ * @param worksheet - ExcelJS worksheet
+ * @returns Sheet rows
+ */
+function readSheetRows(worksheet: Worksheet): SheetRows {
+  const cells = new Map<number, Map<number, string>>();
+  let firstColumn = Infinity;
+  let lastColumn = 0;
+  worksheet.eachRow((row, rowNumber) => {
+    const texts = new Map<number, string>();
+    row.eachCell((cell, columnNumber) => {
+      texts.set(columnNumber, cellText(cell.value));
+      firstColumn = Math.min(firstColumn, columnNumber);
+      lastColumn = Math.max(lastColumn, columnNumber);
+    });
+    if (texts.size > 0) cells.set(rowNumber, texts);
+  });
+  if (cells.size === 0) return { firstRow: 1, rows: [] };
+
+  const rowNumbers = Array.from(cells.keys());
+  const firstRow = Math.min(...rowNumbers);
+  const lastRow = Math.max(...rowNumbers);
+  const rows: string[][] = [];
+  for (let rowNumber = firstRow; rowNumber <= lastRow; rowNumber++) {
+    const texts = cells.get(rowNumber);
+    const row: string[] = [];
+    for (let column = firstColumn; column <= lastColumn; column++) {
+      row.push(texts?.get(column) ?? '');
+    }
+    rows.push(row);
+  }
+  return { firstRow, rows };
+}
+
+/**
+ * Read a workbook from its file contents
+ * @param data - File contents
+ * @returns Text cells of every sheet
+ */
+export async function readWorkbook(data: ArrayBuffer | Uint8Array): Promise<Workbook> {
+  const ExcelJS = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data instanceof ArrayBuffer ? data : new Uint8Array(data).buffer);
+
+  const sheets: Record<string, SheetRows> = {};
+  workbook.worksheets.forEach((worksheet) => {
+    sheets[worksheet.name] = readSheetRows(worksheet);
+  });
+  return { sheetNames: workbook.worksheets.map((worksheet) => worksheet.name), sheets };
+}
+
+/**
+ * Get the rows of a sheet
+ * @param workbook - Parsed workbook
+ * @param sheet - Sheet name (defaults to the first sheet)
+ * @returns Sheet rows, or null when the sheet does not exist
+ */
+export function getSheetRows(workbook: Workbook, sheet?: string | null): SheetRows | null {
+  const name = sheet || workbook.sheetNames[0];
+  return (name && workbook.sheets[name]) || null;
+}
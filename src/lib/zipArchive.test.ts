@@ -0,0 +1,101 @@
+import { inflateRawSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { createZipArchive } from '@/lib/zipArchive';
+
+/**
+ * File read back from an archive
+ */
+interface ZipEntry {
+  name: string;
+  content: string;
+  crc: number;
+  flags: number;
+  time: number;
+  date: number;
+}
+
+/**
+ * Read an archive through its central directory, as unzip tools do
+ * @param archive - Archive bytes
+ * @returns Files in directory order
+ */
+function readZip(archive: Buffer): ZipEntry[] {
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+  const count = archive.readUInt16LE(end + 10);
+  let position = archive.readUInt32LE(end + 16);
+
+  const entries: ZipEntry[] = [];
+  for (let index = 0; index < count; index++) {
+    expect(archive.readUInt32LE(position)).toBe(0x02014b50);
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const localOffset = archive.readUInt32LE(position + 42);
+    const name = archive.toString('utf8', position + 46, position + 46 + nameLength);
+
+    expect(archive.readUInt32LE(localOffset)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+    const content = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+    expect(content.length).toBe(archive.readUInt32LE(position + 24));
+
+    entries.push({
+      name,
+      content: content.toString('utf8'),
+      crc: archive.readUInt32LE(position + 16),
+      flags: archive.readUInt16LE(position + 8),
+      time: archive.readUInt16LE(position + 12),
+      date: archive.readUInt16LE(position + 14),
+    });
+    position += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('createZipArchive', () => {
+  it('writes files that can be read back through the central directory', () => {
+    const zip = createZipArchive(new Date(2026, 9, 19, 14, 30, 10));
+    const files = [
+      { name: 'NAT - Nature.csv', content: 'email\r\nada@example.org\r\n' },
+      { name: 'manifest.csv', content: 'brand,journal,file,rows\r\n' },
+    ];
+    const archive = Buffer.concat([
+      ...files.map(({ name, content }) => zip.addFile(name, Buffer.from(content))),
+      zip.finish(),
+    ]);
+
+    const entries = readZip(archive);
+
+    expect(entries.map(({ name, content }) => ({ name, content }))).toEqual(files);
+    // 14:30:10 and 2026-10-19 in MS-DOS format
+    expect(entries[0].time).toBe((14 << 11) | (30 << 5) | 5);
+    expect(entries[0].date).toBe(((2026 - 1980) << 9) | (10 << 5) | 19);
+  });
+
+  it('stores the CRC-32 of each file', () => {
+    const zip = createZipArchive();
+    const archive = Buffer.concat([
+      zip.addFile('check.txt', Buffer.from('123456789')),
+      zip.addFile('empty.txt', Buffer.from('')),
+      zip.finish(),
+    ]);
+
+    expect(readZip(archive).map(({ crc }) => crc)).toEqual([0xcbf43926, 0]);
+  });
+
+  it('marks file names as UTF-8', () => {
+    const zip = createZipArchive();
+    const archive = Buffer.concat([zip.addFile('Zeitschrift für Physik.csv', Buffer.from('')), zip.finish()]);
+
+    const [entry] = readZip(archive);
+
+    expect(entry.name).toBe('Zeitschrift für Physik.csv');
+    expect(entry.content).toBe('');
+    expect(entry.flags & 0x0800).toBe(0x0800);
+  });
+
+  it('writes an empty archive', () => {
+    const archive = Buffer.from(createZipArchive().finish());
+    expect(archive.length).toBe(22);
+    expect(readZip(archive)).toEqual([]);
+  });
+});
@@ -0,0 +1,133 @@
+import { deflateRawSync } from 'zlib';
+
+/**
+ * ZIP archive writer
+ *
+ * Writes a ZIP archive file by file, so an archive can be streamed to the
+ * client while later files are still being generated. Each file is
+ * compressed as a whole (deflate), so only one file is held in memory at a
+ * time. ZIP64 is not supported: files and the archive must stay below 4 GB.
+ */
+
+/**
+ * Builds a ZIP archive one file at a time
+ */
+export interface ZipArchive {
+  /** Bytes of a file entry (local header and compressed contents) */
+  addFile(name: string, data: Uint8Array): Uint8Array;
+  /** Bytes of the central directory that ends the archive */
+  finish(): Uint8Array;
+}
+
+/**
+ * General purpose flag: file names are UTF-8
+ */
+const UTF8_FLAG = 0x0800;
+
+/**
+ * Compression method: deflate
+ */
+const DEFLATE_METHOD = 8;
+
+/**
+ * ZIP version needed to extract (2.0, for deflate)
+ */
+const ZIP_VERSION = 20;
+
+/**
+ * CRC-32 lookup table (zlib.crc32 needs Node 20.15 or later)
+ */
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * CRC-32 checksum of data (as stored in ZIP headers)
+ * @param data - File contents
+ * @returns Unsigned checksum
+ */
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * MS-DOS date and time of a date (as stored in ZIP headers)
+ * @param date - Date to convert
+ * @returns DOS time and date fields
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Create a ZIP archive writer
+ * @param modified - Modification time stored for every file (defaults to now)
+ * @returns ZIP archive writer
+ */
+export function createZipArchive(modified: Date = new Date()): ZipArchive {
+  const { time, date } = toDosDateTime(modified);
+  const centralRecords: Buffer[] = [];
+  let offset = 0;
+
+  return {
+    addFile(name, data) {
+      const fileName = Buffer.from(name, 'utf8');
+      const compressed = deflateRawSync(data);
+      const checksum = crc32(data);
+
+      const local = Buffer.alloc(30);
+      local.writeUInt32LE(0x04034b50, 0);
+      local.writeUInt16LE(ZIP_VERSION, 4);
+      local.writeUInt16LE(UTF8_FLAG, 6);
+      local.writeUInt16LE(DEFLATE_METHOD, 8);
+      local.writeUInt16LE(time, 10);
+      local.writeUInt16LE(date, 12);
+      local.writeUInt32LE(checksum, 14);
+      local.writeUInt32LE(compressed.length, 18);
+      local.writeUInt32LE(data.length, 22);
+      local.writeUInt16LE(fileName.length, 26);
+      local.writeUInt16LE(0, 28);
+
+      const central = Buffer.alloc(46);
+      central.writeUInt32LE(0x02014b50, 0);
+      central.writeUInt16LE(ZIP_VERSION, 4);
+      central.writeUInt16LE(ZIP_VERSION, 6);
+      central.writeUInt16LE(UTF8_FLAG, 8);
+      central.writeUInt16LE(DEFLATE_METHOD, 10);
+      central.writeUInt16LE(time, 12);
+      central.writeUInt16LE(date, 14);
+      central.writeUInt32LE(checksum, 16);
+      central.writeUInt32LE(compressed.length, 20);
+      central.writeUInt32LE(data.length, 24);
+      central.writeUInt16LE(fileName.length, 28);
+      central.writeUInt32LE(offset, 42);
+      centralRecords.push(Buffer.concat([central, fileName]));
+
+      const entry = Buffer.concat([local, fileName, compressed]);
+      offset += entry.length;
+      return entry;
+    },
+
+    finish() {
+      const directory = Buffer.concat(centralRecords);
+      const end = Buffer.alloc(22);
+      end.writeUInt32LE(0x06054b50, 0);
+      end.writeUInt16LE(centralRecords.length, 8);
+      end.writeUInt16LE(centralRecords.length, 10);
+      end.writeUInt32LE(directory.length, 12);
+      end.writeUInt32LE(offset, 16);
+      return Buffer.concat([directory, end]);
+    },
+  };
+}
@@ -0,0 +1,17 @@
+import path from 'node:path';
+import { defineConfig } from 'vitest/config';
+
+/**
+ * Unit tests for the pure modules in src/lib (no database needed)
+ */
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, 'src'),
+    },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
+});